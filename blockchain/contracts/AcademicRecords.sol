@@ -1,26 +1,73 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
 import "./interfaces/IAcademicRecords.sol";
 import "./abstract/RoleManager.sol";
 import "./libraries/RecordStorage.sol";
 import "./modules/StudentManagement.sol";
+import "./modules/UniversityStaff.sol";
+import "./modules/RecordDrafts.sol";
+import "./modules/RecordCosigning.sol";
 
-contract AcademicRecords is IAcademicRecords, RoleManager, Pausable {
+contract AcademicRecords is IAcademicRecords, RoleManager, PausableUpgradeable {
     using RecordStorage for RecordStorage.RecordData;
     using RecordStorage for RecordStorage.CustomTypeData;
+    using RecordStorage for RecordStorage.AnchorData;
+    using RecordStorage for RecordStorage.TombstoneData;
 
     RecordStorage.RecordData private recordData;
     RecordStorage.CustomTypeData private customTypeData;
+    RecordStorage.AnchorData private anchorData;
     StudentManagement public studentManagement;
+    RecordStorage.AddressIndex private addressIndex;
+    RecordStorage.TombstoneData private tombstoneData;
+    UniversityStaff public universityStaff;
+    RecordDrafts public recordDrafts;
+    RecordCosigning public recordCosigning;
 
-    constructor() RoleManager() {
-        studentManagement = new StudentManagement();
+    uint256 public constant MAX_BATCH_SIZE = RecordStorage.MAX_BATCH_SIZE;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    // Deployed behind a transparent proxy; StudentManagement has its own
+    // proxy so both keep their address and storage across upgrades. The
+    // deployer links StudentManagement to this proxy once it exists
+    function initialize(
+        StudentManagement _studentManagement
+    ) external initializer {
+        __RoleManager_init();
+        __Pausable_init();
+        studentManagement = _studentManagement;
+    }
+
+    // UniversityStaff, RecordDrafts and RecordCosigning are modules deployed
+    // after AcademicRecords, so they are linked once the proxies exist
+    function setUniversityStaff(
+        UniversityStaff _universityStaff
+    ) external onlySuperAdmin {
+        universityStaff = _universityStaff;
+    }
+
+    function setRecordDrafts(
+        RecordDrafts _recordDrafts
+    ) external onlySuperAdmin {
+        recordDrafts = _recordDrafts;
+    }
+
+    function setRecordCosigning(
+        RecordCosigning _recordCosigning
+    ) external onlySuperAdmin {
+        recordCosigning = _recordCosigning;
     }
 
     // --- Academic Record Management ---
 
+    // Joint records name the other universities that have to co-sign them
+    // before they verify
     function addRecord(
         string calldata studentId,
         string calldata studentName,
@@ -28,18 +75,19 @@ contract AcademicRecords is IAcademicRecords, RoleManager, Pausable {
         string calldata universityName,
         string calldata ipfsHash,
         string calldata metadataHash,
-        RecordType recordType
-    ) external onlyRole(UNIVERSITY_ROLE) whenNotPaused returns (uint256) {
-        require(studentAddress != address(0), "Invalid student address");
-
-        string memory existingStudentId = studentManagement.addressToStudentId(
-            studentAddress
-        );
-        if (bytes(existingStudentId).length == 0) {
-            studentManagement.registerStudent(studentId, studentAddress);
-        }
-
-        uint256 recordId = recordData.addRecord(
+        RecordType recordType,
+        uint256 customTypeId,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil,
+        address[] calldata cosigners
+    ) external whenNotPaused returns (uint256 recordId) {
+        address university = _issuingUniversity();
+        customTypeData.checkCustomType(recordType, customTypeId, university);
+
+        recordId = recordData.addRecord(
+            addressIndex,
+            studentManagement,
             studentId,
             studentName,
             studentAddress,
@@ -47,93 +95,163 @@ contract AcademicRecords is IAcademicRecords, RoleManager, Pausable {
             ipfsHash,
             metadataHash,
             recordType,
-            msg.sender
+            customTypeId,
+            visibleFrom,
+            validFrom,
+            validUntil,
+            university
         );
+        if (cosigners.length > 0) {
+            recordCosigning.requestCosigners(recordId, university, cosigners);
+        }
+    }
+
+    // Issues one record per entry in a single transaction. Invalid entries are
+    // skipped with a RecordBatchEntryFailed event and a record id of 0
+    function addRecordsBatch(
+        string[] calldata studentIds,
+        string[] calldata studentNames,
+        address[] calldata studentAddresses,
+        string calldata universityName,
+        string[] calldata ipfsHashes,
+        string[] calldata metadataHashes,
+        RecordType[] calldata recordTypes,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil
+    ) external whenNotPaused returns (uint256[] memory recordIds) {
+        address university = _issuingUniversity();
+        return
+            recordData.addRecordsBatch(
+                addressIndex,
+                studentManagement,
+                studentIds,
+                studentNames,
+                studentAddresses,
+                universityName,
+                ipfsHashes,
+                metadataHashes,
+                recordTypes,
+                visibleFrom,
+                validFrom,
+                validUntil,
+                university
+            );
+    }
+
+    // Issues a pending draft as a record. Registrars and universities
+    // publish drafts they did not write themselves
+    function publishDraft(
+        uint256 draftId
+    ) external whenNotPaused returns (uint256) {
+        return
+            recordData.publishDraft(
+                addressIndex,
+                customTypeData,
+                studentManagement,
+                recordDrafts,
+                recordCosigning,
+                draftId,
+                _actingUniversity(UniversityStaff.StaffRole.REGISTRAR)
+            );
+    }
 
-        emit RecordAdded(recordId, studentId, recordType, msg.sender);
+    function supersedeRecord(
+        uint256 previousRecordId,
+        string calldata studentName,
+        string calldata ipfsHash,
+        string calldata metadataHash,
+        RecordType recordType,
+        uint256 customTypeId
+    ) external onlyRole(UNIVERSITY_ROLE) whenNotPaused returns (uint256) {
+        uint256 recordId = recordData.supersedeRecord(
+            addressIndex,
+            recordCosigning,
+            previousRecordId,
+            studentName,
+            ipfsHash,
+            metadataHash,
+            recordType,
+            customTypeId,
+            msg.sender
+        );
+        customTypeData.checkCustomType(recordType, customTypeId, msg.sender);
         return recordId;
     }
 
     function deleteStudent(
-        string calldata studentId
+        string calldata studentId,
+        string calldata reason
     ) external onlyRole(UNIVERSITY_ROLE) whenNotPaused {
-        require(bytes(studentId).length > 0, "Invalid student ID");
-
-        uint256[] memory deletedRecords = recordData.deleteStudentRecords(
+        recordData.deleteStudentRecords(
+            addressIndex,
+            tombstoneData,
             studentId,
+            reason,
             msg.sender
         );
-
-        emit StudentDeleted(studentId, msg.sender);
-
-        // Emit events for deleted records
-        for (uint256 i = 0; i < deletedRecords.length; i++) {
-            // Records are already deleted, so we can't emit detailed info
-            // You might want to store this info before deletion if needed
-        }
     }
 
-    function getRecord(uint256 recordId) external view returns (Record memory) {
-        require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
+    // Deletes one record issued by the caller, leaving the student's other
+    // records untouched
+    function withdrawRecord(
+        uint256 recordId,
+        string calldata reason
+    ) external onlyRole(UNIVERSITY_ROLE) whenNotPaused {
+        recordData.withdrawRecord(
+            addressIndex,
+            tombstoneData,
+            recordId,
+            reason,
+            msg.sender
         );
-        return recordData.records[recordId];
     }
 
-    function getRecordWithPermission(
-        uint256 recordId
-    ) external view returns (Record memory) {
-        require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
+    function revokeRecord(
+        uint256 recordId,
+        RevocationReason reasonCode,
+        string calldata note
+    ) external whenNotPaused {
+        recordData.revokeRecord(
+            recordId,
+            reasonCode,
+            note,
+            msg.sender,
+            _isAdminOrSuper()
         );
+    }
 
-        Record memory record = recordData.records[recordId];
-
-        // Check if caller has permission to view this record
-        bool hasPermission = false;
-
-        // University that issued the record can always view
-        if (record.issuer == msg.sender) {
-            hasPermission = true;
-        }
-
-        // Check if record is shared with caller
-        if (recordData.recordSharedWith[recordId][msg.sender]) {
-            hasPermission = true;
-        }
-
-        // Admin and super admin can view all
-        if (hasRole(ADMIN_ROLE, msg.sender) || msg.sender == SUPER_ADMIN) {
-            hasPermission = true;
-        }
+    function getRevocation(
+        uint256 recordId
+    ) external view returns (Revocation memory) {
+        return recordData.getRevocation(recordId);
+    }
 
-        // Student can view their own records
-        string memory studentId = studentManagement.addressToStudentId(
-            msg.sender
-        );
-        if (
-            bytes(studentId).length > 0 &&
-            keccak256(bytes(studentId)) == keccak256(bytes(record.studentId))
-        ) {
-            hasPermission = true;
-        }
+    function getRecord(uint256 recordId) external view returns (Record memory) {
+        return
+            recordData.getRecord(
+                recordId,
+                _actingAs(UniversityStaff.StaffRole.VIEWER)
+            );
+    }
 
-        require(hasPermission, "No permission to view this record");
-
-        // If caller doesn't have full access, hide sensitive data
-        if (
-            !recordData.recordSharedWith[recordId][msg.sender] &&
-            record.issuer != msg.sender &&
-            !hasRole(ADMIN_ROLE, msg.sender) &&
-            msg.sender != SUPER_ADMIN
-        ) {
-            record.ipfsHash = "";
-            record.metadataHash = "";
-        }
+    // Deleted records keep a tombstone with their issuer and deletion time
+    function getDeletedRecord(
+        uint256 recordId
+    ) external view returns (RecordTombstone memory) {
+        return tombstoneData.getTombstone(recordId);
+    }
 
-        return record;
+    function getRecordWithPermission(
+        uint256 recordId
+    ) external view returns (Record memory) {
+        return
+            recordData.getRecordForViewer(
+                studentManagement,
+                recordId,
+                _actingAs(UniversityStaff.StaffRole.VIEWER),
+                _isAdminOrSuper()
+            );
     }
 
     function getStudentRecords(
@@ -142,134 +260,105 @@ contract AcademicRecords is IAcademicRecords, RoleManager, Pausable {
         return recordData.studentRecords[studentId];
     }
 
+    function getStudentRecordsPage(
+        string calldata studentId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory, uint256) {
+        return
+            RecordStorage.getRecordIdPage(
+                recordData.studentRecords[studentId],
+                offset,
+                limit
+            );
+    }
+
     function getStudentRecordsByAddress(
         address studentAddress
     ) external view returns (uint256[] memory) {
-        string memory studentId = studentManagement.getStudentId(
-            studentAddress
-        );
-
-        uint256[] memory addressRecords = recordData.getRecordsByStudentAddress(
-            studentAddress
-        );
-
-        if (bytes(studentId).length == 0) {
-            return addressRecords;
-        }
-
-        uint256[] memory idRecords = recordData.studentRecords[studentId];
-
-        // Combine array with unique records
-        uint256[] memory combinedRecords = new uint256[](
-            addressRecords.length + idRecords.length
-        );
-        uint256 uniqueCount = 0;
-
-        for (uint256 i = 0; i < addressRecords.length; i++) {
-            combinedRecords[uniqueCount] = addressRecords[i];
-            uniqueCount++;
-        }
-
-        for (uint256 i = 0; i < idRecords.length; i++) {
-            bool isDuplicate = false;
-
-            for (uint256 j = 0; j < uniqueCount; j++) {
-                if (idRecords[i] == combinedRecords[j]) {
-                    isDuplicate = true;
-                    break;
-                }
-            }
-
-            if (!isDuplicate) {
-                combinedRecords[uniqueCount] = idRecords[i];
-                uniqueCount++;
-            }
-        }
-
-        uint256[] memory result = new uint256[](uniqueCount);
-        for (uint256 i = 0; i < uniqueCount; i++) {
-            result[i] = combinedRecords[i];
-        }
+        return
+            recordData.getStudentRecordsByAddress(
+                addressIndex,
+                studentAddress,
+                studentManagement.getStudentId(studentAddress)
+            );
+    }
 
-        return result;
+    function getUniversityRecords() external view returns (uint256[] memory) {
+        return
+            recordData.universityRecords[
+                _actingUniversity(UniversityStaff.StaffRole.VIEWER)
+            ];
     }
 
-    function getUniversityRecords()
-        external
-        view
-        onlyRole(UNIVERSITY_ROLE)
-        returns (uint256[] memory)
-    {
-        return recordData.universityRecords[msg.sender];
+    function getUniversityRecordsPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory, uint256) {
+        return
+            RecordStorage.getRecordIdPage(
+                recordData.universityRecords[
+                    _actingUniversity(UniversityStaff.StaffRole.VIEWER)
+                ],
+                offset,
+                limit
+            );
     }
 
-    function verifyRecord(uint256 recordId) external view returns (bool) {
-        require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
-        );
-        return recordData.records[recordId].isVerified;
+    function verifyRecord(
+        uint256 recordId
+    ) external view returns (VerificationStatus) {
+        return
+            recordData.verifyRecord(
+                recordCosigning,
+                recordId,
+                _actingAs(UniversityStaff.StaffRole.VIEWER)
+            );
     }
 
     // --- Record Sharing Functions ---
 
-    function shareRecord(uint256 recordId, address sharedWith) external {
-        require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
-        );
-
-        // Only student can share their records
-        string memory studentId = studentManagement.addressToStudentId(
-            msg.sender
-        );
-        require(bytes(studentId).length > 0, "Not a registered student");
-        require(
-            keccak256(bytes(studentId)) ==
-                keccak256(bytes(recordData.records[recordId].studentId)),
-            "Not your record"
+    function shareRecord(
+        uint256 recordId,
+        address sharedWith,
+        uint256 duration
+    ) external {
+        recordData.shareRecord(
+            studentManagement,
+            recordId,
+            sharedWith,
+            duration
         );
-
-        recordData.shareRecord(recordId, sharedWith, studentId);
-        emit RecordShared(recordId, studentId, sharedWith);
     }
 
     function unshareRecord(uint256 recordId, address sharedWith) external {
-        require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
-        );
-
-        string memory studentId = studentManagement.addressToStudentId(
-            msg.sender
-        );
-        require(bytes(studentId).length > 0, "Not a registered student");
-        require(
-            keccak256(bytes(studentId)) ==
-                keccak256(bytes(recordData.records[recordId].studentId)),
-            "Not your record"
-        );
-
-        recordData.unshareRecord(recordId, sharedWith, studentId);
-        emit RecordUnshared(recordId, studentId, sharedWith);
+        recordData.unshareRecord(studentManagement, recordId, sharedWith);
     }
 
     function getSharedRecords(
         address sharedWith
     ) external view returns (uint256[] memory) {
-        string memory studentId = studentManagement.addressToStudentId(
-            msg.sender
-        );
-        require(bytes(studentId).length > 0, "Not a registered student");
-
-        return recordData.studentSharedRecords[studentId][sharedWith];
+        return recordData.getActiveSharedRecords(studentManagement, sharedWith);
     }
 
     function isRecordSharedWith(
         uint256 recordId,
         address user
     ) external view returns (bool) {
-        return recordData.recordSharedWith[recordId][user];
+        return recordData.isShareActive(recordId, user);
+    }
+
+    function getRecordGrantees(
+        uint256 recordId
+    ) external view returns (ShareGrant[] memory) {
+        return recordData.getRecordGrantees(recordId);
+    }
+
+    function getShareExpiry(
+        uint256 recordId,
+        address user
+    ) external view returns (uint256) {
+        return recordData.recordShareExpiry[recordId][user];
     }
 
     // --- Custom Record Types ---
@@ -278,74 +367,173 @@ contract AcademicRecords is IAcademicRecords, RoleManager, Pausable {
         string calldata name,
         string calldata description
     ) external onlyRole(UNIVERSITY_ROLE) returns (uint256) {
-        require(bytes(name).length > 0, "Invalid name");
-
-        uint256 typeId = customTypeData.addCustomType(
-            name,
-            description,
-            msg.sender
-        );
-        emit CustomRecordTypeCreated(typeId, name, msg.sender);
-
-        return typeId;
+        return customTypeData.addCustomType(name, description, msg.sender);
     }
 
     function updateCustomRecordType(
         uint256 typeId,
         bool isActive
     ) external onlyRole(UNIVERSITY_ROLE) {
-        require(
-            customTypeData.customTypes[typeId].creator == msg.sender,
-            "Not the creator"
-        );
-
-        customTypeData.customTypes[typeId].isActive = isActive;
-        emit CustomRecordTypeUpdated(typeId, isActive);
+        customTypeData.setCustomTypeActive(typeId, isActive, msg.sender);
     }
 
     function getCustomRecordType(
         uint256 typeId
     ) external view returns (CustomRecordType memory) {
-        require(
-            customTypeData.customTypes[typeId].id == typeId,
-            "Custom type does not exist"
-        );
-        return customTypeData.customTypes[typeId];
+        return customTypeData.getCustomType(typeId);
     }
 
     function getUniversityCustomTypes()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return
+            customTypeData.universityCustomTypes[
+                _actingUniversity(UniversityStaff.StaffRole.VIEWER)
+            ];
+    }
+
+    // --- Merkle Anchoring ---
+
+    // Anchors the Merkle root of records kept off chain; each student keeps
+    // a proof file that verifyAnchoredRecord checks against this root
+    function anchorRecordBatch(
+        bytes32 merkleRoot,
+        uint256 recordCount
+    ) external onlyRole(UNIVERSITY_ROLE) whenNotPaused returns (uint256) {
+        return anchorData.anchorBatch(merkleRoot, recordCount, msg.sender);
+    }
+
+    function getAnchoredBatch(
+        uint256 batchId
+    ) external view returns (AnchoredBatch memory) {
+        return anchorData.getBatch(batchId);
+    }
+
+    function getUniversityAnchoredBatches()
         external
         view
         onlyRole(UNIVERSITY_ROLE)
         returns (uint256[] memory)
     {
-        return customTypeData.universityCustomTypes[msg.sender];
+        return anchorData.universityBatches[msg.sender];
+    }
+
+    // True when the record is part of the batch and the batch issuer is
+    // still a university
+    function verifyAnchoredRecord(
+        uint256 batchId,
+        AnchoredRecord calldata entry,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        return
+            hasRole(UNIVERSITY_ROLE, anchorData.batches[batchId].issuer) &&
+            anchorData.isAnchored(batchId, entry, proof);
+    }
+
+    // The university the caller acts for, which UniversityStaff resolves
+    // once it is linked
+    function _actingUniversity(
+        UniversityStaff.StaffRole minRole
+    ) private view returns (address) {
+        if (address(universityStaff) == address(0)) {
+            _checkRole(UNIVERSITY_ROLE, msg.sender);
+            return msg.sender;
+        }
+        return universityStaff.resolveActingUniversity(msg.sender, minRole);
+    }
+
+    // Universities issue records directly. Their registrars only do where
+    // the university opted out of reviewing staff records as drafts
+    function _issuingUniversity() private view returns (address) {
+        if (address(universityStaff) == address(0)) {
+            return _actingUniversity(UniversityStaff.StaffRole.REGISTRAR);
+        }
+        return universityStaff.resolveIssuingUniversity(msg.sender);
+    }
+
+    // The university a staff account works for, or the caller itself
+    function _actingAs(
+        UniversityStaff.StaffRole minRole
+    ) private view returns (address account) {
+        account = msg.sender;
+        if (address(universityStaff) != address(0)) {
+            address employer = universityStaff.getActingUniversity(
+                msg.sender,
+                minRole
+            );
+            if (employer != address(0)) account = employer;
+        }
     }
 
     // --- Access Tracking ---
 
     function recordAccess(uint256 recordId) external {
+        recordData.recordAccess(recordId);
+    }
+
+    // --- Student Registration ---
+
+    // Registers a student ahead of their first record. Universities and
+    // admins are the only ones who can link a student ID to a wallet
+    function registerStudent(
+        string calldata studentId,
+        address studentAddress
+    ) external whenNotPaused {
         require(
-            recordData.records[recordId].id == recordId,
-            "Record does not exist"
+            hasRole(UNIVERSITY_ROLE, msg.sender) ||
+                hasRole(ADMIN_ROLE, msg.sender),
+            "Not university or admin"
         );
-        emit RecordAccessed(recordId, msg.sender);
+        studentManagement.registerStudent(studentId, studentAddress);
     }
 
-    // --- Student Registration ---
+    // Asks to move a student ID to a new wallet; requested by the student's
+    // current wallet or an admin
+    function requestStudentAddressChange(
+        string calldata studentId,
+        address newAddress
+    ) external whenNotPaused {
+        studentManagement.requestAddressChange(
+            studentId,
+            newAddress,
+            msg.sender,
+            hasRole(ADMIN_ROLE, msg.sender)
+        );
+    }
 
-    function registerStudent(string calldata studentId) external {
-        studentManagement.registerStudent(studentId, msg.sender);
+    // Address changes are approved by a university that issued a record to
+    // the student, or by an admin while the student has no records
+    function approveStudentAddressChange(
+        string calldata studentId
+    ) external whenNotPaused {
+        recordData.checkAddressChangeApprover(
+            studentId,
+            msg.sender,
+            hasRole(UNIVERSITY_ROLE, msg.sender),
+            hasRole(ADMIN_ROLE, msg.sender)
+        );
+        studentManagement.approveAddressChange(studentId, msg.sender);
     }
 
     // --- Pause Controls ---
 
-    function pause() external onlyAdminOrSuper {
-        _pause();
+    function pause() external onlyAdminOrSuper whenApprovalNotRequired {
+        _setPaused(true);
     }
 
-    function unpause() external onlyAdminOrSuper {
-        _unpause();
+    function unpause() external onlyAdminOrSuper whenApprovalNotRequired {
+        _setPaused(false);
+    }
+
+    // Executes approved PAUSE and UNPAUSE proposals
+    function _setPaused(bool paused) internal override {
+        if (paused) {
+            _pause();
+        } else {
+            _unpause();
+        }
     }
 
     // --- Utility Functions ---
@@ -1,14 +1,31 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "../libraries/GovernanceStorage.sol";
+
+abstract contract RoleManager is AccessControlUpgradeable {
+    using GovernanceStorage for GovernanceStorage.ProposalData;
+    using GovernanceStorage for GovernanceStorage.TransferData;
 
-abstract contract RoleManager is AccessControl {
     bytes32 public constant UNIVERSITY_ROLE = keccak256("UNIVERSITY_ROLE");
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant SUPER_ADMIN_ROLE = keccak256("SUPER_ADMIN_ROLE");
 
-    address public immutable SUPER_ADMIN;
+    // Changes only through a timelocked transfer or an admin recovery
+    address public SUPER_ADMIN;
+
+    uint256 public constant PROPOSAL_DURATION = 7 days;
+
+    // Approvals needed to execute a proposal; 1 keeps the direct calls
+    uint256 public approvalThreshold;
+
+    GovernanceStorage.ProposalData private _proposalData;
+
+    uint256 public constant SUPER_ADMIN_TRANSFER_DELAY = 2 days;
+    uint256 public constant SUPER_ADMIN_RECOVERY_DELAY = 30 days;
+
+    GovernanceStorage.TransferData private _transferData;
 
     // University name registry
     mapping(address => string) private _universityNames;
@@ -17,21 +34,56 @@ abstract contract RoleManager is AccessControl {
     event UniversityNameUpdated(address indexed university, string name);
     event AdminAdded(address indexed admin, address indexed addedBy);
     event AdminRemoved(address indexed admin, address indexed removedBy);
+    event ApprovalThresholdUpdated(uint256 threshold);
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        GovernanceStorage.ProposalAction action,
+        address target,
+        uint256 value,
+        address indexed proposer
+    );
+    event ProposalApproved(uint256 indexed proposalId, address indexed admin);
+    event ProposalRejected(uint256 indexed proposalId, address indexed admin);
+    event ProposalExecuted(uint256 indexed proposalId);
+    event SuperAdminTransferProposed(
+        address indexed newSuperAdmin,
+        uint256 executableAt,
+        bool isRecovery,
+        address indexed proposedBy
+    );
+    event SuperAdminRecoveryApproved(address indexed admin, uint256 approvals);
+    event SuperAdminRecoveryCancelVote(address indexed admin, uint256 votes);
+    event SuperAdminTransferCancelled(
+        address indexed newSuperAdmin,
+        address indexed cancelledBy
+    );
+    event SuperAdminTransferred(
+        address indexed previousSuperAdmin,
+        address indexed newSuperAdmin
+    );
 
     modifier onlySuperAdmin() {
-        require(msg.sender == SUPER_ADMIN, "Not super admin");
+        _checkSuperAdmin();
         _;
     }
 
     modifier onlyAdminOrSuper() {
-        require(
-            hasRole(ADMIN_ROLE, msg.sender) || msg.sender == SUPER_ADMIN,
-            "Not admin or super admin"
-        );
+        _checkAdminOrSuper();
         _;
     }
 
-    constructor() {
+    // Direct calls to sensitive actions are only allowed while a single
+    // approval is enough
+    modifier whenApprovalNotRequired() {
+        _checkApprovalNotRequired();
+        _;
+    }
+
+    // The account initializing the proxy becomes the super admin
+    function __RoleManager_init() internal onlyInitializing {
+        __AccessControl_init();
+        approvalThreshold = 1;
+
         SUPER_ADMIN = msg.sender;
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(SUPER_ADMIN_ROLE, msg.sender);
@@ -42,7 +94,27 @@ abstract contract RoleManager is AccessControl {
     }
 
     // Super admin functions
-    function addAdmin(address adminAddress) external onlySuperAdmin {
+    function addAdmin(
+        address adminAddress
+    ) external onlySuperAdmin whenApprovalNotRequired {
+        _addAdmin(adminAddress);
+    }
+
+    function removeAdmin(
+        address adminAddress
+    ) external onlySuperAdmin whenApprovalNotRequired {
+        _removeAdmin(adminAddress);
+    }
+
+    // Enables the approval flow; afterwards the threshold can only be
+    // changed through a SET_THRESHOLD proposal
+    function setApprovalThreshold(
+        uint256 threshold
+    ) external onlySuperAdmin whenApprovalNotRequired {
+        _setApprovalThreshold(threshold);
+    }
+
+    function _addAdmin(address adminAddress) private {
         require(!hasRole(ADMIN_ROLE, adminAddress), "Already an admin");
         _grantRole(ADMIN_ROLE, adminAddress);
         
@@ -54,24 +126,30 @@ abstract contract RoleManager is AccessControl {
         emit AdminAdded(adminAddress, msg.sender);
     }
 
-    function removeAdmin(address adminAddress) external onlySuperAdmin {
+    function _removeAdmin(address adminAddress) private {
         require(adminAddress != SUPER_ADMIN, "Cannot remove super admin");
         require(hasRole(ADMIN_ROLE, adminAddress), "Not an admin");
         _revokeRole(ADMIN_ROLE, adminAddress);
         
-        if (_adminExists[adminAddress]) {
-            for (uint i = 0; i < _adminList.length; i++) {
-                if (_adminList[i] == adminAddress) {
-                    _adminList[i] = _adminList[_adminList.length - 1];
-                    _adminList.pop();
-                    _adminExists[adminAddress] = false;
-                    break;
-                }
-            }
-        }
+        _transferData.removeAdmin(_adminList, _adminExists, adminAddress);
         emit AdminRemoved(adminAddress, msg.sender);
     }
 
+    // Roles only change through the functions of this contract, which keep
+    // the admin and university lists in sync with the role holders and
+    // require proposals once the approval flow is enabled
+    function grantRole(bytes32, address) public pure override {
+        revert("Use the role manager functions");
+    }
+
+    function revokeRole(bytes32, address) public pure override {
+        revert("Use the role manager functions");
+    }
+
+    function renounceRole(bytes32, address) public pure override {
+        revert("Use the role manager functions");
+    }
+
     // University management
     function addUniversity(
         address universityAddress,
@@ -90,20 +168,15 @@ abstract contract RoleManager is AccessControl {
 
     function removeUniversity(
         address universityAddress
-    ) external onlyAdminOrSuper {
+    ) external onlyAdminOrSuper whenApprovalNotRequired {
+        _removeUniversity(universityAddress);
+    }
+
+    function _removeUniversity(address universityAddress) private {
         _revokeRole(UNIVERSITY_ROLE, universityAddress);
         delete _universityNames[universityAddress];
 
-        // Remove from university list
-        for (uint i = 0; i < _universityList.length; i++) {
-            if (_universityList[i] == universityAddress) {
-                _universityList[i] = _universityList[
-                    _universityList.length - 1
-                ];
-                _universityList.pop();
-                break;
-            }
-        }
+        GovernanceStorage.removeAddress(_universityList, universityAddress);
     }
 
     function setUniversityName(
@@ -111,9 +184,7 @@ abstract contract RoleManager is AccessControl {
         string calldata name
     ) external {
         require(
-            hasRole(ADMIN_ROLE, msg.sender) ||
-                msg.sender == SUPER_ADMIN ||
-                msg.sender == universityAddress,
+            _isAdminOrSuper() || msg.sender == universityAddress,
             "Not authorized to set name"
         );
         require(
@@ -135,10 +206,276 @@ abstract contract RoleManager is AccessControl {
         return _universityList;
     }
 
+    function getUniversitiesPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256) {
+        return GovernanceStorage.getAddressPage(_universityList, offset, limit);
+    }
+
     address[] private _adminList;
     mapping(address => bool) private _adminExists;
 
     function getAllAdmins() external view returns (address[] memory) {
         return _adminList;
     }
+
+    function getAdminsPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256) {
+        return GovernanceStorage.getAddressPage(_adminList, offset, limit);
+    }
+
+    // Multi-admin approval
+
+    // Creates a proposal with the proposer's approval; it executes as soon
+    // as approvalThreshold admins have approved it
+    function proposeAction(
+        GovernanceStorage.ProposalAction action,
+        address target,
+        uint256 value
+    ) external onlyAdminOrSuper returns (uint256) {
+        require(approvalThreshold > 1, "Approval flow not enabled");
+
+        uint256 proposalId = _proposalData.createProposal(
+            action,
+            target,
+            value,
+            msg.sender,
+            PROPOSAL_DURATION
+        );
+
+        emit ProposalCreated(proposalId, action, target, value, msg.sender);
+        _approveProposal(proposalId);
+        return proposalId;
+    }
+
+    function approveProposal(uint256 proposalId) external onlyAdminOrSuper {
+        _approveProposal(proposalId);
+    }
+
+    function rejectProposal(uint256 proposalId) external onlyAdminOrSuper {
+        _proposalData.rejectProposal(
+            proposalId,
+            msg.sender,
+            _adminList.length,
+            approvalThreshold
+        );
+        emit ProposalRejected(proposalId, msg.sender);
+    }
+
+    function getProposal(
+        uint256 proposalId
+    ) external view returns (GovernanceStorage.Proposal memory) {
+        return _proposalData.getProposal(proposalId);
+    }
+
+    // Returns the ids of proposals that are pending and not yet expired
+    function getPendingProposals() external view returns (uint256[] memory) {
+        return _proposalData.getPendingProposals();
+    }
+
+    function hasVotedOnProposal(
+        uint256 proposalId,
+        address admin
+    ) external view returns (bool) {
+        return _proposalData.hasVoted[proposalId][admin];
+    }
+
+    function _approveProposal(uint256 proposalId) private {
+        uint256 approvals = _proposalData.castVote(
+            proposalId,
+            msg.sender,
+            true
+        );
+        emit ProposalApproved(proposalId, msg.sender);
+
+        if (approvals >= approvalThreshold) {
+            GovernanceStorage.Proposal storage proposal = _proposalData
+                .proposals[proposalId];
+            proposal.status = GovernanceStorage.ProposalStatus.EXECUTED;
+            _executeProposal(proposal);
+            emit ProposalExecuted(proposalId);
+        }
+    }
+
+    function _executeProposal(
+        GovernanceStorage.Proposal storage proposal
+    ) private {
+        GovernanceStorage.ProposalAction action = proposal.action;
+        if (action == GovernanceStorage.ProposalAction.ADD_ADMIN) {
+            _addAdmin(proposal.target);
+        } else if (action == GovernanceStorage.ProposalAction.REMOVE_ADMIN) {
+            _removeAdmin(proposal.target);
+            require(
+                _adminList.length >= approvalThreshold,
+                "Threshold exceeds admin count"
+            );
+        } else if (
+            action == GovernanceStorage.ProposalAction.REMOVE_UNIVERSITY
+        ) {
+            _removeUniversity(proposal.target);
+        } else if (action == GovernanceStorage.ProposalAction.PAUSE) {
+            _setPaused(true);
+        } else if (action == GovernanceStorage.ProposalAction.UNPAUSE) {
+            _setPaused(false);
+        } else {
+            _setApprovalThreshold(proposal.value);
+        }
+    }
+
+    function _setApprovalThreshold(uint256 threshold) private {
+        require(
+            threshold > 0 && threshold <= _adminList.length,
+            "Invalid threshold"
+        );
+        approvalThreshold = threshold;
+        emit ApprovalThresholdUpdated(threshold);
+    }
+
+    // Super admin transfer
+
+    // From the super admin, starts a handover the nominee can accept after
+    // SUPER_ADMIN_TRANSFER_DELAY. From another admin, starts a recovery of an
+    // unreachable super admin, which the nominee can accept after
+    // SUPER_ADMIN_RECOVERY_DELAY once a quorum of admins has approved it,
+    // and which lapses if it is not accepted within the recovery expiry.
+    // The super admin can cancel either until it is accepted, so a recovery
+    // only goes through while it is unreachable. The other admins cancel a
+    // recovery once a quorum of them voted to
+    function proposeSuperAdminTransfer(address newSuperAdmin) external {
+        bool isRecovery = msg.sender != SUPER_ADMIN;
+        if (isRecovery) {
+            _requireRecoveryAdmin();
+        }
+        require(newSuperAdmin != SUPER_ADMIN, "Already super admin");
+
+        uint256 executableAt = _transferData.startTransfer(
+            newSuperAdmin,
+            msg.sender,
+            isRecovery
+                ? SUPER_ADMIN_RECOVERY_DELAY
+                : SUPER_ADMIN_TRANSFER_DELAY,
+            isRecovery
+        );
+        emit SuperAdminTransferProposed(
+            newSuperAdmin,
+            executableAt,
+            isRecovery,
+            msg.sender
+        );
+    }
+
+    function approveSuperAdminRecovery() external {
+        _requireRecoveryAdmin();
+        uint256 approvals = _transferData.approveRecovery(msg.sender);
+        emit SuperAdminRecoveryApproved(msg.sender, approvals);
+    }
+
+    function cancelSuperAdminTransfer() external {
+        if (msg.sender != SUPER_ADMIN) {
+            _requireRecoveryAdmin();
+            uint256 votes = _transferData.voteToCancelRecovery(
+                _recoveryCancellation,
+                msg.sender
+            );
+            emit SuperAdminRecoveryCancelVote(msg.sender, votes);
+            if (votes < getSuperAdminRecoveryQuorum()) return;
+        }
+        address newSuperAdmin = _transferData.clearTransfer();
+        emit SuperAdminTransferCancelled(newSuperAdmin, msg.sender);
+    }
+
+    function acceptSuperAdminTransfer() external {
+        _transferData.acceptTransfer(msg.sender, getSuperAdminRecoveryQuorum());
+        address previousSuperAdmin = SUPER_ADMIN;
+        SUPER_ADMIN = msg.sender;
+
+        // The previous super admin hands over every role it held
+        bytes32[3] memory roles = [
+            DEFAULT_ADMIN_ROLE,
+            SUPER_ADMIN_ROLE,
+            ADMIN_ROLE
+        ];
+        for (uint256 i = 0; i < roles.length; i++) {
+            _revokeRole(roles[i], previousSuperAdmin);
+            _grantRole(roles[i], msg.sender);
+        }
+        GovernanceStorage.replaceAdmin(
+            _adminList,
+            _adminExists,
+            previousSuperAdmin,
+            msg.sender
+        );
+
+        // Keep the approval flow usable if the admin list shrank
+        if (approvalThreshold > _adminList.length) {
+            _setApprovalThreshold(_adminList.length);
+        }
+
+        emit SuperAdminTransferred(previousSuperAdmin, msg.sender);
+    }
+
+    function getPendingSuperAdminTransfer()
+        external
+        view
+        returns (GovernanceStorage.SuperAdminTransfer memory)
+    {
+        return _transferData.pending;
+    }
+
+    function hasApprovedSuperAdminRecovery(
+        address admin
+    ) external view returns (bool) {
+        return _transferData.hasApprovedRecovery(admin);
+    }
+
+    function hasVotedToCancelSuperAdminRecovery(
+        address admin
+    ) external view returns (bool) {
+        return
+            _transferData.hasVotedToCancelRecovery(
+                _recoveryCancellation,
+                admin
+            );
+    }
+
+    // A majority of the admins other than the super admin
+    function getSuperAdminRecoveryQuorum() public view returns (uint256) {
+        return (_adminList.length - 1) / 2 + 1;
+    }
+
+    function _requireRecoveryAdmin() private view {
+        require(
+            hasRole(ADMIN_ROLE, msg.sender) && msg.sender != SUPER_ADMIN,
+            "Not a recovery admin"
+        );
+    }
+
+    // Modifier checks live in functions so their code is not repeated in
+    // every function using them
+    function _checkSuperAdmin() private view {
+        require(msg.sender == SUPER_ADMIN, "Not super admin");
+    }
+
+    function _checkAdminOrSuper() private view {
+        require(_isAdminOrSuper(), "Not admin or super admin");
+    }
+
+    function _isAdminOrSuper() internal view returns (bool) {
+        return hasRole(ADMIN_ROLE, msg.sender) || msg.sender == SUPER_ADMIN;
+    }
+
+    function _checkApprovalNotRequired() private view {
+        require(approvalThreshold == 1, "Requires multi-admin approval");
+    }
+
+    function _setPaused(bool paused) internal virtual;
+
+    GovernanceStorage.RecoveryCancellation private _recoveryCancellation;
+
+    // Reserved storage so new state can be added here without shifting the
+    // layout of AcademicRecords; shrink it by the slots any new state uses
+    uint256[48] private __gap;
 }
@@ -63,6 +63,52 @@ interface IAcademicRecords {
         uint256 timestamp;
         bool isVerified;
         address issuer;
+        uint256 previousRecordId;
+        uint256 supersededBy;
+        uint256 customTypeId;
+        address issuedBy; // University wallet or staff account that issued it
+        uint256 visibleFrom; // Hidden from everyone but the issuer until then
+        uint256 validFrom; // Not valid before, 0 when valid on issue
+        uint256 validUntil; // Last second the record is valid, 0 when it never expires
+    }
+
+    // Result of verifyRecord. REVOKED comes first so it keeps the value of
+    // the false verifyRecord used to return
+    enum VerificationStatus {
+        REVOKED,
+        VALID,
+        NOT_YET_VALID,
+        EXPIRED,
+        AWAITING_COSIGNATURES
+    }
+
+    enum RevocationReason {
+        ISSUED_IN_ERROR,
+        INCORRECT_DETAILS,
+        ACADEMIC_MISCONDUCT,
+        FRAUDULENT_DOCUMENT,
+        ADMINISTRATIVE_CORRECTION,
+        OTHER
+    }
+
+    struct Revocation {
+        RevocationReason reasonCode;
+        string note;
+        uint256 timestamp;
+        address revokedBy;
+    }
+
+    // Left behind when a record is deleted, so a deleted record can be told
+    // apart from one that never existed
+    struct RecordTombstone {
+        address issuer;
+        uint256 deletedAt;
+    }
+
+    struct ShareGrant {
+        address grantee;
+        uint256 grantedAt;
+        uint256 expiresAt;
     }
 
     struct CustomRecordType {
@@ -74,6 +120,24 @@ interface IAcademicRecords {
         bool isActive;
     }
 
+    // Root of an off-chain batch of records, proven with Merkle proofs
+    struct AnchoredBatch {
+        uint256 id;
+        bytes32 merkleRoot;
+        address issuer;
+        uint256 recordCount;
+        uint256 timestamp;
+    }
+
+    // Leaf of an anchored batch, never stored on chain
+    struct AnchoredRecord {
+        string studentId;
+        string studentName;
+        address studentAddress;
+        string ipfsHash;
+        RecordType recordType;
+    }
+
     // Events
     event RecordAdded(
         uint256 indexed recordId,
@@ -81,13 +145,35 @@ interface IAcademicRecords {
         RecordType recordType,
         address issuer
     );
+    event RecordBatchEntryFailed(
+        uint256 index,
+        string studentId,
+        string reason
+    );
     event RecordVerified(uint256 indexed recordId, address verifier);
+    event RecordRevoked(
+        uint256 indexed recordId,
+        RevocationReason reasonCode,
+        string note,
+        address indexed revokedBy
+    );
+    event RecordSuperseded(
+        uint256 indexed previousRecordId,
+        uint256 indexed newRecordId,
+        address indexed issuer
+    );
     event RecordAccessed(uint256 indexed recordId, address accessor);
     event StudentDeleted(string indexed studentId, address indexed university);
+    event RecordDeleted(
+        uint256 indexed recordId,
+        string reason,
+        address indexed deletedBy
+    );
     event RecordShared(
         uint256 indexed recordId,
         string indexed studentId,
-        address indexed sharedWith
+        address indexed sharedWith,
+        uint256 expiresAt
     );
     event RecordUnshared(
         uint256 indexed recordId,
@@ -100,4 +186,10 @@ interface IAcademicRecords {
         address indexed creator
     );
     event CustomRecordTypeUpdated(uint256 indexed typeId, bool isActive);
+    event BatchAnchored(
+        uint256 indexed batchId,
+        bytes32 merkleRoot,
+        address indexed issuer,
+        uint256 recordCount
+    );
 }
@@ -0,0 +1,361 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+library GovernanceStorage {
+    // A recovery that was not accepted this long after its timelock lapses,
+    // so an admin cannot block super admin transfers with one that never
+    // reaches quorum
+    uint256 internal constant RECOVERY_EXPIRY = 30 days;
+
+    // Sensitive actions that need approval from multiple admins once the
+    // approval threshold is above one
+    enum ProposalAction {
+        ADD_ADMIN,
+        REMOVE_ADMIN,
+        REMOVE_UNIVERSITY,
+        PAUSE,
+        UNPAUSE,
+        SET_THRESHOLD
+    }
+
+    enum ProposalStatus {
+        PENDING,
+        EXECUTED,
+        REJECTED
+    }
+
+    struct Proposal {
+        uint256 id;
+        ProposalAction action;
+        address target; // Admin or university the action applies to
+        uint256 value; // New threshold for SET_THRESHOLD
+        address proposer;
+        uint256 approvals;
+        uint256 rejections;
+        uint256 createdAt;
+        uint256 expiresAt;
+        ProposalStatus status;
+    }
+
+    struct ProposalData {
+        mapping(uint256 => Proposal) proposals;
+        mapping(uint256 => mapping(address => bool)) hasVoted;
+        uint256 proposalCount;
+    }
+
+    // Pending super admin handover. A recovery is started by the admins
+    // instead of the super admin and also needs a quorum of approvals
+    struct SuperAdminTransfer {
+        address newSuperAdmin;
+        uint256 executableAt;
+        bool isRecovery;
+        uint256 approvals;
+    }
+
+    struct TransferData {
+        SuperAdminTransfer pending;
+        // Recovery approvals per request, so old votes never carry over
+        mapping(uint256 => mapping(address => bool)) hasApproved;
+        uint256 requestCount;
+    }
+
+    // Votes of the other admins to cancel a recovery, per request
+    struct RecoveryCancellation {
+        mapping(uint256 => mapping(address => bool)) hasVoted;
+        mapping(uint256 => uint256) votes;
+    }
+
+    function createProposal(
+        ProposalData storage self,
+        ProposalAction action,
+        address target,
+        uint256 value,
+        address proposer,
+        uint256 duration
+    ) external returns (uint256) {
+        self.proposalCount++;
+        uint256 proposalId = self.proposalCount;
+
+        self.proposals[proposalId] = Proposal({
+            id: proposalId,
+            action: action,
+            target: target,
+            value: value,
+            proposer: proposer,
+            approvals: 0,
+            rejections: 0,
+            createdAt: block.timestamp,
+            expiresAt: block.timestamp + duration,
+            status: ProposalStatus.PENDING
+        });
+
+        return proposalId;
+    }
+
+    // Records a vote on an open proposal and returns the updated number of
+    // approvals or rejections
+    function castVote(
+        ProposalData storage self,
+        uint256 proposalId,
+        address voter,
+        bool approve
+    ) public returns (uint256) {
+        Proposal storage proposal = self.proposals[proposalId];
+        require(
+            proposal.id == proposalId && proposalId != 0,
+            "Proposal does not exist"
+        );
+        require(isOpen(proposal), "Proposal is not open");
+        require(!self.hasVoted[proposalId][voter], "Already voted");
+
+        self.hasVoted[proposalId][voter] = true;
+        return approve ? ++proposal.approvals : ++proposal.rejections;
+    }
+
+    // Records a rejection and marks the proposal rejected once the remaining
+    // admins can no longer reach the threshold
+    function rejectProposal(
+        ProposalData storage self,
+        uint256 proposalId,
+        address voter,
+        uint256 adminCount,
+        uint256 threshold
+    ) external {
+        uint256 rejections = castVote(self, proposalId, voter, false);
+        if (rejections > adminCount - threshold) {
+            self.proposals[proposalId].status = ProposalStatus.REJECTED;
+        }
+    }
+
+    function getProposal(
+        ProposalData storage self,
+        uint256 proposalId
+    ) external view returns (Proposal memory) {
+        require(
+            self.proposals[proposalId].id == proposalId && proposalId != 0,
+            "Proposal does not exist"
+        );
+        return self.proposals[proposalId];
+    }
+
+    function getPendingProposals(
+        ProposalData storage self
+    ) external view returns (uint256[] memory) {
+        uint256 count = 0;
+        for (uint256 i = 1; i <= self.proposalCount; i++) {
+            if (isOpen(self.proposals[i])) {
+                count++;
+            }
+        }
+
+        uint256[] memory result = new uint256[](count);
+        uint256 index = 0;
+
+        for (uint256 i = 1; i <= self.proposalCount; i++) {
+            if (isOpen(self.proposals[i])) {
+                result[index] = i;
+                index++;
+            }
+        }
+
+        return result;
+    }
+
+    function startTransfer(
+        TransferData storage self,
+        address newSuperAdmin,
+        address proposer,
+        uint256 delay,
+        bool isRecovery
+    ) external returns (uint256) {
+        require(newSuperAdmin != address(0), "Invalid address");
+        require(
+            self.pending.newSuperAdmin == address(0) ||
+                _hasLapsed(self.pending),
+            "Transfer already pending"
+        );
+
+        self.requestCount++;
+        self.pending = SuperAdminTransfer({
+            newSuperAdmin: newSuperAdmin,
+            executableAt: block.timestamp + delay,
+            isRecovery: isRecovery,
+            approvals: 0
+        });
+
+        if (isRecovery) {
+            approveRecovery(self, proposer);
+        }
+        return self.pending.executableAt;
+    }
+
+    // Records an admin's approval of the pending recovery and returns the
+    // updated number of approvals
+    function approveRecovery(
+        TransferData storage self,
+        address admin
+    ) public returns (uint256) {
+        require(self.pending.isRecovery, "No recovery pending");
+        require(
+            !self.hasApproved[self.requestCount][admin],
+            "Already approved"
+        );
+
+        self.hasApproved[self.requestCount][admin] = true;
+        return ++self.pending.approvals;
+    }
+
+    // Drops a removed admin from the admin list and takes back its approval
+    // of a pending recovery, so only current admins count towards the quorum
+    function removeAdmin(
+        TransferData storage self,
+        address[] storage adminList,
+        mapping(address => bool) storage adminExists,
+        address admin
+    ) external {
+        if (adminExists[admin]) {
+            removeAddress(adminList, admin);
+            adminExists[admin] = false;
+        }
+
+        uint256 requestId = self.requestCount;
+        if (self.pending.isRecovery && self.hasApproved[requestId][admin]) {
+            self.hasApproved[requestId][admin] = false;
+            self.pending.approvals--;
+        }
+    }
+
+    // Records an admin's vote to cancel the pending recovery and returns the
+    // updated number of votes
+    function voteToCancelRecovery(
+        TransferData storage self,
+        RecoveryCancellation storage cancellation,
+        address admin
+    ) external returns (uint256) {
+        require(self.pending.isRecovery, "No recovery pending");
+        uint256 requestId = self.requestCount;
+        require(!cancellation.hasVoted[requestId][admin], "Already voted");
+
+        cancellation.hasVoted[requestId][admin] = true;
+        return ++cancellation.votes[requestId];
+    }
+
+    // Clears the pending transfer and returns the nominee it was for
+    function clearTransfer(
+        TransferData storage self
+    ) external returns (address) {
+        address newSuperAdmin = self.pending.newSuperAdmin;
+        require(newSuperAdmin != address(0), "No transfer pending");
+        delete self.pending;
+        return newSuperAdmin;
+    }
+
+    // Checks that the pending transfer can be accepted by the nominee and
+    // clears it
+    function acceptTransfer(
+        TransferData storage self,
+        address newSuperAdmin,
+        uint256 recoveryQuorum
+    ) external {
+        SuperAdminTransfer memory transfer = self.pending;
+        require(
+            transfer.newSuperAdmin != address(0) &&
+                newSuperAdmin == transfer.newSuperAdmin,
+            "Not the pending super admin"
+        );
+        require(
+            block.timestamp >= transfer.executableAt,
+            "Transfer is still timelocked"
+        );
+        require(
+            !transfer.isRecovery || transfer.approvals >= recoveryQuorum,
+            "Recovery quorum not reached"
+        );
+        require(!_hasLapsed(transfer), "Recovery expired");
+        delete self.pending;
+    }
+
+    function _hasLapsed(
+        SuperAdminTransfer memory transfer
+    ) private view returns (bool) {
+        return
+            transfer.isRecovery &&
+            block.timestamp >= transfer.executableAt + RECOVERY_EXPIRY;
+    }
+
+    function hasApprovedRecovery(
+        TransferData storage self,
+        address admin
+    ) external view returns (bool) {
+        return
+            self.pending.isRecovery &&
+            self.hasApproved[self.requestCount][admin];
+    }
+
+    function hasVotedToCancelRecovery(
+        TransferData storage self,
+        RecoveryCancellation storage cancellation,
+        address admin
+    ) external view returns (bool) {
+        return
+            self.pending.isRecovery &&
+            cancellation.hasVoted[self.requestCount][admin];
+    }
+
+    // Replaces the previous super admin in the admin list, or drops it when
+    // the new super admin already was an admin
+    function replaceAdmin(
+        address[] storage adminList,
+        mapping(address => bool) storage adminExists,
+        address previousSuperAdmin,
+        address newSuperAdmin
+    ) external {
+        for (uint256 i = 0; i < adminList.length; i++) {
+            if (adminList[i] == previousSuperAdmin) {
+                if (adminExists[newSuperAdmin]) {
+                    adminList[i] = adminList[adminList.length - 1];
+                    adminList.pop();
+                } else {
+                    adminList[i] = newSuperAdmin;
+                }
+                break;
+            }
+        }
+        adminExists[previousSuperAdmin] = false;
+        adminExists[newSuperAdmin] = true;
+    }
+
+    // Swaps the address with the last entry and pops it, keeping the list
+    // unordered
+    function removeAddress(address[] storage list, address account) public {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == account) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                break;
+            }
+        }
+    }
+
+    // Returns up to limit addresses starting at offset, and the length of the
+    // whole list
+    function getAddressPage(
+        address[] storage list,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory page, uint256 total) {
+        total = list.length;
+        uint256 count = offset < total ? total - offset : 0;
+        page = new address[](count < limit ? count : limit);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = list[offset + i];
+        }
+    }
+
+    // Pending proposals stop accepting votes once they expire
+    function isOpen(Proposal storage proposal) internal view returns (bool) {
+        return
+            proposal.status == ProposalStatus.PENDING &&
+            block.timestamp <= proposal.expiresAt;
+    }
+}
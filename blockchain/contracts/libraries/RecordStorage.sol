@@ -1,16 +1,38 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import "../interfaces/IAcademicRecords.sol";
+import "../modules/StudentManagement.sol";
+import "../modules/RecordDrafts.sol";
+import "../modules/RecordCosigning.sol";
 
 library RecordStorage {
+    // Expiry stored for grants shared without a time limit
+    uint256 internal constant NO_EXPIRY = type(uint256).max;
+    uint256 internal constant MAX_BATCH_SIZE = 25;
+
     struct RecordData {
         mapping(uint256 => IAcademicRecords.Record) records;
         mapping(string => uint256[]) studentRecords;
         mapping(address => uint256[]) universityRecords;
-        mapping(uint256 => mapping(address => bool)) recordSharedWith;
+        mapping(uint256 => mapping(address => uint256)) recordShareExpiry;
         mapping(string => mapping(address => uint256[])) studentSharedRecords;
         uint256 recordCounter;
+        mapping(uint256 => IAcademicRecords.Revocation) revocations;
+        mapping(uint256 => address[]) recordGrantees;
+        mapping(uint256 => mapping(address => uint256)) recordShareGrantedAt;
+    }
+
+    // Record ids by the student address stored on each record. Kept out of
+    // RecordData so new storage is only appended to the proxy layout
+    struct AddressIndex {
+        mapping(address => uint256[]) addressRecords;
+    }
+
+    // Tombstones of deleted records by record id
+    struct TombstoneData {
+        mapping(uint256 => IAcademicRecords.RecordTombstone) tombstones;
     }
 
     struct CustomTypeData {
@@ -19,17 +41,49 @@ library RecordStorage {
         uint256 customTypeCounter;
     }
 
+    struct AnchorData {
+        mapping(uint256 => IAcademicRecords.AnchoredBatch) batches;
+        mapping(address => uint256[]) universityBatches;
+        uint256 batchCounter;
+    }
+
+    // Issues a record, registering the student address with
+    // StudentManagement on first use
     function addRecord(
         RecordData storage self,
-        string calldata studentId,
-        string calldata studentName,
+        AddressIndex storage index,
+        StudentManagement studentManagement,
+        string memory studentId,
+        string memory studentName,
         address studentAddress,
-        string calldata universityName,
-        string calldata ipfsHash,
-        string calldata metadataHash,
+        string memory universityName,
+        string memory ipfsHash,
+        string memory metadataHash,
         IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil,
         address issuer
-    ) external returns (uint256) {
+    ) public returns (uint256) {
+        require(studentAddress != address(0), "Invalid student address");
+        require(
+            validUntil == 0 || validUntil >= validFrom,
+            "Invalid validity window"
+        );
+        string memory existingStudentId = studentManagement.addressToStudentId(
+            studentAddress
+        );
+        if (bytes(existingStudentId).length == 0) {
+            studentManagement.registerStudent(studentId, studentAddress);
+        } else {
+            require(
+                keccak256(bytes(existingStudentId)) ==
+                    keccak256(bytes(studentId)),
+                "Address belongs to another student"
+            );
+        }
+
         self.recordCounter++;
         uint256 recordId = self.recordCounter;
 
@@ -44,21 +98,278 @@ library RecordStorage {
             recordType: recordType,
             timestamp: block.timestamp,
             isVerified: true,
-            issuer: issuer
+            issuer: issuer,
+            previousRecordId: 0,
+            supersededBy: 0,
+            customTypeId: customTypeId,
+            issuedBy: msg.sender,
+            visibleFrom: visibleFrom,
+            validFrom: validFrom,
+            validUntil: validUntil
         });
 
         self.records[recordId] = newRecord;
         self.studentRecords[studentId].push(recordId);
         self.universityRecords[issuer].push(recordId);
+        index.addressRecords[studentAddress].push(recordId);
+
+        emit IAcademicRecords.RecordAdded(
+            recordId,
+            studentId,
+            recordType,
+            issuer
+        );
+        return recordId;
+    }
+
+    // Issues a pending draft of the university as a record. RecordDrafts
+    // checks the caller is not the author of the draft
+    function publishDraft(
+        RecordData storage self,
+        AddressIndex storage index,
+        CustomTypeData storage customTypes,
+        StudentManagement studentManagement,
+        RecordDrafts recordDrafts,
+        RecordCosigning recordCosigning,
+        uint256 draftId,
+        address university
+    ) public returns (uint256 recordId) {
+        RecordDrafts.RecordDraft memory draft = recordDrafts.publishDraft(
+            draftId,
+            university,
+            msg.sender,
+            self.recordCounter + 1
+        );
+        checkCustomType(
+            customTypes,
+            draft.recordType,
+            draft.customTypeId,
+            university
+        );
+
+        recordId = addRecord(
+            self,
+            index,
+            studentManagement,
+            draft.studentId,
+            draft.studentName,
+            draft.studentAddress,
+            draft.universityName,
+            draft.ipfsHash,
+            draft.metadataHash,
+            draft.recordType,
+            draft.customTypeId,
+            draft.visibleFrom,
+            draft.validFrom,
+            draft.validUntil,
+            university
+        );
+        if (draft.cosigners.length > 0) {
+            recordCosigning.requestCosigners(
+                recordId,
+                university,
+                draft.cosigners
+            );
+        }
+    }
+
+    // Issues one record per entry. Invalid entries are skipped with a
+    // RecordBatchEntryFailed event and a record id of 0
+    function addRecordsBatch(
+        RecordData storage self,
+        AddressIndex storage index,
+        StudentManagement studentManagement,
+        string[] calldata studentIds,
+        string[] calldata studentNames,
+        address[] calldata studentAddresses,
+        string calldata universityName,
+        string[] calldata ipfsHashes,
+        string[] calldata metadataHashes,
+        IAcademicRecords.RecordType[] calldata recordTypes,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil,
+        address issuer
+    ) external returns (uint256[] memory recordIds) {
+        uint256 count = studentIds.length;
+        require(count > 0 && count <= MAX_BATCH_SIZE, "Invalid batch size");
+        require(
+            studentNames.length == count &&
+                studentAddresses.length == count &&
+                ipfsHashes.length == count &&
+                metadataHashes.length == count &&
+                recordTypes.length == count,
+            "Array length mismatch"
+        );
+
+        recordIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            string memory reason = _batchEntryError(
+                studentManagement,
+                studentIds[i],
+                studentAddresses[i],
+                ipfsHashes[i]
+            );
+            if (bytes(reason).length > 0) {
+                emit IAcademicRecords.RecordBatchEntryFailed(
+                    i,
+                    studentIds[i],
+                    reason
+                );
+                continue;
+            }
+
+            recordIds[i] = addRecord(
+                self,
+                index,
+                studentManagement,
+                studentIds[i],
+                studentNames[i],
+                studentAddresses[i],
+                universityName,
+                ipfsHashes[i],
+                metadataHashes[i],
+                recordTypes[i],
+                0,
+                visibleFrom,
+                validFrom,
+                validUntil,
+                issuer
+            );
+        }
+    }
+
+    // Returns why a batch entry cannot be issued, or an empty string
+    function _batchEntryError(
+        StudentManagement studentManagement,
+        string calldata studentId,
+        address studentAddress,
+        string calldata ipfsHash
+    ) private view returns (string memory) {
+        if (bytes(studentId).length == 0) return "Invalid student ID";
+        if (studentAddress == address(0)) return "Invalid student address";
+        if (bytes(ipfsHash).length == 0) return "Invalid IPFS hash";
+
+        string memory existingStudentId = studentManagement.addressToStudentId(
+            studentAddress
+        );
+        if (
+            bytes(existingStudentId).length > 0 &&
+            keccak256(bytes(existingStudentId)) != keccak256(bytes(studentId))
+        ) {
+            return "Address belongs to another student";
+        }
+
+        address registeredAddress = studentManagement.getStudentAddress(
+            studentId
+        );
+        if (
+            registeredAddress != address(0) &&
+            registeredAddress != studentAddress
+        ) {
+            return "Address change requires approval";
+        }
+        return "";
+    }
+
+    // Student address changes need a university that issued a record to the
+    // student, current or superseded. Admins approve while there are none
+    function checkAddressChangeApprover(
+        RecordData storage self,
+        string calldata studentId,
+        address approver,
+        bool isUniversity,
+        bool isAdmin
+    ) external view {
+        uint256[] storage recordIds = self.studentRecords[studentId];
+        if (recordIds.length == 0 && isAdmin) return;
+
+        for (uint256 i = 0; isUniversity && i < recordIds.length; i++) {
+            if (self.records[recordIds[i]].issuer == approver) return;
+        }
+        revert("Not the issuing university");
+    }
+
+    // Corrected versions of joint records need their co-signers' signatures
+    // again
+    function supersedeRecord(
+        RecordData storage self,
+        AddressIndex storage index,
+        RecordCosigning recordCosigning,
+        uint256 previousRecordId,
+        string calldata studentName,
+        string calldata ipfsHash,
+        string calldata metadataHash,
+        IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        address issuer
+    ) external returns (uint256) {
+        IAcademicRecords.Record storage previous = self.records[
+            previousRecordId
+        ];
+        require(previous.id == previousRecordId, "Record does not exist");
+        require(previous.issuer == issuer, "Not the issuer");
+        require(previous.isVerified, "Record is revoked");
+        require(previous.supersededBy == 0, "Record already superseded");
+
+        self.recordCounter++;
+        uint256 recordId = self.recordCounter;
+
+        self.records[recordId] = IAcademicRecords.Record({
+            id: recordId,
+            studentId: previous.studentId,
+            studentName: studentName,
+            studentAddress: previous.studentAddress,
+            universityName: previous.universityName,
+            ipfsHash: ipfsHash,
+            metadataHash: metadataHash,
+            recordType: recordType,
+            timestamp: block.timestamp,
+            isVerified: true,
+            issuer: previous.issuer,
+            previousRecordId: previousRecordId,
+            supersededBy: 0,
+            customTypeId: customTypeId,
+            issuedBy: msg.sender,
+            visibleFrom: previous.visibleFrom,
+            validFrom: previous.validFrom,
+            validUntil: previous.validUntil
+        });
+
+        // The previous version stays readable, only marked as superseded
+        previous.supersededBy = recordId;
+        if (address(recordCosigning) != address(0)) {
+            recordCosigning.carryOverCosigners(previousRecordId, recordId);
+        }
+        self.studentRecords[previous.studentId].push(recordId);
+        self.universityRecords[previous.issuer].push(recordId);
+        index.addressRecords[previous.studentAddress].push(recordId);
 
+        emit IAcademicRecords.RecordAdded(
+            recordId,
+            previous.studentId,
+            recordType,
+            issuer
+        );
+        emit IAcademicRecords.RecordSuperseded(
+            previousRecordId,
+            recordId,
+            issuer
+        );
         return recordId;
     }
 
+    // Deletes every record the university issued to the student, leaving a
+    // tombstone and a RecordDeleted event for each
     function deleteStudentRecords(
         RecordData storage self,
+        AddressIndex storage index,
+        TombstoneData storage tombstoneData,
         string calldata studentId,
+        string calldata reason,
         address university
-    ) external returns (uint256[] memory deletedRecords) {
+    ) external {
+        require(bytes(studentId).length > 0, "Invalid student ID");
         uint256[] storage records = self.studentRecords[studentId];
         uint256[] memory toDelete = new uint256[](records.length);
         uint256 deleteCount = 0;
@@ -71,24 +382,136 @@ library RecordStorage {
             }
         }
 
-        deletedRecords = new uint256[](deleteCount);
-
-        // Delete records and update mappings
         for (uint256 i = 0; i < deleteCount; i++) {
-            uint256 recordId = toDelete[i];
-            deletedRecords[i] = recordId;
+            _deleteRecord(
+                self,
+                index,
+                tombstoneData,
+                toDelete[i],
+                reason,
+                university
+            );
+        }
+        emit IAcademicRecords.StudentDeleted(studentId, university);
+    }
 
-            // Remove from student records
-            _removeFromArray(self.studentRecords[studentId], recordId);
+    // Deletes a single record on behalf of its issuer
+    function withdrawRecord(
+        RecordData storage self,
+        AddressIndex storage index,
+        TombstoneData storage tombstoneData,
+        uint256 recordId,
+        string calldata reason,
+        address issuer
+    ) external {
+        require(self.records[recordId].id == recordId, "Record does not exist");
+        require(self.records[recordId].issuer == issuer, "Not the issuer");
 
-            // Remove from university records
-            _removeFromArray(self.universityRecords[university], recordId);
+        _deleteRecord(self, index, tombstoneData, recordId, reason, issuer);
+    }
 
-            // Delete the record
-            delete self.records[recordId];
+    // Removes a record from every index, including the share grants made
+    // for it, and replaces it with a tombstone
+    function _deleteRecord(
+        RecordData storage self,
+        AddressIndex storage index,
+        TombstoneData storage tombstoneData,
+        uint256 recordId,
+        string calldata reason,
+        address deletedBy
+    ) private {
+        IAcademicRecords.Record storage record = self.records[recordId];
+
+        _removeFromArray(self.studentRecords[record.studentId], recordId);
+        _removeFromArray(self.universityRecords[record.issuer], recordId);
+        _removeFromArray(index.addressRecords[record.studentAddress], recordId);
+
+        address[] storage grantees = self.recordGrantees[recordId];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            _removeFromArray(
+                self.studentSharedRecords[record.studentId][grantees[i]],
+                recordId
+            );
+            delete self.recordShareExpiry[recordId][grantees[i]];
+            delete self.recordShareGrantedAt[recordId][grantees[i]];
         }
+        delete self.recordGrantees[recordId];
 
-        return deletedRecords;
+        // Take the record out of its version chain, so withdrawing a
+        // correction makes the version it replaced current again
+        if (record.previousRecordId != 0) {
+            self.records[record.previousRecordId].supersededBy = record
+                .supersededBy;
+        }
+        if (record.supersededBy != 0) {
+            self.records[record.supersededBy].previousRecordId = record
+                .previousRecordId;
+        }
+
+        tombstoneData.tombstones[recordId] = IAcademicRecords.RecordTombstone({
+            issuer: record.issuer,
+            deletedAt: block.timestamp
+        });
+        emit IAcademicRecords.RecordDeleted(recordId, reason, deletedBy);
+
+        delete self.records[recordId];
+        delete self.revocations[recordId];
+    }
+
+    function revokeRecord(
+        RecordData storage self,
+        uint256 recordId,
+        IAcademicRecords.RevocationReason reasonCode,
+        string calldata note,
+        address revokedBy,
+        bool isAdmin
+    ) external {
+        require(self.records[recordId].id == recordId, "Record does not exist");
+        require(
+            self.records[recordId].issuer == revokedBy || isAdmin,
+            "Not authorized to revoke"
+        );
+        require(self.records[recordId].isVerified, "Record already revoked");
+
+        self.records[recordId].isVerified = false;
+        self.revocations[recordId] = IAcademicRecords.Revocation({
+            reasonCode: reasonCode,
+            note: note,
+            timestamp: block.timestamp,
+            revokedBy: revokedBy
+        });
+        emit IAcademicRecords.RecordRevoked(
+            recordId,
+            reasonCode,
+            note,
+            revokedBy
+        );
+    }
+
+    function getTombstone(
+        TombstoneData storage self,
+        uint256 recordId
+    ) external view returns (IAcademicRecords.RecordTombstone memory) {
+        require(
+            self.tombstones[recordId].deletedAt != 0,
+            "Record was not deleted"
+        );
+        return self.tombstones[recordId];
+    }
+
+    // Emits RecordAccessed for the caller
+    function recordAccess(RecordData storage self, uint256 recordId) external {
+        require(self.records[recordId].id == recordId, "Record does not exist");
+        emit IAcademicRecords.RecordAccessed(recordId, msg.sender);
+    }
+
+    function getRevocation(
+        RecordData storage self,
+        uint256 recordId
+    ) external view returns (IAcademicRecords.Revocation memory) {
+        require(self.records[recordId].id == recordId, "Record does not exist");
+        require(!self.records[recordId].isVerified, "Record is not revoked");
+        return self.revocations[recordId];
     }
 
     function _removeFromArray(uint256[] storage array, uint256 value) private {
@@ -101,27 +524,130 @@ library RecordStorage {
         }
     }
 
+    // Only the student can share their records
     function shareRecord(
         RecordData storage self,
+        StudentManagement studentManagement,
         uint256 recordId,
         address sharedWith,
-        string calldata studentId
-    ) external {
-        self.recordSharedWith[recordId][sharedWith] = true;
-        self.studentSharedRecords[studentId][sharedWith].push(recordId);
+        uint256 duration
+    ) external returns (uint256 expiresAt) {
+        string memory studentId = studentManagement.addressToStudentId(
+            msg.sender
+        );
+        _requireStudentRecord(self, recordId, studentId);
+        expiresAt = duration == 0 ? NO_EXPIRY : block.timestamp + duration;
+
+        // Sharing again (including after expiry) renews the existing grant
+        if (self.recordShareExpiry[recordId][sharedWith] == 0) {
+            self.studentSharedRecords[studentId][sharedWith].push(recordId);
+            self.recordGrantees[recordId].push(sharedWith);
+        }
+        self.recordShareExpiry[recordId][sharedWith] = expiresAt;
+        self.recordShareGrantedAt[recordId][sharedWith] = block.timestamp;
+        emit IAcademicRecords.RecordShared(
+            recordId,
+            studentId,
+            sharedWith,
+            expiresAt
+        );
     }
 
     function unshareRecord(
         RecordData storage self,
+        StudentManagement studentManagement,
         uint256 recordId,
-        address sharedWith,
-        string calldata studentId
+        address sharedWith
     ) external {
-        self.recordSharedWith[recordId][sharedWith] = false;
+        string memory studentId = studentManagement.addressToStudentId(
+            msg.sender
+        );
+        _requireStudentRecord(self, recordId, studentId);
+        delete self.recordShareExpiry[recordId][sharedWith];
+        delete self.recordShareGrantedAt[recordId][sharedWith];
         _removeFromArray(
             self.studentSharedRecords[studentId][sharedWith],
             recordId
         );
+
+        address[] storage grantees = self.recordGrantees[recordId];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (grantees[i] == sharedWith) {
+                grantees[i] = grantees[grantees.length - 1];
+                grantees.pop();
+                break;
+            }
+        }
+        emit IAcademicRecords.RecordUnshared(recordId, studentId, sharedWith);
+    }
+
+    // Only the student a record belongs to can manage its grants
+    function _requireStudentRecord(
+        RecordData storage self,
+        uint256 recordId,
+        string memory studentId
+    ) private view {
+        require(self.records[recordId].id == recordId, "Record does not exist");
+        require(bytes(studentId).length > 0, "Not a registered student");
+        require(
+            keccak256(bytes(studentId)) ==
+                keccak256(bytes(self.records[recordId].studentId)),
+            "Not your record"
+        );
+    }
+
+    function getRecordGrantees(
+        RecordData storage self,
+        uint256 recordId
+    ) external view returns (IAcademicRecords.ShareGrant[] memory grants) {
+        address[] storage grantees = self.recordGrantees[recordId];
+        grants = new IAcademicRecords.ShareGrant[](grantees.length);
+
+        for (uint256 i = 0; i < grantees.length; i++) {
+            grants[i] = IAcademicRecords.ShareGrant({
+                grantee: grantees[i],
+                grantedAt: self.recordShareGrantedAt[recordId][grantees[i]],
+                expiresAt: self.recordShareExpiry[recordId][grantees[i]]
+            });
+        }
+    }
+
+    function isShareActive(
+        RecordData storage self,
+        uint256 recordId,
+        address user
+    ) internal view returns (bool) {
+        return self.recordShareExpiry[recordId][user] > block.timestamp;
+    }
+
+    // Records the calling student shares with sharedWith
+    function getActiveSharedRecords(
+        RecordData storage self,
+        StudentManagement studentManagement,
+        address sharedWith
+    ) external view returns (uint256[] memory) {
+        string memory studentId = studentManagement.addressToStudentId(
+            msg.sender
+        );
+        require(bytes(studentId).length > 0, "Not a registered student");
+        uint256[] storage shared = self.studentSharedRecords[studentId][
+            sharedWith
+        ];
+        uint256[] memory active = new uint256[](shared.length);
+        uint256 count = 0;
+
+        for (uint256 i = 0; i < shared.length; i++) {
+            if (isShareActive(self, shared[i], sharedWith)) {
+                active[count] = shared[i];
+                count++;
+            }
+        }
+
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = active[i];
+        }
+        return result;
     }
 
     function addCustomType(
@@ -130,6 +656,7 @@ library RecordStorage {
         string calldata description,
         address creator
     ) external returns (uint256) {
+        require(bytes(name).length > 0, "Invalid name");
         self.customTypeCounter++;
         uint256 typeId = self.customTypeCounter;
 
@@ -146,30 +673,269 @@ library RecordStorage {
         self.customTypes[typeId] = newType;
         self.universityCustomTypes[creator].push(typeId);
 
+        emit IAcademicRecords.CustomRecordTypeCreated(typeId, name, creator);
         return typeId;
     }
 
-    function getRecordsByStudentAddress(
+    function setCustomTypeActive(
+        CustomTypeData storage self,
+        uint256 typeId,
+        bool isActive,
+        address creator
+    ) external {
+        require(self.customTypes[typeId].creator == creator, "Not the creator");
+
+        self.customTypes[typeId].isActive = isActive;
+        emit IAcademicRecords.CustomRecordTypeUpdated(typeId, isActive);
+    }
+
+    // Records with a custom type use RecordType.OTHER and reference an
+    // active type created by the issuing university
+    function checkCustomType(
+        CustomTypeData storage self,
+        IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        address issuer
+    ) public view {
+        if (customTypeId == 0) return;
+
+        IAcademicRecords.CustomRecordType storage customType = self.customTypes[
+            customTypeId
+        ];
+        require(
+            recordType == IAcademicRecords.RecordType.OTHER,
+            "Custom type must use OTHER"
+        );
+        require(
+            customType.creator == issuer && customType.isActive,
+            "Invalid custom type"
+        );
+    }
+
+    function getCustomType(
+        CustomTypeData storage self,
+        uint256 typeId
+    ) external view returns (IAcademicRecords.CustomRecordType memory) {
+        require(
+            self.customTypes[typeId].id == typeId,
+            "Custom type does not exist"
+        );
+        return self.customTypes[typeId];
+    }
+
+    function anchorBatch(
+        AnchorData storage self,
+        bytes32 merkleRoot,
+        uint256 recordCount,
+        address issuer
+    ) external returns (uint256) {
+        require(merkleRoot != bytes32(0), "Invalid Merkle root");
+        require(recordCount > 0, "Invalid record count");
+        self.batchCounter++;
+        uint256 batchId = self.batchCounter;
+
+        self.batches[batchId] = IAcademicRecords.AnchoredBatch({
+            id: batchId,
+            merkleRoot: merkleRoot,
+            issuer: issuer,
+            recordCount: recordCount,
+            timestamp: block.timestamp
+        });
+        self.universityBatches[issuer].push(batchId);
+
+        emit IAcademicRecords.BatchAnchored(
+            batchId,
+            merkleRoot,
+            issuer,
+            recordCount
+        );
+        return batchId;
+    }
+
+    function getBatch(
+        AnchorData storage self,
+        uint256 batchId
+    ) external view returns (IAcademicRecords.AnchoredBatch memory) {
+        require(
+            self.batches[batchId].id == batchId && batchId != 0,
+            "Batch does not exist"
+        );
+        return self.batches[batchId];
+    }
+
+    // Leaves use the OpenZeppelin StandardMerkleTree encoding, a double
+    // keccak256 of the ABI encoded record fields
+    function isAnchored(
+        AnchorData storage self,
+        uint256 batchId,
+        IAcademicRecords.AnchoredRecord calldata entry,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        bytes32 leaf = keccak256(
+            bytes.concat(
+                keccak256(
+                    abi.encode(
+                        entry.studentId,
+                        entry.studentName,
+                        entry.studentAddress,
+                        entry.ipfsHash,
+                        entry.recordType
+                    )
+                )
+            )
+        );
+        return
+            MerkleProof.verifyCalldata(
+                proof,
+                self.batches[batchId].merkleRoot,
+                leaf
+            );
+    }
+
+    // Records scheduled for release later are only returned to their issuer
+    function getRecord(
+        RecordData storage self,
+        uint256 recordId,
+        address viewer
+    ) external view returns (IAcademicRecords.Record memory) {
+        _requireReleased(self, recordId, viewer);
+        return self.records[recordId];
+    }
+
+    // Revoked records are reported as such whatever their validity window,
+    // and joint records wait for their co-signers before anything else
+    function verifyRecord(
+        RecordData storage self,
+        RecordCosigning recordCosigning,
+        uint256 recordId,
+        address viewer
+    ) external view returns (IAcademicRecords.VerificationStatus) {
+        _requireReleased(self, recordId, viewer);
+        IAcademicRecords.Record storage record = self.records[recordId];
+        if (!record.isVerified) {
+            return IAcademicRecords.VerificationStatus.REVOKED;
+        }
+        if (
+            address(recordCosigning) != address(0) &&
+            !recordCosigning.isFullySigned(recordId)
+        ) {
+            return IAcademicRecords.VerificationStatus.AWAITING_COSIGNATURES;
+        }
+        if (block.timestamp < record.validFrom) {
+            return IAcademicRecords.VerificationStatus.NOT_YET_VALID;
+        }
+        if (record.validUntil != 0 && block.timestamp > record.validUntil) {
+            return IAcademicRecords.VerificationStatus.EXPIRED;
+        }
+        return IAcademicRecords.VerificationStatus.VALID;
+    }
+
+    function _requireReleased(
+        RecordData storage self,
+        uint256 recordId,
+        address viewer
+    ) private view {
+        IAcademicRecords.Record storage record = self.records[recordId];
+        require(record.id == recordId, "Record does not exist");
+        require(
+            block.timestamp >= record.visibleFrom || viewer == record.issuer,
+            "Record not released yet"
+        );
+    }
+
+    // Returns a record if the viewer may see it, hiding the IPFS and metadata
+    // hashes from students who view their own records without a share grant
+    function getRecordForViewer(
         RecordData storage self,
-        address studentAddress
+        StudentManagement studentManagement,
+        uint256 recordId,
+        address viewer,
+        bool isAdmin
+    ) external view returns (IAcademicRecords.Record memory) {
+        _requireReleased(self, recordId, viewer);
+        string memory viewerStudentId = studentManagement.addressToStudentId(
+            msg.sender
+        );
+
+        IAcademicRecords.Record memory record = self.records[recordId];
+
+        // Issuer, active grantees and admins have full access
+        bool hasFullAccess = record.issuer == viewer ||
+            isShareActive(self, recordId, viewer) ||
+            isAdmin;
+
+        // Student can view their own records
+        bool isOwnRecord = bytes(viewerStudentId).length > 0 &&
+            keccak256(bytes(viewerStudentId)) ==
+            keccak256(bytes(record.studentId));
+
+        require(
+            hasFullAccess || isOwnRecord,
+            "No permission to view this record"
+        );
+
+        if (!hasFullAccess) {
+            record.ipfsHash = "";
+            record.metadataHash = "";
+        }
+
+        return record;
+    }
+
+    // Returns up to limit record ids starting at offset, and the length of
+    // the whole list
+    function getRecordIdPage(
+        uint256[] storage list,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        total = list.length;
+        uint256 count = offset < total ? total - offset : 0;
+        page = new uint256[](count < limit ? count : limit);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = list[offset + i];
+        }
+    }
+
+    // Combines records found by student address and by student ID, without
+    // duplicates. Records issued to an earlier address of the student are
+    // found through the student ID
+    function getStudentRecordsByAddress(
+        RecordData storage self,
+        AddressIndex storage index,
+        address studentAddress,
+        string calldata studentId
     ) external view returns (uint256[] memory) {
-        uint256 count = 0;
-        for (uint256 i = 1; i <= self.recordCounter; i++) {
-            if (self.records[i].studentAddress == studentAddress) {
-                count++;
-            }
+        uint256[] storage addressRecords = index.addressRecords[studentAddress];
+
+        if (bytes(studentId).length == 0) {
+            return addressRecords;
         }
 
-        uint256[] memory result = new uint256[](count);
-        uint256 index = 0;
+        uint256[] storage idRecords = self.studentRecords[studentId];
+        uint256[] memory combinedRecords = new uint256[](
+            addressRecords.length + idRecords.length
+        );
+        uint256 uniqueCount = 0;
 
-        for (uint256 i = 1; i <= self.recordCounter; i++) {
-            if (self.records[i].studentAddress == studentAddress) {
-                result[index] = i;
-                index++;
+        for (uint256 i = 0; i < addressRecords.length; i++) {
+            combinedRecords[uniqueCount] = addressRecords[i];
+            uniqueCount++;
+        }
+
+        // Records issued to this address are already in the address index
+        for (uint256 i = 0; i < idRecords.length; i++) {
+            if (self.records[idRecords[i]].studentAddress != studentAddress) {
+                combinedRecords[uniqueCount] = idRecords[i];
+                uniqueCount++;
             }
         }
 
+        uint256[] memory result = new uint256[](uniqueCount);
+        for (uint256 i = 0; i < uniqueCount; i++) {
+            result[i] = combinedRecords[i];
+        }
+
         return result;
     }
 }
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
+import "../AcademicRecords.sol";
+
+// Logs who viewed a shared record. Viewers sign an access receipt off chain
+// and a relayer submits it, so viewing a record costs the viewer nothing
+contract AccessLog is Initializable, EIP712Upgradeable {
+    bytes32 public constant RECORD_ACCESS_TYPEHASH =
+        keccak256(
+            "RecordAccess(uint256 recordId,address accessor,uint256 accessedAt)"
+        );
+    // Receipts older than this can no longer be logged
+    uint256 public constant MAX_RECEIPT_AGE = 1 days;
+    // Tolerated difference between the viewer's clock and block time
+    uint256 public constant MAX_CLOCK_DRIFT = 15 minutes;
+    // Accesses of a record by the same wallet are logged at most this often,
+    // so the relayer does not pay for a receipt per page view
+    uint256 public constant MIN_LOG_INTERVAL = 1 hours;
+
+    AcademicRecords public academicRecords;
+    mapping(bytes32 => bool) private _loggedReceipts;
+    mapping(uint256 => mapping(address => uint256)) private _lastAccessedAt;
+
+    event RecordAccessed(
+        uint256 indexed recordId,
+        address indexed accessor,
+        uint256 accessedAt,
+        address relayer
+    );
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(AcademicRecords _academicRecords) external initializer {
+        __EIP712_init("AcademicRecordsAccessLog", "1");
+        academicRecords = _academicRecords;
+    }
+
+    // Logs an access receipt signed by the accessor. Only accesses by wallets
+    // the record is currently shared with are logged
+    function logAccess(
+        uint256 recordId,
+        address accessor,
+        uint256 accessedAt,
+        bytes calldata signature
+    ) external {
+        require(
+            accessedAt + MAX_RECEIPT_AGE >= block.timestamp,
+            "Access receipt expired"
+        );
+        require(
+            accessedAt <= block.timestamp + MAX_CLOCK_DRIFT,
+            "Invalid access time"
+        );
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    RECORD_ACCESS_TYPEHASH,
+                    recordId,
+                    accessor,
+                    accessedAt
+                )
+            )
+        );
+        require(
+            ECDSAUpgradeable.recover(digest, signature) == accessor,
+            "Invalid signature"
+        );
+        require(!_loggedReceipts[digest], "Access already logged");
+        uint256 lastAccessedAt = _lastAccessedAt[recordId][accessor];
+        require(
+            lastAccessedAt == 0 ||
+                accessedAt >= lastAccessedAt + MIN_LOG_INTERVAL,
+            "Access logged recently"
+        );
+        require(
+            academicRecords.isRecordSharedWith(recordId, accessor),
+            "Record not shared with accessor"
+        );
+
+        _loggedReceipts[digest] = true;
+        _lastAccessedAt[recordId][accessor] = accessedAt;
+        emit RecordAccessed(recordId, accessor, accessedAt, msg.sender);
+    }
+}
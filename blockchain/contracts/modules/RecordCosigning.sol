@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "../interfaces/IAcademicRecords.sol";
+import "../AcademicRecords.sol";
+import "./UniversityStaff.sol";
+
+// Co-signatures of joint records, such as a dual degree endorsed by two
+// universities. The issuing university names the co-signers when it issues
+// the record, and verifyRecord only reports the record as valid once every
+// co-signer countersigned it
+contract RecordCosigning is Initializable {
+    struct Cosignature {
+        address university;
+        address signedBy; // University wallet or staff account that signed
+        uint256 signedAt; // 0 while the signature is pending
+    }
+
+    uint256 public constant MAX_COSIGNERS = 5;
+
+    AcademicRecords public academicRecords;
+    mapping(uint256 => Cosignature[]) private _cosignatures;
+    // Records waiting for the signature of each university
+    mapping(address => uint256[]) private _pendingRecords;
+
+    event CosignersRequested(uint256 indexed recordId, address[] cosigners);
+    event RecordCosigned(
+        uint256 indexed recordId,
+        address indexed university,
+        address signedBy
+    );
+
+    modifier onlyAcademicRecords() {
+        require(
+            msg.sender == address(academicRecords),
+            "Only AcademicRecords can call this"
+        );
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(AcademicRecords _academicRecords) external initializer {
+        academicRecords = _academicRecords;
+    }
+
+    // Called by AcademicRecords when issuer issues a record with co-signers.
+    // Co-signers are other universities, each named once
+    function requestCosigners(
+        uint256 recordId,
+        address issuer,
+        address[] calldata cosigners
+    ) external onlyAcademicRecords {
+        require(cosigners.length <= MAX_COSIGNERS, "Too many co-signers");
+        for (uint256 i = 0; i < cosigners.length; i++) {
+            require(
+                cosigners[i] != issuer &&
+                    academicRecords.hasRole(
+                        academicRecords.UNIVERSITY_ROLE(),
+                        cosigners[i]
+                    ),
+                "Invalid co-signer"
+            );
+            for (uint256 j = 0; j < i; j++) {
+                require(cosigners[j] != cosigners[i], "Duplicate co-signer");
+            }
+            _addCosigner(recordId, cosigners[i]);
+        }
+
+        emit CosignersRequested(recordId, cosigners);
+    }
+
+    // Called by AcademicRecords when a record is superseded. The corrected
+    // version needs the signatures of the same co-signers again, and the
+    // outdated one is no longer waiting for them
+    function carryOverCosigners(
+        uint256 previousRecordId,
+        uint256 recordId
+    ) external onlyAcademicRecords {
+        Cosignature[] storage previous = _cosignatures[previousRecordId];
+        if (previous.length == 0) return;
+
+        address[] memory cosigners = new address[](previous.length);
+        for (uint256 i = 0; i < previous.length; i++) {
+            cosigners[i] = previous[i].university;
+            if (previous[i].signedAt == 0) {
+                _removePendingRecord(cosigners[i], previousRecordId);
+            }
+            _addCosigner(recordId, cosigners[i]);
+        }
+
+        emit CosignersRequested(recordId, cosigners);
+    }
+
+    // Countersigns a record for the caller's university. Universities and
+    // their registrars sign
+    function cosign(uint256 recordId) external {
+        address university = academicRecords
+            .universityStaff()
+            .resolveActingUniversity(
+                msg.sender,
+                UniversityStaff.StaffRole.REGISTRAR
+            );
+        Cosignature[] storage cosignatures = _cosignatures[recordId];
+        for (uint256 i = 0; i < cosignatures.length; i++) {
+            if (cosignatures[i].university != university) continue;
+            require(cosignatures[i].signedAt == 0, "Already co-signed");
+
+            cosignatures[i].signedBy = msg.sender;
+            cosignatures[i].signedAt = block.timestamp;
+            _removePendingRecord(university, recordId);
+
+            emit RecordCosigned(recordId, university, msg.sender);
+            return;
+        }
+        revert("Not a co-signer of the record");
+    }
+
+    function getCosignatures(
+        uint256 recordId
+    ) external view returns (Cosignature[] memory) {
+        return _cosignatures[recordId];
+    }
+
+    // Records the university was asked to co-sign and has not signed yet, in
+    // no particular order
+    function getPendingRecords(
+        address university
+    ) external view returns (uint256[] memory) {
+        return _pendingRecords[university];
+    }
+
+    // True when every co-signer signed, and for records without co-signers
+    function isFullySigned(uint256 recordId) external view returns (bool) {
+        Cosignature[] storage cosignatures = _cosignatures[recordId];
+        for (uint256 i = 0; i < cosignatures.length; i++) {
+            if (cosignatures[i].signedAt == 0) return false;
+        }
+        return true;
+    }
+
+    function _addCosigner(uint256 recordId, address university) private {
+        _cosignatures[recordId].push(
+            Cosignature({
+                university: university,
+                signedBy: address(0),
+                signedAt: 0
+            })
+        );
+        _pendingRecords[university].push(recordId);
+    }
+
+    function _removePendingRecord(
+        address university,
+        uint256 recordId
+    ) private {
+        uint256[] storage recordIds = _pendingRecords[university];
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            if (recordIds[i] == recordId) {
+                recordIds[i] = recordIds[recordIds.length - 1];
+                recordIds.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,335 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "../interfaces/IAcademicRecords.sol";
+import "../AcademicRecords.sol";
+import "./UniversityStaff.sol";
+
+// Draft records awaiting review, so a record prepared by a clerk is only
+// issued once a second account with approval rights checked it. Drafts get
+// a record id when AcademicRecords publishes them; until then they are not
+// records and never verify. Reviewers send drafts back with comments, and
+// the clerk revises and resubmits them
+contract RecordDrafts is Initializable {
+    enum DraftStatus {
+        NONE,
+        PENDING,
+        RETURNED,
+        PUBLISHED,
+        DISCARDED
+    }
+
+    struct RecordDraft {
+        uint256 id;
+        address university;
+        address createdBy;
+        string studentId;
+        string studentName;
+        address studentAddress;
+        string universityName;
+        string ipfsHash;
+        string metadataHash;
+        IAcademicRecords.RecordType recordType;
+        uint256 customTypeId;
+        DraftStatus status;
+        string reviewComments;
+        address reviewedBy;
+        uint256 updatedAt;
+        uint256 reviewedAt;
+        uint256 recordId;
+        uint256 visibleFrom;
+        uint256 validFrom;
+        uint256 validUntil;
+        address[] cosigners; // Asked to co-sign the record once published
+    }
+
+    AcademicRecords public academicRecords;
+    uint256 public draftCounter;
+    mapping(uint256 => RecordDraft) private _drafts;
+    // Pending and returned drafts of each university
+    mapping(address => uint256[]) private _openDrafts;
+
+    event DraftSubmitted(
+        uint256 indexed draftId,
+        address indexed university,
+        address indexed createdBy
+    );
+    event DraftReturned(
+        uint256 indexed draftId,
+        address indexed reviewedBy,
+        string comments
+    );
+    event DraftPublished(
+        uint256 indexed draftId,
+        uint256 indexed recordId,
+        address indexed reviewedBy
+    );
+    event DraftDiscarded(uint256 indexed draftId);
+
+    modifier onlyAcademicRecords() {
+        require(
+            msg.sender == address(academicRecords),
+            "Only AcademicRecords can call this"
+        );
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(AcademicRecords _academicRecords) external initializer {
+        academicRecords = _academicRecords;
+    }
+
+    // Takes the same fields as AcademicRecords.addRecord. Clerks, registrars
+    // and universities submit drafts, and registrars submit the records they
+    // do not issue directly
+    function submitDraft(
+        string calldata studentId,
+        string calldata studentName,
+        address studentAddress,
+        string calldata universityName,
+        string calldata ipfsHash,
+        string calldata metadataHash,
+        IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil,
+        address[] calldata cosigners
+    ) external returns (uint256) {
+        address university = academicRecords
+            .universityStaff()
+            .resolveActingUniversity(
+                msg.sender,
+                UniversityStaff.StaffRole.CLERK
+            );
+
+        draftCounter++;
+        RecordDraft storage draft = _drafts[draftCounter];
+        draft.id = draftCounter;
+        draft.university = university;
+        draft.createdBy = msg.sender;
+        _openDrafts[university].push(draftCounter);
+        _setContent(
+            draft,
+            studentId,
+            studentName,
+            studentAddress,
+            universityName,
+            ipfsHash,
+            metadataHash,
+            recordType,
+            customTypeId,
+            visibleFrom,
+            validFrom,
+            validUntil
+        );
+        draft.cosigners = cosigners;
+
+        emit DraftSubmitted(draftCounter, university, msg.sender);
+        return draftCounter;
+    }
+
+    // Replaces the content of a returned draft and submits it for review
+    // again. Only its author can revise it
+    function reviseDraft(
+        uint256 draftId,
+        string calldata studentId,
+        string calldata studentName,
+        address studentAddress,
+        string calldata universityName,
+        string calldata ipfsHash,
+        string calldata metadataHash,
+        IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil,
+        address[] calldata cosigners
+    ) external {
+        RecordDraft storage draft = _drafts[draftId];
+        require(draft.createdBy == msg.sender, "Not the draft author");
+        require(draft.status == DraftStatus.RETURNED, "Draft is not returned");
+        require(
+            academicRecords.universityStaff().resolveActingUniversity(
+                msg.sender,
+                UniversityStaff.StaffRole.CLERK
+            ) == draft.university,
+            "Not staff of the draft university"
+        );
+
+        _setContent(
+            draft,
+            studentId,
+            studentName,
+            studentAddress,
+            universityName,
+            ipfsHash,
+            metadataHash,
+            recordType,
+            customTypeId,
+            visibleFrom,
+            validFrom,
+            validUntil
+        );
+        draft.cosigners = cosigners;
+
+        emit DraftSubmitted(draftId, draft.university, msg.sender);
+    }
+
+    // Sends a pending draft back to its author with the changes it needs
+    function returnDraft(uint256 draftId, string calldata comments) external {
+        RecordDraft storage draft = _requireReviewable(
+            draftId,
+            academicRecords.universityStaff().resolveActingUniversity(
+                msg.sender,
+                UniversityStaff.StaffRole.REGISTRAR
+            ),
+            msg.sender
+        );
+        require(bytes(comments).length > 0, "Comments are required");
+
+        draft.status = DraftStatus.RETURNED;
+        draft.reviewComments = comments;
+        draft.reviewedBy = msg.sender;
+        draft.reviewedAt = block.timestamp;
+
+        emit DraftReturned(draftId, msg.sender, comments);
+    }
+
+    // Withdraws a draft that is not published yet; left to its author and
+    // to the university wallet
+    function discardDraft(uint256 draftId) external {
+        RecordDraft storage draft = _drafts[draftId];
+        require(
+            draft.status == DraftStatus.PENDING ||
+                draft.status == DraftStatus.RETURNED,
+            "Draft is not open"
+        );
+        require(
+            msg.sender == draft.createdBy || msg.sender == draft.university,
+            "Not the draft author"
+        );
+
+        draft.status = DraftStatus.DISCARDED;
+        _removeOpenDraft(draft.university, draftId);
+
+        emit DraftDiscarded(draftId);
+    }
+
+    // Called by AcademicRecords.publishDraft once it checked the reviewer
+    // may approve records for university. Returns the draft to issue as
+    // record recordId
+    function publishDraft(
+        uint256 draftId,
+        address university,
+        address reviewer,
+        uint256 recordId
+    ) external onlyAcademicRecords returns (RecordDraft memory) {
+        RecordDraft storage draft = _requireReviewable(
+            draftId,
+            university,
+            reviewer
+        );
+
+        draft.status = DraftStatus.PUBLISHED;
+        draft.reviewedBy = reviewer;
+        draft.reviewedAt = block.timestamp;
+        draft.recordId = recordId;
+        _removeOpenDraft(university, draftId);
+
+        emit DraftPublished(draftId, recordId, reviewer);
+        return draft;
+    }
+
+    function getDraft(
+        uint256 draftId
+    ) external view returns (RecordDraft memory) {
+        require(
+            _drafts[draftId].university != address(0),
+            "Draft does not exist"
+        );
+        return _drafts[draftId];
+    }
+
+    // Pending and returned drafts of the university, in no particular order
+    function getOpenDrafts(
+        address university
+    ) external view returns (RecordDraft[] memory drafts) {
+        uint256[] storage draftIds = _openDrafts[university];
+        drafts = new RecordDraft[](draftIds.length);
+        for (uint256 i = 0; i < draftIds.length; i++) {
+            drafts[i] = _drafts[draftIds[i]];
+        }
+    }
+
+    function _setContent(
+        RecordDraft storage draft,
+        string memory studentId,
+        string memory studentName,
+        address studentAddress,
+        string memory universityName,
+        string memory ipfsHash,
+        string memory metadataHash,
+        IAcademicRecords.RecordType recordType,
+        uint256 customTypeId,
+        uint256 visibleFrom,
+        uint256 validFrom,
+        uint256 validUntil
+    ) private {
+        require(studentAddress != address(0), "Invalid student address");
+        require(bytes(ipfsHash).length > 0, "Invalid IPFS hash");
+        require(
+            validUntil == 0 || validUntil >= validFrom,
+            "Invalid validity window"
+        );
+
+        draft.studentId = studentId;
+        draft.studentName = studentName;
+        draft.studentAddress = studentAddress;
+        draft.universityName = universityName;
+        draft.ipfsHash = ipfsHash;
+        draft.metadataHash = metadataHash;
+        draft.recordType = recordType;
+        draft.customTypeId = customTypeId;
+        draft.visibleFrom = visibleFrom;
+        draft.validFrom = validFrom;
+        draft.validUntil = validUntil;
+        draft.status = DraftStatus.PENDING;
+        draft.updatedAt = block.timestamp;
+    }
+
+    // A pending draft of the university, reviewed by someone other than its
+    // author
+    function _requireReviewable(
+        uint256 draftId,
+        address university,
+        address reviewer
+    ) private view returns (RecordDraft storage draft) {
+        draft = _drafts[draftId];
+        require(
+            draft.university == university,
+            "Not a draft of the university"
+        );
+        require(draft.status == DraftStatus.PENDING, "Draft is not pending");
+        require(
+            draft.createdBy != reviewer,
+            "Drafts are reviewed by another account"
+        );
+    }
+
+    function _removeOpenDraft(address university, uint256 draftId) private {
+        uint256[] storage draftIds = _openDrafts[university];
+        for (uint256 i = 0; i < draftIds.length; i++) {
+            if (draftIds[i] == draftId) {
+                draftIds[i] = draftIds[draftIds.length - 1];
+                draftIds.pop();
+                break;
+            }
+        }
+    }
+}
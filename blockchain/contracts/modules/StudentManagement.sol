@@ -3,14 +3,66 @@ pragma solidity ^0.8.28;
 
 import "../interfaces/IAcademicRecords.sol";
 import "../libraries/RecordStorage.sol";
+import "../AcademicRecords.sol";
 
 contract StudentManagement {
     using RecordStorage for RecordStorage.RecordData;
 
+    // A student moving their ID to a new wallet after losing the old one
+    struct WalletRecovery {
+        uint256 id;
+        address newAddress;
+        uint256 requestedAt;
+        // Zero until the first university attests
+        uint256 executableAt;
+        uint256 attestations;
+        address firstAttester;
+    }
+
+    enum ClaimStatus {
+        NONE,
+        PENDING,
+        APPROVED,
+        REJECTED
+    }
+
+    // A wallet asking a university to register it under a student ID
+    struct StudentClaim {
+        string studentId;
+        address university;
+        uint256 requestedAt;
+        uint256 expiresAt;
+        ClaimStatus status;
+    }
+
+    uint256 public constant RECOVERY_DELAY = 7 days;
+    // Requests that no university attested to lapse after this period
+    uint256 public constant RECOVERY_REQUEST_EXPIRY = 30 days;
+    // Claim lifetime until an admin configures one
+    uint256 public constant DEFAULT_CLAIM_EXPIRY = 14 days;
+
     mapping(string => bool) public studentExists;
     mapping(string => address) public studentAddresses;
     mapping(address => string) public addressToStudentId;
 
+    // The AcademicRecords contract that performs the role checks; it is the
+    // only caller allowed to change registrations
+    address public academicRecords;
+    mapping(string => address) public pendingAddressChanges;
+
+    mapping(string => WalletRecovery) private _walletRecoveries;
+    mapping(uint256 => mapping(address => bool)) private _hasAttested;
+    uint256 public recoveryCounter;
+
+    // Keyed by the claiming wallet, which has at most one claim at a time
+    mapping(address => StudentClaim) private _claims;
+    mapping(address => address[]) private _universityClaimants;
+    uint256 private _claimExpiry;
+
+    // Account that deployed the proxy, the only one that can link it to the
+    // AcademicRecords proxy
+    address private _deployer;
+
     event StudentRegistered(
         string indexed studentId,
         address indexed studentAddress
@@ -18,31 +70,421 @@ contract StudentManagement {
     event StudentAddressUpdated(
         string indexed studentId,
         address indexed oldAddress,
-        address indexed newAddress
+        address indexed newAddress,
+        address approvedBy
     );
+    event StudentAddressChangeRequested(
+        string indexed studentId,
+        address indexed newAddress,
+        address indexed requestedBy
+    );
+
+    event WalletRecoveryRequested(
+        string indexed studentId,
+        address indexed newAddress,
+        uint256 recoveryId
+    );
+    event WalletRecoveryAttested(
+        string indexed studentId,
+        address indexed university,
+        uint256 attestations,
+        uint256 executableAt
+    );
+    event WalletRecoveryCancelled(
+        string indexed studentId,
+        address indexed newAddress,
+        address indexed cancelledBy
+    );
+
+    event StudentClaimRequested(
+        address indexed claimant,
+        string studentId,
+        address indexed university,
+        uint256 expiresAt
+    );
+    event StudentClaimResolved(
+        address indexed claimant,
+        string studentId,
+        address indexed university,
+        ClaimStatus status
+    );
+    event ClaimExpiryUpdated(uint256 claimExpiry);
+
+    modifier onlyAcademicRecords() {
+        require(msg.sender == academicRecords, "Not authorized");
+        _;
+    }
+
+    // Pausing AcademicRecords also stops wallet recoveries from moving on
+    modifier whenRecordsNotPaused() {
+        require(!AcademicRecords(academicRecords).paused(), "Pausable: paused");
+        _;
+    }
 
+    // Called in the transaction that deploys the proxy, so nobody else can
+    // initialize it first
+    function initialize() external {
+        require(
+            _deployer == address(0) && academicRecords == address(0),
+            "Already initialized"
+        );
+        _deployer = msg.sender;
+    }
+
+    // Called once by the deployer after the AcademicRecords proxy is
+    // deployed with this proxy's address
+    function setAcademicRecords(address _academicRecords) external {
+        require(msg.sender == _deployer, "Not authorized");
+        require(academicRecords == address(0), "Already initialized");
+        academicRecords = _academicRecords;
+    }
+
+    // Registers a new student. Registering an existing student again with the
+    // same address is a no-op; a different address needs an approved change
     function registerStudent(
         string calldata studentId,
         address studentAddress
-    ) external {
+    ) external onlyAcademicRecords {
         require(bytes(studentId).length > 0, "Invalid student ID");
         require(studentAddress != address(0), "Invalid address");
 
-        // If student already exists, update address
         if (studentExists[studentId]) {
-            address oldAddress = studentAddresses[studentId];
-            if (oldAddress != address(0)) {
-                delete addressToStudentId[oldAddress];
-            }
-            studentAddresses[studentId] = studentAddress;
-            addressToStudentId[studentAddress] = studentId;
-            emit StudentAddressUpdated(studentId, oldAddress, studentAddress);
-        } else {
-            studentExists[studentId] = true;
-            studentAddresses[studentId] = studentAddress;
-            addressToStudentId[studentAddress] = studentId;
-            emit StudentRegistered(studentId, studentAddress);
+            require(
+                studentAddresses[studentId] == studentAddress,
+                "Address change requires approval"
+            );
+            return;
+        }
+        _register(studentId, studentAddress);
+    }
+
+    function requestAddressChange(
+        string calldata studentId,
+        address newAddress,
+        address requestedBy,
+        bool isAdmin
+    ) external onlyAcademicRecords {
+        require(studentExists[studentId], "Student not registered");
+        require(
+            studentAddresses[studentId] == requestedBy || isAdmin,
+            "Not the student or admin"
+        );
+        require(newAddress != address(0), "Invalid address");
+        _requireUnusedAddress(newAddress);
+
+        pendingAddressChanges[studentId] = newAddress;
+        emit StudentAddressChangeRequested(studentId, newAddress, requestedBy);
+    }
+
+    function approveAddressChange(
+        string calldata studentId,
+        address approvedBy
+    ) external onlyAcademicRecords {
+        address newAddress = pendingAddressChanges[studentId];
+        require(newAddress != address(0), "No address change pending");
+        // The address may have been registered since the request was made
+        _requireUnusedAddress(newAddress);
+
+        _moveStudent(studentId, newAddress, approvedBy);
+    }
+
+    // --- Self-Registration Claims ---
+    // Called directly by students and universities, like wallet recovery
+
+    // Claims a student ID for the calling wallet at a university, which
+    // registers the student by approving the claim
+    function claimStudentId(
+        string calldata studentId,
+        address university
+    ) external whenRecordsNotPaused {
+        require(bytes(studentId).length > 0, "Invalid student ID");
+        require(!studentExists[studentId], "Student ID already registered");
+        _requireUnusedAddress(msg.sender);
+        AcademicRecords records = AcademicRecords(academicRecords);
+        require(
+            records.hasRole(records.UNIVERSITY_ROLE(), university),
+            "Not a university"
+        );
+
+        StudentClaim storage claim = _claims[msg.sender];
+        require(!_isClaimPending(claim), "Claim already pending");
+        if (claim.university != university) {
+            _universityClaimants[university].push(msg.sender);
+        }
+
+        uint256 expiresAt = block.timestamp + getClaimExpiry();
+        _claims[msg.sender] = StudentClaim({
+            studentId: studentId,
+            university: university,
+            requestedAt: block.timestamp,
+            expiresAt: expiresAt,
+            status: ClaimStatus.PENDING
+        });
+        emit StudentClaimRequested(
+            msg.sender,
+            studentId,
+            university,
+            expiresAt
+        );
+    }
+
+    // Registers the claimant under the claimed student ID. Fails if another
+    // wallet was registered under that ID in the meantime
+    function approveStudentClaim(
+        address claimant
+    ) external whenRecordsNotPaused {
+        StudentClaim storage claim = _requireClaimUniversity(claimant);
+        require(
+            !studentExists[claim.studentId],
+            "Student ID already registered"
+        );
+
+        claim.status = ClaimStatus.APPROVED;
+        _register(claim.studentId, claimant);
+        emit StudentClaimResolved(
+            claimant,
+            claim.studentId,
+            msg.sender,
+            ClaimStatus.APPROVED
+        );
+    }
+
+    function rejectStudentClaim(address claimant) external {
+        StudentClaim storage claim = _requireClaimUniversity(claimant);
+
+        claim.status = ClaimStatus.REJECTED;
+        emit StudentClaimResolved(
+            claimant,
+            claim.studentId,
+            msg.sender,
+            ClaimStatus.REJECTED
+        );
+    }
+
+    function setClaimExpiry(uint256 claimExpiry) external {
+        AcademicRecords records = AcademicRecords(academicRecords);
+        require(
+            records.hasRole(records.ADMIN_ROLE(), msg.sender),
+            "Not admin or super admin"
+        );
+        require(claimExpiry > 0, "Invalid claim expiry");
+
+        _claimExpiry = claimExpiry;
+        emit ClaimExpiryUpdated(claimExpiry);
+    }
+
+    function getClaimExpiry() public view returns (uint256) {
+        return _claimExpiry == 0 ? DEFAULT_CLAIM_EXPIRY : _claimExpiry;
+    }
+
+    // A pending claim past expiresAt has expired
+    function getStudentClaim(
+        address claimant
+    ) external view returns (StudentClaim memory) {
+        return _claims[claimant];
+    }
+
+    // Every wallet that ever claimed a student ID at the university; their
+    // current claim may be at another university by now
+    function getUniversityClaimants(
+        address university
+    ) external view returns (address[] memory) {
+        return _universityClaimants[university];
+    }
+
+    function _isClaimPending(
+        StudentClaim storage claim
+    ) private view returns (bool) {
+        return
+            claim.status == ClaimStatus.PENDING &&
+            block.timestamp < claim.expiresAt;
+    }
+
+    function _requireClaimUniversity(
+        address claimant
+    ) private view returns (StudentClaim storage claim) {
+        claim = _claims[claimant];
+        require(_isClaimPending(claim), "No claim pending");
+        require(claim.university == msg.sender, "Not the claimed university");
+        AcademicRecords records = AcademicRecords(academicRecords);
+        require(
+            records.hasRole(records.UNIVERSITY_ROLE(), msg.sender),
+            "Not the claimed university"
+        );
+    }
+
+    // --- Wallet Recovery ---
+    // Called directly by students and universities; the issuer check reads the
+    // records from AcademicRecords
+
+    // Requested from the new wallet of a student who lost access to the old one
+    function requestWalletRecovery(
+        string calldata studentId
+    ) external whenRecordsNotPaused {
+        require(studentExists[studentId], "Student not registered");
+        _requireUnusedAddress(msg.sender);
+        require(
+            !_isRecoveryActive(_walletRecoveries[studentId]),
+            "Recovery already pending"
+        );
+
+        recoveryCounter++;
+        _walletRecoveries[studentId] = WalletRecovery({
+            id: recoveryCounter,
+            newAddress: msg.sender,
+            requestedAt: block.timestamp,
+            executableAt: 0,
+            attestations: 0,
+            firstAttester: address(0)
+        });
+        emit WalletRecoveryRequested(studentId, msg.sender, recoveryCounter);
+    }
+
+    // Universities attest to the new address they confirmed with the student,
+    // so a request replaced in the meantime is not attested by mistake. The
+    // first attestation starts the waiting period
+    function attestWalletRecovery(
+        string calldata studentId,
+        address newAddress
+    ) external whenRecordsNotPaused {
+        WalletRecovery storage recovery = _walletRecoveries[studentId];
+        require(
+            _isRecoveryActive(recovery) && recovery.newAddress == newAddress,
+            "No matching recovery pending"
+        );
+        _requireIssuingUniversity(studentId, msg.sender);
+        require(!_hasAttested[recovery.id][msg.sender], "Already attested");
+
+        _hasAttested[recovery.id][msg.sender] = true;
+        recovery.attestations++;
+        if (recovery.executableAt == 0) {
+            recovery.executableAt = block.timestamp + RECOVERY_DELAY;
+            recovery.firstAttester = msg.sender;
+        }
+        emit WalletRecoveryAttested(
+            studentId,
+            msg.sender,
+            recovery.attestations,
+            recovery.executableAt
+        );
+    }
+
+    // The current wallet can veto a recovery it did not ask for, and an
+    // issuing university can reject one it could not confirm
+    function cancelWalletRecovery(string calldata studentId) external {
+        WalletRecovery storage recovery = _walletRecoveries[studentId];
+        require(_isRecoveryActive(recovery), "No recovery pending");
+        if (msg.sender != studentAddresses[studentId]) {
+            _requireIssuingUniversity(studentId, msg.sender);
+        }
+
+        address newAddress = recovery.newAddress;
+        delete _walletRecoveries[studentId];
+        emit WalletRecoveryCancelled(studentId, newAddress, msg.sender);
+    }
+
+    function completeWalletRecovery(
+        string calldata studentId
+    ) external whenRecordsNotPaused {
+        WalletRecovery memory recovery = _walletRecoveries[studentId];
+        require(recovery.attestations > 0, "Recovery not attested");
+        require(
+            block.timestamp >= recovery.executableAt,
+            "Recovery is still in waiting period"
+        );
+        // The address may have been registered since the request was made
+        _requireUnusedAddress(recovery.newAddress);
+
+        delete _walletRecoveries[studentId];
+        _moveStudent(studentId, recovery.newAddress, recovery.firstAttester);
+    }
+
+    function getWalletRecovery(
+        string calldata studentId
+    ) external view returns (WalletRecovery memory) {
+        WalletRecovery memory recovery = _walletRecoveries[studentId];
+        if (!_isRecoveryActive(recovery)) {
+            delete recovery;
         }
+        return recovery;
+    }
+
+    function hasAttestedWalletRecovery(
+        string calldata studentId,
+        address university
+    ) external view returns (bool) {
+        return _hasAttested[_walletRecoveries[studentId].id][university];
+    }
+
+    function _isRecoveryActive(
+        WalletRecovery memory recovery
+    ) private view returns (bool) {
+        return
+            recovery.newAddress != address(0) &&
+            (recovery.executableAt != 0 ||
+                block.timestamp <
+                recovery.requestedAt + RECOVERY_REQUEST_EXPIRY);
+    }
+
+    // Universities vouch for a student while they hold the role and have
+    // issued the student a record, even a superseded or revoked one. Records
+    // not released yet do not count
+    function _requireIssuingUniversity(
+        string calldata studentId,
+        address university
+    ) private view {
+        AcademicRecords records = AcademicRecords(academicRecords);
+        require(
+            records.hasRole(records.UNIVERSITY_ROLE(), university),
+            "Not the issuing university"
+        );
+
+        uint256[] memory recordIds = records.getStudentRecords(studentId);
+        for (uint256 i = 0; i < recordIds.length; i++) {
+            try records.getRecord(recordIds[i]) returns (
+                IAcademicRecords.Record memory record
+            ) {
+                if (record.issuer == university) return;
+            } catch {}
+        }
+        revert("Not the issuing university");
+    }
+
+    function _register(
+        string memory studentId,
+        address studentAddress
+    ) private {
+        _requireUnusedAddress(studentAddress);
+
+        studentExists[studentId] = true;
+        studentAddresses[studentId] = studentAddress;
+        addressToStudentId[studentAddress] = studentId;
+        emit StudentRegistered(studentId, studentAddress);
+    }
+
+    function _moveStudent(
+        string calldata studentId,
+        address newAddress,
+        address approvedBy
+    ) private {
+        address oldAddress = studentAddresses[studentId];
+        delete addressToStudentId[oldAddress];
+        delete pendingAddressChanges[studentId];
+        studentAddresses[studentId] = newAddress;
+        addressToStudentId[newAddress] = studentId;
+        emit StudentAddressUpdated(
+            studentId,
+            oldAddress,
+            newAddress,
+            approvedBy
+        );
+    }
+
+    function _requireUnusedAddress(address studentAddress) private view {
+        require(
+            bytes(addressToStudentId[studentAddress]).length == 0,
+            "Address belongs to another student"
+        );
     }
 
     function getStudentAddress(
@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "../AcademicRecords.sol";
+
+// Profiles of the universities registered in AcademicRecords, shown to
+// verifiers next to the records they issued. Only admins edit profiles, so
+// the accreditation details are vouched for by the platform. Institutions
+// apply here to be registered, and the profile of an approved application
+// becomes the university's profile
+contract UniversityProfiles is Initializable {
+    struct UniversityProfile {
+        string accreditationBody;
+        string accreditationId;
+        string country;
+        string website;
+        string contactEmail;
+        string logoHash; // IPFS hash of the logo image
+        string metadataHash; // IPFS hash of a document with further details
+    }
+
+    enum ApplicationStatus {
+        NONE,
+        PENDING,
+        APPROVED,
+        REJECTED
+    }
+
+    struct UniversityApplication {
+        address applicant;
+        string name;
+        UniversityProfile profile;
+        string documentsHash; // IPFS hash of the accreditation documents
+        ApplicationStatus status;
+        string rejectionReason;
+        uint256 submittedAt;
+        uint256 reviewedAt;
+    }
+
+    AcademicRecords public academicRecords;
+    mapping(address => UniversityProfile) private _profiles;
+    // Latest application of each applicant wallet
+    mapping(address => UniversityApplication) private _applications;
+    address[] private _pendingApplicants;
+
+    event UniversityProfileUpdated(
+        address indexed university,
+        address indexed updatedBy
+    );
+    event UniversityApplicationSubmitted(
+        address indexed applicant,
+        string name
+    );
+    event UniversityApplicationApproved(
+        address indexed applicant,
+        address indexed approvedBy
+    );
+    event UniversityApplicationRejected(
+        address indexed applicant,
+        string reason,
+        address indexed rejectedBy
+    );
+
+    modifier onlyAdminOrSuper() {
+        require(
+            academicRecords.hasRole(academicRecords.ADMIN_ROLE(), msg.sender) ||
+                academicRecords.hasRole(
+                    academicRecords.SUPER_ADMIN_ROLE(),
+                    msg.sender
+                ),
+            "Not an admin"
+        );
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(AcademicRecords _academicRecords) external initializer {
+        academicRecords = _academicRecords;
+    }
+
+    function setProfile(
+        address university,
+        UniversityProfile calldata profile
+    ) external onlyAdminOrSuper {
+        require(
+            academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                university
+            ),
+            "Address is not a university"
+        );
+
+        _profiles[university] = profile;
+        emit UniversityProfileUpdated(university, msg.sender);
+    }
+
+    // Returns an empty profile for universities nobody filled in yet
+    function getProfile(
+        address university
+    ) external view returns (UniversityProfile memory) {
+        return _profiles[university];
+    }
+
+    // --- Applications ---
+
+    // Applies for the connected wallet to be registered as a university.
+    // Rejected applicants can apply again
+    function applyAsUniversity(
+        string calldata name,
+        UniversityProfile calldata profile,
+        string calldata documentsHash
+    ) external {
+        require(bytes(name).length > 0, "Name is required");
+        require(
+            bytes(documentsHash).length > 0,
+            "Accreditation documents are required"
+        );
+        require(
+            !academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                msg.sender
+            ),
+            "Already a university"
+        );
+        require(
+            _applications[msg.sender].status != ApplicationStatus.PENDING,
+            "Application already pending"
+        );
+
+        _applications[msg.sender] = UniversityApplication({
+            applicant: msg.sender,
+            name: name,
+            profile: profile,
+            documentsHash: documentsHash,
+            status: ApplicationStatus.PENDING,
+            rejectionReason: "",
+            submittedAt: block.timestamp,
+            reviewedAt: 0
+        });
+        _pendingApplicants.push(msg.sender);
+
+        emit UniversityApplicationSubmitted(msg.sender, name);
+    }
+
+    // Marks an application approved once an admin has registered the
+    // applicant with AcademicRecords.addUniversity, and publishes the
+    // submitted profile
+    function approveApplication(address applicant) external onlyAdminOrSuper {
+        UniversityApplication storage application = _reviewApplication(
+            applicant
+        );
+        require(
+            academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                applicant
+            ),
+            "Applicant is not a university"
+        );
+
+        application.status = ApplicationStatus.APPROVED;
+        _profiles[applicant] = application.profile;
+
+        emit UniversityApplicationApproved(applicant, msg.sender);
+        emit UniversityProfileUpdated(applicant, msg.sender);
+    }
+
+    function rejectApplication(
+        address applicant,
+        string calldata reason
+    ) external onlyAdminOrSuper {
+        require(bytes(reason).length > 0, "Reason is required");
+        UniversityApplication storage application = _reviewApplication(
+            applicant
+        );
+
+        application.status = ApplicationStatus.REJECTED;
+        application.rejectionReason = reason;
+
+        emit UniversityApplicationRejected(applicant, reason, msg.sender);
+    }
+
+    // Returns an application with status NONE for wallets that never applied
+    function getApplication(
+        address applicant
+    ) external view returns (UniversityApplication memory) {
+        return _applications[applicant];
+    }
+
+    function getPendingApplicants() external view returns (address[] memory) {
+        return _pendingApplicants;
+    }
+
+    // Takes a pending application off the pending list for review
+    function _reviewApplication(
+        address applicant
+    ) private returns (UniversityApplication storage application) {
+        application = _applications[applicant];
+        require(
+            application.status == ApplicationStatus.PENDING,
+            "No pending application"
+        );
+        application.reviewedAt = block.timestamp;
+
+        for (uint256 i = 0; i < _pendingApplicants.length; i++) {
+            if (_pendingApplicants[i] == applicant) {
+                _pendingApplicants[i] = _pendingApplicants[
+                    _pendingApplicants.length - 1
+                ];
+                _pendingApplicants.pop();
+                break;
+            }
+        }
+    }
+}
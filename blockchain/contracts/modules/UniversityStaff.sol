@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "../AcademicRecords.sol";
+
+// Staff accounts of the universities registered in AcademicRecords, so a
+// records office does not have to share the university wallet. Each
+// university grants and revokes the roles of its own staff. Clerks and
+// registrars submit drafts that RecordDrafts holds for review, registrars
+// publish the drafts of others, and every staff role reads the university's
+// records. Registrars only issue records directly at universities that opted
+// out of the review
+contract UniversityStaff is Initializable {
+    // Ordered by the rights they carry, each role has those of the roles
+    // before it
+    enum StaffRole {
+        NONE,
+        VIEWER,
+        CLERK,
+        REGISTRAR
+    }
+
+    struct StaffMember {
+        address account;
+        address university;
+        StaffRole role;
+        uint256 grantedAt;
+    }
+
+    AcademicRecords public academicRecords;
+    mapping(address => StaffMember) private _staff;
+    mapping(address => address[]) private _universityStaff;
+    // Universities whose registrars issue records without a second review
+    mapping(address => bool) public directIssuance;
+
+    event StaffRoleGranted(
+        address indexed university,
+        address indexed account,
+        StaffRole role
+    );
+    event StaffRoleRevoked(address indexed university, address indexed account);
+    event DirectIssuanceUpdated(address indexed university, bool allowed);
+
+    modifier onlyUniversity() {
+        require(
+            academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                msg.sender
+            ),
+            "Not a university"
+        );
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(AcademicRecords _academicRecords) external initializer {
+        academicRecords = _academicRecords;
+    }
+
+    // Adds an account to the caller's staff, or changes the role of one of
+    // its staff members
+    function grantStaffRole(
+        address account,
+        StaffRole role
+    ) external onlyUniversity {
+        require(account != address(0), "Invalid staff address");
+        require(role != StaffRole.NONE, "Invalid staff role");
+        require(
+            !academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                account
+            ),
+            "Account is a university"
+        );
+
+        StaffMember storage member = _staff[account];
+        if (member.role == StaffRole.NONE) {
+            member.account = account;
+            member.university = msg.sender;
+            _universityStaff[msg.sender].push(account);
+        } else {
+            require(
+                member.university == msg.sender,
+                "Account is staff of another university"
+            );
+        }
+        member.role = role;
+        member.grantedAt = block.timestamp;
+
+        emit StaffRoleGranted(msg.sender, account, role);
+    }
+
+    function revokeStaffRole(address account) external onlyUniversity {
+        require(
+            _staff[account].role != StaffRole.NONE &&
+                _staff[account].university == msg.sender,
+            "Not a staff member"
+        );
+        delete _staff[account];
+
+        address[] storage staff = _universityStaff[msg.sender];
+        for (uint256 i = 0; i < staff.length; i++) {
+            if (staff[i] == account) {
+                staff[i] = staff[staff.length - 1];
+                staff.pop();
+                break;
+            }
+        }
+
+        emit StaffRoleRevoked(msg.sender, account);
+    }
+
+    // Lets the caller's registrars issue records directly instead of
+    // submitting them as drafts for review. Off until the university opts in
+    function setDirectIssuance(bool allowed) external onlyUniversity {
+        directIssuance[msg.sender] = allowed;
+        emit DirectIssuanceUpdated(msg.sender, allowed);
+    }
+
+    // Returns a member with role NONE for accounts that are nobody's staff
+    function getStaffMember(
+        address account
+    ) external view returns (StaffMember memory) {
+        return _staff[account];
+    }
+
+    function getUniversityStaff(
+        address university
+    ) external view returns (StaffMember[] memory members) {
+        address[] storage staff = _universityStaff[university];
+        members = new StaffMember[](staff.length);
+        for (uint256 i = 0; i < staff.length; i++) {
+            members[i] = _staff[staff[i]];
+        }
+    }
+
+    // The university an account works for when it holds at least minRole,
+    // otherwise the zero address. Accounts registered as a university since
+    // they were granted a role act for themselves
+    function getActingUniversity(
+        address account,
+        StaffRole minRole
+    ) public view returns (address) {
+        StaffMember storage member = _staff[account];
+        if (
+            member.role < minRole ||
+            member.role == StaffRole.NONE ||
+            academicRecords.hasRole(academicRecords.UNIVERSITY_ROLE(), account)
+        ) {
+            return address(0);
+        }
+        return member.university;
+    }
+
+    // The university an account acts for in AcademicRecords and its modules.
+    // Universities act for themselves, and their staff with at least minRole
+    // act for them; reverts for everyone else
+    function resolveActingUniversity(
+        address account,
+        StaffRole minRole
+    ) public view returns (address university) {
+        university = getActingUniversity(account, minRole);
+        if (university == address(0)) university = account;
+        require(
+            academicRecords.hasRole(
+                academicRecords.UNIVERSITY_ROLE(),
+                university
+            ),
+            "Not a university or its staff"
+        );
+    }
+
+    // The university an account issues records for directly. Universities
+    // issue their own, and their registrars only where the university opted
+    // out of reviewing staff records as drafts
+    function resolveIssuingUniversity(
+        address account
+    ) external view returns (address university) {
+        university = resolveActingUniversity(account, StaffRole.REGISTRAR);
+        require(
+            university == account || directIssuance[university],
+            "Staff records need review"
+        );
+    }
+}
@@ -1,13 +1,25 @@
-import { ethers } from "hardhat";
-import fs from "fs";
-import path from "path";
+import { ethers, upgrades } from "hardhat";
+import {
+  ACADEMIC_RECORDS_PROXY_OPTIONS,
+  STUDENT_MANAGEMENT_PROXY_OPTIONS,
+  DeploymentInfo,
+  copyJsonFiles,
+  MODULES,
+  deployLibraries,
+  deployModules,
+  getModuleImplementations,
+  linkModules,
+  writeDeploymentInfo,
+} from "./shared";
 
 /**
  * Deploys the Academic Records System contracts and saves deployment details.
  *
- * Deploys the RecordStorage library and the AcademicRecords contract (linked to the library), retrieves the StudentManagement contract address and Super Admin from the deployed contracts, verifies the deployment by checking initial contract state, logs a deployment summary, and writes deployment information to a JSON file.
+ * Deploys the libraries and the contracts behind transparent proxies, links them, checks their initial state and writes the deployment information to a JSON file.
  *
- * @returns An object containing the deployed addresses for RecordStorage, AcademicRecords, StudentManagement, and the Super Admin address.
+ * Later contract changes are rolled out with `scripts/upgrade.ts`, which keeps the proxy addresses and their storage.
+ *
+ * @returns An object containing the deployed library and proxy addresses.
  */
 async function main() {
   console.log("Deploying Academic Records System...");
@@ -19,30 +31,58 @@ async function main() {
     (await deployer.provider.getBalance(deployer.address)).toString()
   );
 
-  // Step 1: Deploy RecordStorage library
-  const RecordStorage = await ethers.getContractFactory("RecordStorage");
-  const recordStorage = await RecordStorage.deploy();
-  await recordStorage.waitForDeployment();
-  const recordStorageAddress = await recordStorage.getAddress();
+  // Step 1: Deploy RecordStorage and GovernanceStorage libraries
+  const libraries = await deployLibraries();
+
+  // Step 2: Deploy StudentManagement behind a proxy, initialized in the
+  // same transaction so only the deployer can link it to AcademicRecords
+  const StudentManagement = await ethers.getContractFactory(
+    "StudentManagement"
+  );
+  const studentManagement = await upgrades.deployProxy(
+    StudentManagement,
+    [],
+    STUDENT_MANAGEMENT_PROXY_OPTIONS
+  );
+  await studentManagement.waitForDeployment();
+  const studentManagementAddress = await studentManagement.getAddress();
 
-  // Step 2: Deploy AcademicRecords
+  // Step 3: Deploy AcademicRecords behind a proxy
   const AcademicRecords = await ethers.getContractFactory("AcademicRecords", {
-    libraries: {
-      RecordStorage: recordStorageAddress,
-    },
+    libraries: { ...libraries },
   });
 
-  const academicRecords = await AcademicRecords.deploy();
+  const academicRecords = await upgrades.deployProxy(
+    AcademicRecords,
+    [studentManagementAddress],
+    ACADEMIC_RECORDS_PROXY_OPTIONS
+  );
   await academicRecords.waitForDeployment();
   const academicRecordsAddress = await academicRecords.getAddress();
 
-  // Step 3: Get StudentManagement address
-  const studentManagementAddress = await academicRecords.studentManagement();
+  // Lock StudentManagement to the AcademicRecords proxy as its only caller
+  await (
+    await studentManagement.setAcademicRecords(academicRecordsAddress)
+  ).wait();
+
+  // Step 4: Deploy the modules behind their own proxies
+  const modules = await deployModules(academicRecordsAddress);
+  await linkModules(academicRecords, modules);
+
+  const implementations = {
+    AcademicRecords: await upgrades.erc1967.getImplementationAddress(
+      academicRecordsAddress
+    ),
+    StudentManagement: await upgrades.erc1967.getImplementationAddress(
+      studentManagementAddress
+    ),
+    ...(await getModuleImplementations(modules)),
+  };
 
-  // Step 4: Get Super Admin
+  // Step 5: Get Super Admin
   const superAdmin = await academicRecords.SUPER_ADMIN();
 
-  // Step 5: Verify deployment
+  // Step 6: Verify deployment
   try {
     const totalRecords = await academicRecords.getTotalRecords();
     const totalCustomTypes = await academicRecords.getTotalCustomTypes();
@@ -53,71 +93,46 @@ async function main() {
     throw error;
   }
 
-  // Step 6: Log summary
+  // Step 7: Log summary
   const network = (await deployer.provider.getNetwork()).name;
   console.log("\n📋 Deployment Summary:");
-  console.log(`RecordStorage Library: ${recordStorageAddress}`);
-  console.log(`AcademicRecords Contract: ${academicRecordsAddress}`);
-  console.log(`StudentManagement Contract: ${studentManagementAddress}`);
+  console.log(`RecordStorage Library: ${libraries.RecordStorage}`);
+  console.log(`GovernanceStorage Library: ${libraries.GovernanceStorage}`);
+  console.log(`AcademicRecords Proxy: ${academicRecordsAddress}`);
+  console.log(
+    `AcademicRecords Implementation: ${implementations.AcademicRecords}`
+  );
+  console.log(`StudentManagement Proxy: ${studentManagementAddress}`);
+  console.log(
+    `StudentManagement Implementation: ${implementations.StudentManagement}`
+  );
+  for (const name of MODULES) {
+    console.log(`${name} Proxy: ${modules[name]}`);
+    console.log(`${name} Implementation: ${implementations[name]}`);
+  }
   console.log(`Super Admin: ${superAdmin}`);
   console.log(`Network: ${network}`);
 
-  // Step 7: Save to file
-  const deploymentInfo = {
+  // Step 8: Save to file
+  const timestamp = new Date().toISOString();
+  const deploymentInfo: DeploymentInfo = {
     network,
-    timestamp: new Date().toISOString(),
+    timestamp,
     superAdmin,
     contracts: {
-      RecordStorage: recordStorageAddress,
+      ...libraries,
       AcademicRecords: academicRecordsAddress,
       StudentManagement: studentManagementAddress,
+      ...modules,
     },
+    implementations,
+    versions: [{ version: 1, timestamp, implementations, libraries }],
   };
-  fs.writeFileSync(
-    "deployment-info.json",
-    JSON.stringify(deploymentInfo, null, 2)
-  );
+  writeDeploymentInfo(deploymentInfo);
 
   return deploymentInfo.contracts;
 }
 
-/**
- * Copies all `.json` files (excluding `.dbg.json`) from a nested directory to a flat output directory.
- * @param {string} inputDir - Source directory path.
- * @param {string} outputDir - Destination directory path.
- */
-function copyJsonFiles(
-  inputDir = "/Users/anishshrestha/learning/solidity/blockchain-record-keeping/blockchain/artifacts/contracts",
-  outputDir = "/Users/anishshrestha/learning/solidity/blockchain-record-keeping/src/contracts"
-) {
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
-
-  function traverseAndCopy(inputDir: string) {
-    const files = fs.readdirSync(inputDir);
-
-    files.forEach((file) => {
-      const fullPath = path.join(inputDir, file);
-      const stat = fs.statSync(fullPath);
-
-      if (stat.isDirectory()) {
-        traverseAndCopy(fullPath);
-      } else if (
-        stat.isFile() &&
-        file.endsWith(".json") &&
-        !file.endsWith(".dbg.json")
-      ) {
-        const destPath = path.join(outputDir, file);
-        fs.copyFileSync(fullPath, destPath);
-        console.log(`Copied: ${file}`);
-      }
-    });
-  }
-
-  traverseAndCopy(inputDir);
-}
-
 main()
   .then((addresses) => {
     console.log("\n🎉 Deployment completed successfully!");
@@ -0,0 +1,217 @@
+import { ethers, upgrades } from "hardhat";
+import fs from "fs";
+import path from "path";
+
+export const DEPLOYMENT_INFO_FILE = "deployment-info.json";
+
+// AcademicRecords links the RecordStorage and GovernanceStorage libraries.
+// They only operate on storage passed by reference, so linking them is
+// upgrade safe
+export const ACADEMIC_RECORDS_PROXY_OPTIONS = {
+  kind: "transparent" as const,
+  unsafeAllowLinkedLibraries: true,
+};
+
+export const STUDENT_MANAGEMENT_PROXY_OPTIONS = {
+  kind: "transparent" as const,
+};
+
+// Module contracts that read roles and records from the AcademicRecords
+// proxy, each initialized with its address
+export const MODULES = [
+  "AccessLog",
+  "UniversityProfiles",
+  "UniversityStaff",
+  "RecordDrafts",
+  "RecordCosigning",
+] as const;
+
+export type ModuleName = (typeof MODULES)[number];
+
+export type ModuleAddresses = { [name in ModuleName]: string };
+
+export const MODULE_PROXY_OPTIONS = {
+  kind: "transparent" as const,
+};
+
+export interface LibraryAddresses {
+  RecordStorage: string;
+  GovernanceStorage: string;
+}
+
+export interface ImplementationAddresses extends ModuleAddresses {
+  AcademicRecords: string;
+  StudentManagement: string;
+}
+
+// One entry per deployed or upgraded implementation
+export interface DeploymentVersion {
+  version: number;
+  timestamp: string;
+  implementations: ImplementationAddresses;
+  libraries: LibraryAddresses;
+}
+
+export interface DeploymentInfo {
+  network: string;
+  timestamp: string;
+  superAdmin: string;
+  // Proxy addresses for AcademicRecords, StudentManagement and the modules,
+  // which stay the same across upgrades
+  contracts: LibraryAddresses &
+    ModuleAddresses & {
+      AcademicRecords: string;
+      StudentManagement: string;
+    };
+  implementations: ImplementationAddresses;
+  versions: DeploymentVersion[];
+}
+
+/**
+ * Deploys the RecordStorage and GovernanceStorage libraries.
+ *
+ * @returns The deployed library addresses, keyed by library name for linking.
+ */
+export async function deployLibraries(): Promise<LibraryAddresses> {
+  const RecordStorage = await ethers.getContractFactory("RecordStorage");
+  const recordStorage = await RecordStorage.deploy();
+  await recordStorage.waitForDeployment();
+
+  const GovernanceStorage = await ethers.getContractFactory(
+    "GovernanceStorage"
+  );
+  const governanceStorage = await GovernanceStorage.deploy();
+  await governanceStorage.waitForDeployment();
+
+  return {
+    RecordStorage: await recordStorage.getAddress(),
+    GovernanceStorage: await governanceStorage.getAddress(),
+  };
+}
+
+/**
+ * Deploys a module behind a proxy, reading roles and records from the given AcademicRecords proxy.
+ *
+ * @returns The module proxy address.
+ */
+export async function deployModule(
+  name: ModuleName,
+  academicRecordsAddress: string
+): Promise<string> {
+  const Module = await ethers.getContractFactory(name);
+  const module = await upgrades.deployProxy(
+    Module,
+    [academicRecordsAddress],
+    MODULE_PROXY_OPTIONS
+  );
+  await module.waitForDeployment();
+  return await module.getAddress();
+}
+
+/**
+ * Points AcademicRecords at the modules it calls itself: UniversityStaff, to let staff act for their university, RecordDrafts, to publish reviewed drafts, and RecordCosigning, to hold back joint records until their co-signers signed. Must be sent by the super admin; modules that are already linked are left alone.
+ */
+export async function linkModules(
+  academicRecords: any,
+  modules: ModuleAddresses
+): Promise<void> {
+  if ((await academicRecords.universityStaff()) !== modules.UniversityStaff) {
+    const tx = await academicRecords.setUniversityStaff(
+      modules.UniversityStaff
+    );
+    await tx.wait();
+  }
+  if ((await academicRecords.recordDrafts()) !== modules.RecordDrafts) {
+    const tx = await academicRecords.setRecordDrafts(modules.RecordDrafts);
+    await tx.wait();
+  }
+  if ((await academicRecords.recordCosigning()) !== modules.RecordCosigning) {
+    const tx = await academicRecords.setRecordCosigning(
+      modules.RecordCosigning
+    );
+    await tx.wait();
+  }
+}
+
+/**
+ * Deploys every module behind its own proxy.
+ *
+ * @returns The module proxy addresses, keyed by contract name.
+ */
+export async function deployModules(
+  academicRecordsAddress: string
+): Promise<ModuleAddresses> {
+  const modules = {} as ModuleAddresses;
+  for (const name of MODULES) {
+    modules[name] = await deployModule(name, academicRecordsAddress);
+  }
+  return modules;
+}
+
+/**
+ * Looks up the implementation behind each module proxy.
+ *
+ * @returns The module implementation addresses, keyed by contract name.
+ */
+export async function getModuleImplementations(
+  modules: ModuleAddresses
+): Promise<ModuleAddresses> {
+  const implementations = {} as ModuleAddresses;
+  for (const name of MODULES) {
+    implementations[name] = await upgrades.erc1967.getImplementationAddress(
+      modules[name]
+    );
+  }
+  return implementations;
+}
+
+export function readDeploymentInfo(): DeploymentInfo {
+  if (!fs.existsSync(DEPLOYMENT_INFO_FILE)) {
+    throw new Error(`${DEPLOYMENT_INFO_FILE} not found, run deploy.ts first`);
+  }
+  return JSON.parse(fs.readFileSync(DEPLOYMENT_INFO_FILE, "utf8"));
+}
+
+export function writeDeploymentInfo(deploymentInfo: DeploymentInfo) {
+  fs.writeFileSync(
+    DEPLOYMENT_INFO_FILE,
+    JSON.stringify(deploymentInfo, null, 2)
+  );
+}
+
+/**
+ * Copies all `.json` files (excluding `.dbg.json`) from a nested directory to a flat output directory.
+ * @param {string} inputDir - Source directory path.
+ * @param {string} outputDir - Destination directory path.
+ */
+export function copyJsonFiles(
+  inputDir = "/Users/anishshrestha/learning/solidity/blockchain-record-keeping/blockchain/artifacts/contracts",
+  outputDir = "/Users/anishshrestha/learning/solidity/blockchain-record-keeping/src/contracts"
+) {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  function traverseAndCopy(inputDir: string) {
+    const files = fs.readdirSync(inputDir);
+
+    files.forEach((file) => {
+      const fullPath = path.join(inputDir, file);
+      const stat = fs.statSync(fullPath);
+
+      if (stat.isDirectory()) {
+        traverseAndCopy(fullPath);
+      } else if (
+        stat.isFile() &&
+        file.endsWith(".json") &&
+        !file.endsWith(".dbg.json")
+      ) {
+        const destPath = path.join(outputDir, file);
+        fs.copyFileSync(fullPath, destPath);
+        console.log(`Copied: ${file}`);
+      }
+    });
+  }
+
+  traverseAndCopy(inputDir);
+}
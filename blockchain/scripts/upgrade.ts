@@ -0,0 +1,185 @@
+import { ethers, upgrades } from "hardhat";
+import {
+  ACADEMIC_RECORDS_PROXY_OPTIONS,
+  MODULES,
+  MODULE_PROXY_OPTIONS,
+  ModuleAddresses,
+  STUDENT_MANAGEMENT_PROXY_OPTIONS,
+  copyJsonFiles,
+  deployLibraries,
+  deployModule,
+  getModuleImplementations,
+  linkModules,
+  readDeploymentInfo,
+  writeDeploymentInfo,
+} from "./shared";
+
+/**
+ * Upgrades the deployed AcademicRecords, StudentManagement and module proxies to the current contract code.
+ *
+ * Reads the proxy addresses from `deployment-info.json`, validates that the new implementations are upgrade safe and keep a compatible storage layout, deploys fresh RecordStorage and GovernanceStorage libraries, and points the proxies at the new implementations. Modules missing from older deployments get a new proxy instead, and UniversityStaff, RecordDrafts and RecordCosigning are linked to AcademicRecords when they are new. The proxy addresses, and with them all records, roles and students, stay the same. Appends the new implementation version to `deployment-info.json`.
+ *
+ * The storage layout check compares against the manifest in `.openzeppelin/`, which is written on deployment and must be kept with the repository for every public network.
+ *
+ * @returns The new version entry recorded in `deployment-info.json`.
+ */
+async function main() {
+  const deploymentInfo = readDeploymentInfo();
+
+  const [deployer] = await ethers.getSigners();
+  const network = (await deployer.provider.getNetwork()).name;
+  if (network !== deploymentInfo.network) {
+    throw new Error(
+      `deployment-info.json is for ${deploymentInfo.network}, not ${network}`
+    );
+  }
+  if (!deploymentInfo.versions) {
+    throw new Error(
+      "This deployment predates proxies and cannot be upgraded, deploy it again with deploy.ts"
+    );
+  }
+
+  console.log("Upgrading Academic Records System...");
+  console.log("Upgrading with account:", deployer.address);
+
+  const { AcademicRecords: academicRecordsAddress } = deploymentInfo.contracts;
+  const { StudentManagement: studentManagementAddress } =
+    deploymentInfo.contracts;
+
+  // Step 1: Validate the implementations before deploying anything
+  const StudentManagement = await ethers.getContractFactory(
+    "StudentManagement"
+  );
+  await upgrades.validateUpgrade(
+    studentManagementAddress,
+    StudentManagement,
+    STUDENT_MANAGEMENT_PROXY_OPTIONS
+  );
+
+  // Library addresses do not affect the storage layout, so the current ones
+  // are linked for validation
+  const currentLibraries = {
+    RecordStorage: deploymentInfo.contracts.RecordStorage,
+    GovernanceStorage: deploymentInfo.contracts.GovernanceStorage,
+  };
+  await upgrades.validateUpgrade(
+    academicRecordsAddress,
+    await ethers.getContractFactory("AcademicRecords", {
+      libraries: currentLibraries,
+    }),
+    ACADEMIC_RECORDS_PROXY_OPTIONS
+  );
+
+  for (const name of MODULES) {
+    if (deploymentInfo.contracts[name]) {
+      await upgrades.validateUpgrade(
+        deploymentInfo.contracts[name],
+        await ethers.getContractFactory(name),
+        MODULE_PROXY_OPTIONS
+      );
+    }
+  }
+
+  // Step 2: Deploy the libraries used by the new implementation
+  const libraries = await deployLibraries();
+
+  // Step 3: Upgrade the proxies
+  await upgrades.upgradeProxy(
+    studentManagementAddress,
+    StudentManagement,
+    STUDENT_MANAGEMENT_PROXY_OPTIONS
+  );
+  await upgrades.upgradeProxy(
+    academicRecordsAddress,
+    await ethers.getContractFactory("AcademicRecords", {
+      libraries: { ...libraries },
+    }),
+    ACADEMIC_RECORDS_PROXY_OPTIONS
+  );
+  const modules = {} as ModuleAddresses;
+  for (const name of MODULES) {
+    if (deploymentInfo.contracts[name]) {
+      await upgrades.upgradeProxy(
+        deploymentInfo.contracts[name],
+        await ethers.getContractFactory(name),
+        MODULE_PROXY_OPTIONS
+      );
+      modules[name] = deploymentInfo.contracts[name];
+    } else {
+      modules[name] = await deployModule(name, academicRecordsAddress);
+    }
+  }
+  await linkModules(
+    await ethers.getContractAt("AcademicRecords", academicRecordsAddress),
+    modules
+  );
+
+  const implementations = {
+    AcademicRecords: await upgrades.erc1967.getImplementationAddress(
+      academicRecordsAddress
+    ),
+    StudentManagement: await upgrades.erc1967.getImplementationAddress(
+      studentManagementAddress
+    ),
+    ...(await getModuleImplementations(modules)),
+  };
+
+  // Step 4: Record the new version
+  const version = {
+    version: deploymentInfo.versions.length + 1,
+    timestamp: new Date().toISOString(),
+    implementations,
+    libraries,
+  };
+  writeDeploymentInfo({
+    ...deploymentInfo,
+    contracts: {
+      ...deploymentInfo.contracts,
+      ...libraries,
+      ...modules,
+    },
+    implementations,
+    versions: [...deploymentInfo.versions, version],
+  });
+
+  console.log("\n📋 Upgrade Summary:");
+  console.log(`Version: ${version.version}`);
+  console.log(`AcademicRecords Proxy: ${academicRecordsAddress}`);
+  console.log(
+    `AcademicRecords Implementation: ${implementations.AcademicRecords}`
+  );
+  console.log(`StudentManagement Proxy: ${studentManagementAddress}`);
+  console.log(
+    `StudentManagement Implementation: ${implementations.StudentManagement}`
+  );
+  for (const name of MODULES) {
+    console.log(`${name} Proxy: ${modules[name]}`);
+    console.log(`${name} Implementation: ${implementations[name]}`);
+  }
+  console.log(`RecordStorage Library: ${libraries.RecordStorage}`);
+  console.log(`GovernanceStorage Library: ${libraries.GovernanceStorage}`);
+  console.log(`Network: ${network}`);
+
+  return version;
+}
+
+main()
+  .then(() => {
+    console.log("\n🎉 Upgrade completed successfully!");
+
+    console.log("\n📂 Copying ABI files...");
+    try {
+      copyJsonFiles();
+      console.log("✅ ABI files copied successfully!");
+    } catch (copyError) {
+      console.error("❌ Failed to copy ABI files:");
+      console.error(copyError);
+    }
+
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n💥 Upgrade failed:");
+    console.error(error);
+    process.exit(1);
+  });
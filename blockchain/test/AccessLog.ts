@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployAcademicRecords, deployAccessLog } from "./helpers/deploy";
+
+describe("Access Log", function () {
+  let academicRecords: any;
+  let accessLog: any;
+  let university: any;
+  let student: any;
+  let employer: any;
+  let relayer: any;
+
+  const ONE_DAY = 24 * 60 * 60;
+
+  // Signs an access receipt the way the frontend does
+  const signAccess = async (
+    accessor: any,
+    recordId: number,
+    accessedAt: number
+  ) => {
+    const domain = {
+      name: "AcademicRecordsAccessLog",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await accessLog.getAddress(),
+    };
+    const types = {
+      RecordAccess: [
+        { name: "recordId", type: "uint256" },
+        { name: "accessor", type: "address" },
+        { name: "accessedAt", type: "uint256" },
+      ],
+    };
+    return accessor.signTypedData(domain, types, {
+      recordId,
+      accessor: accessor.address,
+      accessedAt,
+    });
+  };
+
+  beforeEach(async function () {
+    [, university, student, employer, relayer] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    accessLog = await deployAccessLog(academicRecords);
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+    await academicRecords.connect(student).shareRecord(1, employer.address, 0);
+  });
+
+  it("Should log an access signed by the viewer and relayed by anyone", async function () {
+    const accessedAt = await time.latest();
+    const signature = await signAccess(employer, 1, accessedAt);
+
+    await expect(
+      accessLog
+        .connect(relayer)
+        .logAccess(1, employer.address, accessedAt, signature)
+    )
+      .to.emit(accessLog, "RecordAccessed")
+      .withArgs(1, employer.address, accessedAt, relayer.address);
+  });
+
+  it("Should not log the same receipt twice", async function () {
+    const accessedAt = await time.latest();
+    const signature = await signAccess(employer, 1, accessedAt);
+    await accessLog.logAccess(1, employer.address, accessedAt, signature);
+
+    await expect(
+      accessLog.logAccess(1, employer.address, accessedAt, signature)
+    ).to.be.revertedWith("Access already logged");
+  });
+
+  it("Should reject receipts not signed by the accessor", async function () {
+    const accessedAt = await time.latest();
+    const signature = await signAccess(relayer, 1, accessedAt);
+
+    await expect(
+      accessLog.logAccess(1, employer.address, accessedAt, signature)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("Should only log accesses by wallets the record is shared with", async function () {
+    const accessedAt = await time.latest();
+    const signature = await signAccess(relayer, 1, accessedAt);
+
+    await expect(
+      accessLog.logAccess(1, relayer.address, accessedAt, signature)
+    ).to.be.revertedWith("Record not shared with accessor");
+  });
+
+  it("Should reject expired receipts", async function () {
+    const accessedAt = await time.latest();
+    const signature = await signAccess(employer, 1, accessedAt);
+    await time.increase(ONE_DAY + 1);
+
+    await expect(
+      accessLog.logAccess(1, employer.address, accessedAt, signature)
+    ).to.be.revertedWith("Access receipt expired");
+  });
+
+  it("Should log accesses of a record by the same wallet at most hourly", async function () {
+    const accessedAt = await time.latest();
+    await accessLog.logAccess(
+      1,
+      employer.address,
+      accessedAt,
+      await signAccess(employer, 1, accessedAt)
+    );
+
+    await expect(
+      accessLog.logAccess(
+        1,
+        employer.address,
+        accessedAt + 1,
+        await signAccess(employer, 1, accessedAt + 1)
+      )
+    ).to.be.revertedWith("Access logged recently");
+    await expect(
+      accessLog.logAccess(
+        1,
+        employer.address,
+        accessedAt - 60,
+        await signAccess(employer, 1, accessedAt - 60)
+      )
+    ).to.be.revertedWith("Access logged recently");
+
+    await time.increase(60 * 60);
+    const nextAccess = await time.latest();
+    await expect(
+      accessLog.logAccess(
+        1,
+        employer.address,
+        nextAccess,
+        await signAccess(employer, 1, nextAccess)
+      )
+    ).to.emit(accessLog, "RecordAccessed");
+  });
+});
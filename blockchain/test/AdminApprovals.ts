@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Admin Approvals", function () {
+  let academicRecords: any;
+  let superAdmin: any;
+  let admin1: any;
+  let admin2: any;
+  let university: any;
+  let newAdmin: any;
+
+  const ADD_ADMIN = 0;
+  const REMOVE_UNIVERSITY = 2;
+  const PAUSE = 3;
+  const SET_THRESHOLD = 5;
+  const EXECUTED = 1;
+  const REJECTED = 2;
+
+  beforeEach(async function () {
+    [superAdmin, admin1, admin2, university, newAdmin] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addAdmin(admin1.address);
+    await academicRecords.addAdmin(admin2.address);
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.setApprovalThreshold(2);
+  });
+
+  it("Should require proposals once the threshold is above one", async function () {
+    await expect(
+      academicRecords.removeUniversity(university.address)
+    ).to.be.revertedWith("Requires multi-admin approval");
+    await expect(academicRecords.connect(admin1).pause()).to.be.revertedWith(
+      "Requires multi-admin approval"
+    );
+    await expect(academicRecords.addAdmin(newAdmin.address)).to.be.revertedWith(
+      "Requires multi-admin approval"
+    );
+  });
+
+  it("Should execute a proposal once enough admins approve", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(REMOVE_UNIVERSITY, university.address, 0);
+
+    const UNIVERSITY_ROLE = await academicRecords.UNIVERSITY_ROLE();
+    expect(
+      await academicRecords.hasRole(UNIVERSITY_ROLE, university.address)
+    ).to.equal(true);
+    expect(await academicRecords.getPendingProposals()).to.deep.equal([
+      BigInt(1),
+    ]);
+
+    await expect(academicRecords.connect(admin2).approveProposal(1))
+      .to.emit(academicRecords, "ProposalExecuted")
+      .withArgs(1);
+
+    expect(
+      await academicRecords.hasRole(UNIVERSITY_ROLE, university.address)
+    ).to.equal(false);
+    expect((await academicRecords.getProposal(1)).status).to.equal(EXECUTED);
+    expect(await academicRecords.getPendingProposals()).to.deep.equal([]);
+  });
+
+  it("Should execute pause and admin proposals", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(PAUSE, ethers.ZeroAddress, 0);
+    await academicRecords.approveProposal(1);
+    expect(await academicRecords.paused()).to.equal(true);
+
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(ADD_ADMIN, newAdmin.address, 0);
+    await academicRecords.connect(admin2).approveProposal(2);
+    const ADMIN_ROLE = await academicRecords.ADMIN_ROLE();
+    expect(
+      await academicRecords.hasRole(ADMIN_ROLE, newAdmin.address)
+    ).to.equal(true);
+  });
+
+  it("Should not count the same admin twice", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(REMOVE_UNIVERSITY, university.address, 0);
+
+    await expect(
+      academicRecords.connect(admin1).approveProposal(1)
+    ).to.be.revertedWith("Already voted");
+  });
+
+  it("Should reject a proposal once the threshold is out of reach", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(REMOVE_UNIVERSITY, university.address, 0);
+
+    await academicRecords.connect(admin2).rejectProposal(1);
+    expect((await academicRecords.getProposal(1)).status).to.equal(0);
+
+    await expect(academicRecords.rejectProposal(1))
+      .to.emit(academicRecords, "ProposalRejected")
+      .withArgs(1, superAdmin.address);
+    expect((await academicRecords.getProposal(1)).status).to.equal(REJECTED);
+    await expect(
+      academicRecords.connect(admin2).approveProposal(1)
+    ).to.be.revertedWith("Proposal is not open");
+  });
+
+  it("Should expire pending proposals", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(REMOVE_UNIVERSITY, university.address, 0);
+
+    await time.increase(Number(await academicRecords.PROPOSAL_DURATION()) + 1);
+
+    expect(await academicRecords.getPendingProposals()).to.deep.equal([]);
+    await expect(
+      academicRecords.connect(admin2).approveProposal(1)
+    ).to.be.revertedWith("Proposal is not open");
+  });
+
+  it("Should only accept thresholds up to the number of admins", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(SET_THRESHOLD, ethers.ZeroAddress, 4);
+
+    await expect(
+      academicRecords.connect(admin2).approveProposal(1)
+    ).to.be.revertedWith("Invalid threshold");
+
+    await academicRecords
+      .connect(admin1)
+      .proposeAction(SET_THRESHOLD, ethers.ZeroAddress, 3);
+    await academicRecords.connect(admin2).approveProposal(2);
+    expect(await academicRecords.approvalThreshold()).to.equal(3);
+  });
+
+  it("Should not let the super admin change roles outside of proposals", async function () {
+    const ADMIN_ROLE = await academicRecords.ADMIN_ROLE();
+    const UNIVERSITY_ROLE = await academicRecords.UNIVERSITY_ROLE();
+
+    await expect(
+      academicRecords.grantRole(ADMIN_ROLE, newAdmin.address)
+    ).to.be.revertedWith("Use the role manager functions");
+    await expect(
+      academicRecords.revokeRole(UNIVERSITY_ROLE, university.address)
+    ).to.be.revertedWith("Use the role manager functions");
+    await expect(
+      academicRecords.connect(admin1).renounceRole(ADMIN_ROLE, admin1.address)
+    ).to.be.revertedWith("Use the role manager functions");
+
+    expect(
+      await academicRecords.hasRole(ADMIN_ROLE, newAdmin.address)
+    ).to.equal(false);
+    expect(
+      await academicRecords.hasRole(UNIVERSITY_ROLE, university.address)
+    ).to.equal(true);
+    expect(await academicRecords.getAllAdmins()).to.have.length(3);
+  });
+
+  it("Should only let admins propose actions", async function () {
+    await expect(
+      academicRecords
+        .connect(university)
+        .proposeAction(PAUSE, ethers.ZeroAddress, 0)
+    ).to.be.revertedWith("Not admin or super admin");
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Batch Issuance", function () {
+  let academicRecords: any;
+  let university: any;
+  let students: any[];
+
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  const issueBatch = (
+    studentIds: string[],
+    addresses: string[],
+    ipfsHashes: string[] = studentIds.map(() => ipfsHash)
+  ) =>
+    academicRecords.connect(university).addRecordsBatch(
+      studentIds,
+      studentIds.map((id) => `Student ${id}`),
+      addresses,
+      "Example University",
+      ipfsHashes,
+      studentIds.map(() => metadataHash),
+      studentIds.map(() => 2),
+      0,
+      0,
+      0
+    );
+
+  beforeEach(async function () {
+    let signers: any[];
+    [, university, ...signers] = await ethers.getSigners();
+    students = signers.slice(0, 3);
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+  });
+
+  it("Should issue every record in the batch", async function () {
+    const tx = await issueBatch(
+      ["S1", "S2", "S3"],
+      students.map((s) => s.address)
+    );
+
+    await expect(tx)
+      .to.emit(academicRecords, "RecordAdded")
+      .withArgs(1, "S1", 2, university.address);
+    await expect(tx)
+      .to.emit(academicRecords, "RecordAdded")
+      .withArgs(3, "S3", 2, university.address);
+
+    const record = await academicRecords.getRecord(2);
+    expect(record.studentId).to.equal("S2");
+    expect(record.studentAddress).to.equal(students[1].address);
+    expect(
+      (await academicRecords.connect(university).getUniversityRecords()).length
+    ).to.equal(3);
+  });
+
+  it("Should skip and report invalid entries", async function () {
+    const tx = await issueBatch(
+      ["S1", "S2", "S3"],
+      [students[0].address, ethers.ZeroAddress, students[2].address],
+      [ipfsHash, ipfsHash, ""]
+    );
+
+    await expect(tx)
+      .to.emit(academicRecords, "RecordBatchEntryFailed")
+      .withArgs(1, "S2", "Invalid student address");
+    await expect(tx)
+      .to.emit(academicRecords, "RecordBatchEntryFailed")
+      .withArgs(2, "S3", "Invalid IPFS hash");
+
+    const recordIds = await academicRecords
+      .connect(university)
+      .getUniversityRecords();
+    expect(recordIds).to.deep.equal([BigInt(1)]);
+  });
+
+  it("Should reject an address registered to another student", async function () {
+    await issueBatch(["S1"], [students[0].address]);
+
+    await expect(issueBatch(["S2"], [students[0].address]))
+      .to.emit(academicRecords, "RecordBatchEntryFailed")
+      .withArgs(0, "S2", "Address belongs to another student");
+  });
+
+  it("Should enforce the batch size limit and matching arrays", async function () {
+    const maxBatchSize = Number(await academicRecords.MAX_BATCH_SIZE());
+    const ids = Array.from({ length: maxBatchSize + 1 }, (_, i) => `S${i}`);
+
+    await expect(
+      issueBatch(
+        ids,
+        ids.map(() => students[0].address)
+      )
+    ).to.be.revertedWith("Invalid batch size");
+    await expect(issueBatch([], [])).to.be.revertedWith("Invalid batch size");
+    await expect(
+      issueBatch(["S1", "S2"], [students[0].address])
+    ).to.be.revertedWith("Array length mismatch");
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Custom Record Types", function () {
+  let academicRecords: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+
+  const OTHER = 31;
+
+  const issue = (issuer: any, recordType: number, customTypeId: number) =>
+    academicRecords
+      .connect(issuer)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        recordType,
+        customTypeId,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    await academicRecords
+      .connect(university)
+      .addCustomRecordType(
+        "Research Certificate",
+        "Certificate for completed research work"
+      );
+  });
+
+  it("Should issue a record with an active custom type", async function () {
+    await issue(university, OTHER, 1);
+
+    const record = await academicRecords.getRecord(1);
+    expect(record.recordType).to.equal(OTHER);
+    expect(record.customTypeId).to.equal(1);
+  });
+
+  it("Should require custom typed records to use OTHER", async function () {
+    await expect(issue(university, 0, 1)).to.be.revertedWith(
+      "Custom type must use OTHER"
+    );
+  });
+
+  it("Should reject inactive custom types", async function () {
+    await academicRecords.connect(university).updateCustomRecordType(1, false);
+
+    await expect(issue(university, OTHER, 1)).to.be.revertedWith(
+      "Invalid custom type"
+    );
+  });
+
+  it("Should reject custom types of another university", async function () {
+    await expect(issue(otherUniversity, OTHER, 1)).to.be.revertedWith(
+      "Invalid custom type"
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { buildMerkleTree } from "../../src/lib/merkle";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Merkle Anchoring", function () {
+  let academicRecords: any;
+  let owner: any;
+  let university: any;
+  let students: any[];
+  let records: any[];
+
+  const ADMIT_CARD = 12;
+
+  beforeEach(async function () {
+    let signers: any[];
+    [owner, university, ...signers] = await ethers.getSigners();
+    students = signers.slice(0, 3);
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+
+    records = students.map((student, index) => ({
+      studentId: `S${index}`,
+      studentName: `Student ${index}`,
+      studentAddress: student.address,
+      ipfsHash: "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+      recordType: ADMIT_CARD,
+    }));
+  });
+
+  it("Should anchor a batch root and verify every proof", async function () {
+    const tree = buildMerkleTree(records);
+
+    await expect(
+      academicRecords
+        .connect(university)
+        .anchorRecordBatch(tree.root, records.length)
+    )
+      .to.emit(academicRecords, "BatchAnchored")
+      .withArgs(1, tree.root, university.address, records.length);
+
+    const batch = await academicRecords.getAnchoredBatch(1);
+    expect(batch.merkleRoot).to.equal(tree.root);
+    expect(batch.issuer).to.equal(university.address);
+
+    for (let i = 0; i < records.length; i++) {
+      expect(
+        await academicRecords.verifyAnchoredRecord(
+          1,
+          records[i],
+          tree.proofs[i]
+        )
+      ).to.equal(true);
+    }
+  });
+
+  it("Should reject altered records and foreign proofs", async function () {
+    const tree = buildMerkleTree(records);
+    await academicRecords
+      .connect(university)
+      .anchorRecordBatch(tree.root, records.length);
+
+    const altered = { ...records[0], studentName: "Someone Else" };
+    expect(
+      await academicRecords.verifyAnchoredRecord(1, altered, tree.proofs[0])
+    ).to.equal(false);
+    expect(
+      await academicRecords.verifyAnchoredRecord(1, records[0], tree.proofs[1])
+    ).to.equal(false);
+  });
+
+  it("Should stop verifying once the issuer loses its university role", async function () {
+    const tree = buildMerkleTree(records);
+    await academicRecords
+      .connect(university)
+      .anchorRecordBatch(tree.root, records.length);
+
+    await academicRecords.connect(owner).removeUniversity(university.address);
+
+    expect(
+      await academicRecords.verifyAnchoredRecord(1, records[0], tree.proofs[0])
+    ).to.equal(false);
+  });
+
+  it("Should only let universities anchor batches", async function () {
+    const tree = buildMerkleTree(records);
+
+    await expect(
+      academicRecords
+        .connect(students[0])
+        .anchorRecordBatch(tree.root, records.length)
+    ).to.be.reverted;
+    await expect(
+      academicRecords
+        .connect(university)
+        .anchorRecordBatch(ethers.ZeroHash, records.length)
+    ).to.be.revertedWith("Invalid Merkle root");
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Pagination", function () {
+  let academicRecords: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+  let admins: any[];
+
+  const issueRecord = (issuer: any, studentId: string) =>
+    academicRecords
+      .connect(issuer)
+      .addRecord(
+        studentId,
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student, ...admins] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    for (let i = 0; i < 5; i++) {
+      await issueRecord(university, "S12345");
+    }
+    await issueRecord(otherUniversity, "S12345");
+  });
+
+  it("Should page through the records of a university", async function () {
+    const [firstPage, total] = await academicRecords
+      .connect(university)
+      .getUniversityRecordsPage(0, 2);
+    expect(firstPage).to.deep.equal([BigInt(1), BigInt(2)]);
+    expect(total).to.equal(5);
+
+    const [lastPage] = await academicRecords
+      .connect(university)
+      .getUniversityRecordsPage(4, 2);
+    expect(lastPage).to.deep.equal([BigInt(5)]);
+  });
+
+  it("Should page through the records of a student", async function () {
+    const [page, total] = await academicRecords.getStudentRecordsPage(
+      "S12345",
+      3,
+      10
+    );
+    expect(page).to.deep.equal([BigInt(4), BigInt(5), BigInt(6)]);
+    expect(total).to.equal(6);
+  });
+
+  it("Should return an empty page past the end of a list", async function () {
+    const [page, total] = await academicRecords.getStudentRecordsPage(
+      "S12345",
+      10,
+      10
+    );
+    expect(page.length).to.equal(0);
+    expect(total).to.equal(6);
+
+    const [unbounded] = await academicRecords.getStudentRecordsPage(
+      "S12345",
+      1,
+      ethers.MaxUint256
+    );
+    expect(unbounded.length).to.equal(5);
+  });
+
+  it("Should only page university records for universities", async function () {
+    await expect(
+      academicRecords.connect(student).getUniversityRecordsPage(0, 10)
+    ).to.be.reverted;
+  });
+
+  it("Should page through universities and admins", async function () {
+    const [universities, totalUniversities] =
+      await academicRecords.getUniversitiesPage(1, 10);
+    expect(universities).to.deep.equal([otherUniversity.address]);
+    expect(totalUniversities).to.equal(2);
+
+    for (const admin of admins.slice(0, 3)) {
+      await academicRecords.addAdmin(admin.address);
+    }
+    const allAdmins = await academicRecords.getAllAdmins();
+    const [page, totalAdmins] = await academicRecords.getAdminsPage(1, 2);
+    expect(page).to.deep.equal(allAdmins.slice(1, 3));
+    expect(totalAdmins).to.equal(allAdmins.length);
+  });
+});
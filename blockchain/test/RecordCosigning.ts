@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployAcademicRecords,
+  deployRecordCosigning,
+  deployUniversityStaff,
+} from "./helpers/deploy";
+
+describe("Record Cosigning", function () {
+  let academicRecords: any;
+  let universityStaff: any;
+  let recordCosigning: any;
+  let university: any;
+  let partner: any;
+  let thirdUniversity: any;
+  let registrar: any;
+  let clerk: any;
+  let student: any;
+
+  const DEGREE = 1;
+  const CLERK = 2;
+  const REGISTRAR = 3;
+
+  const VALID = 1;
+  const AWAITING_COSIGNATURES = 4;
+
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  const addJointRecord = (cosigners: string[]) =>
+    academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        DEGREE,
+        0,
+        0,
+        0,
+        0,
+        cosigners
+      );
+
+  beforeEach(async function () {
+    [, university, partner, thirdUniversity, registrar, clerk, student] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityStaff = await deployUniversityStaff(academicRecords);
+    recordCosigning = await deployRecordCosigning(academicRecords);
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(partner.address, "Partner University");
+    await academicRecords.addUniversity(
+      thirdUniversity.address,
+      "Third University"
+    );
+    await universityStaff
+      .connect(partner)
+      .grantStaffRole(registrar.address, REGISTRAR);
+    await universityStaff.connect(partner).grantStaffRole(clerk.address, CLERK);
+  });
+
+  it("Should only verify a joint record once every co-signer signed", async function () {
+    await expect(addJointRecord([partner.address, thirdUniversity.address]))
+      .to.emit(recordCosigning, "CosignersRequested")
+      .withArgs(1, [partner.address, thirdUniversity.address]);
+
+    expect(await academicRecords.verifyRecord(1)).to.equal(
+      AWAITING_COSIGNATURES
+    );
+
+    await expect(recordCosigning.connect(partner).cosign(1))
+      .to.emit(recordCosigning, "RecordCosigned")
+      .withArgs(1, partner.address, partner.address);
+    expect(await academicRecords.verifyRecord(1)).to.equal(
+      AWAITING_COSIGNATURES
+    );
+
+    await recordCosigning.connect(thirdUniversity).cosign(1);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+
+    const cosignatures = await recordCosigning.getCosignatures(1);
+    expect(cosignatures.map((c: any) => c.university)).to.deep.equal([
+      partner.address,
+      thirdUniversity.address,
+    ]);
+    expect(cosignatures[0].signedAt).to.be.greaterThan(0);
+    expect(cosignatures[1].signedBy).to.equal(thirdUniversity.address);
+  });
+
+  it("Should verify records without co-signers right away", async function () {
+    await addJointRecord([]);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+    expect(await recordCosigning.getCosignatures(1)).to.deep.equal([]);
+  });
+
+  it("Should let registrars sign for the co-signing university", async function () {
+    await addJointRecord([partner.address]);
+    expect(
+      await recordCosigning.getPendingRecords(partner.address)
+    ).to.deep.equal([BigInt(1)]);
+
+    await expect(recordCosigning.connect(clerk).cosign(1)).to.be.revertedWith(
+      "Not a university or its staff"
+    );
+    await expect(
+      recordCosigning.connect(thirdUniversity).cosign(1)
+    ).to.be.revertedWith("Not a co-signer of the record");
+
+    await recordCosigning.connect(registrar).cosign(1);
+    expect((await recordCosigning.getCosignatures(1))[0].signedBy).to.equal(
+      registrar.address
+    );
+    expect(
+      await recordCosigning.getPendingRecords(partner.address)
+    ).to.deep.equal([]);
+    await expect(recordCosigning.connect(partner).cosign(1)).to.be.revertedWith(
+      "Already co-signed"
+    );
+  });
+
+  it("Should only accept other universities as co-signers", async function () {
+    await expect(addJointRecord([university.address])).to.be.revertedWith(
+      "Invalid co-signer"
+    );
+    await expect(addJointRecord([student.address])).to.be.revertedWith(
+      "Invalid co-signer"
+    );
+    await expect(
+      addJointRecord([partner.address, partner.address])
+    ).to.be.revertedWith("Duplicate co-signer");
+  });
+
+  it("Should ask the co-signers again for a corrected record", async function () {
+    await addJointRecord([partner.address, thirdUniversity.address]);
+    await recordCosigning.connect(partner).cosign(1);
+
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "Jon Doe", ipfsHash, metadataHash, DEGREE, 0);
+
+    expect(await academicRecords.verifyRecord(2)).to.equal(
+      AWAITING_COSIGNATURES
+    );
+    expect(
+      await recordCosigning.getPendingRecords(partner.address)
+    ).to.deep.equal([BigInt(2)]);
+    expect(
+      await recordCosigning.getPendingRecords(thirdUniversity.address)
+    ).to.deep.equal([BigInt(2)]);
+
+    await recordCosigning.connect(partner).cosign(2);
+    await recordCosigning.connect(thirdUniversity).cosign(2);
+    expect(await academicRecords.verifyRecord(2)).to.equal(VALID);
+  });
+
+  it("Should only let AcademicRecords request co-signers", async function () {
+    await expect(
+      recordCosigning
+        .connect(university)
+        .requestCosigners(1, university.address, [partner.address])
+    ).to.be.revertedWith("Only AcademicRecords can call this");
+  });
+});
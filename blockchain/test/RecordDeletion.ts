@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Record Deletion", function () {
+  let academicRecords: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+
+  const issueRecord = (issuer: any) =>
+    academicRecords
+      .connect(issuer)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    await issueRecord(university);
+    await issueRecord(university);
+    await issueRecord(otherUniversity);
+  });
+
+  it("Should emit a deletion event for every deleted record", async function () {
+    const tx = academicRecords
+      .connect(university)
+      .deleteStudent("S12345", "Student left before enrolment");
+
+    await expect(tx)
+      .to.emit(academicRecords, "RecordDeleted")
+      .withArgs(1, "Student left before enrolment", university.address);
+    await expect(tx)
+      .to.emit(academicRecords, "RecordDeleted")
+      .withArgs(2, "Student left before enrolment", university.address);
+    await expect(tx)
+      .to.emit(academicRecords, "StudentDeleted")
+      .withArgs(anyValue, university.address);
+  });
+
+  it("Should keep a tombstone of each deleted record", async function () {
+    await academicRecords
+      .connect(university)
+      .deleteStudent("S12345", "Issued in error");
+    const deletedAt = await time.latest();
+
+    await expect(academicRecords.getRecord(1)).to.be.revertedWith(
+      "Record does not exist"
+    );
+    const tombstone = await academicRecords.getDeletedRecord(1);
+    expect(tombstone.issuer).to.equal(university.address);
+    expect(tombstone.deletedAt).to.equal(deletedAt);
+  });
+
+  it("Should only delete the records of the calling university", async function () {
+    await academicRecords
+      .connect(university)
+      .deleteStudent("S12345", "Issued in error");
+
+    expect(await academicRecords.getStudentRecords("S12345")).to.deep.equal([
+      BigInt(3),
+    ]);
+    expect(
+      await academicRecords.connect(university).getUniversityRecords()
+    ).to.deep.equal([]);
+    await expect(academicRecords.getDeletedRecord(3)).to.be.revertedWith(
+      "Record was not deleted"
+    );
+  });
+
+  it("Should not report records that never existed as deleted", async function () {
+    await expect(academicRecords.getDeletedRecord(99)).to.be.revertedWith(
+      "Record was not deleted"
+    );
+  });
+
+  it("Should withdraw a single record of the issuer", async function () {
+    await expect(
+      academicRecords.connect(university).withdrawRecord(2, "Duplicate receipt")
+    )
+      .to.emit(academicRecords, "RecordDeleted")
+      .withArgs(2, "Duplicate receipt", university.address);
+
+    expect(await academicRecords.getStudentRecords("S12345")).to.deep.equal([
+      BigInt(1),
+      BigInt(3),
+    ]);
+    expect(
+      await academicRecords.connect(university).getUniversityRecords()
+    ).to.deep.equal([BigInt(1)]);
+    expect(
+      await academicRecords.getStudentRecordsByAddress(student.address)
+    ).to.deep.equal([BigInt(1), BigInt(3)]);
+    expect((await academicRecords.getDeletedRecord(2)).issuer).to.equal(
+      university.address
+    );
+  });
+
+  it("Should only let the issuer withdraw a record", async function () {
+    await expect(
+      academicRecords.connect(otherUniversity).withdrawRecord(1, "Mistake")
+    ).to.be.revertedWith("Not the issuer");
+    await expect(
+      academicRecords.connect(university).withdrawRecord(99, "Mistake")
+    ).to.be.revertedWith("Record does not exist");
+  });
+
+  it("Should remove the share grants of a withdrawn record", async function () {
+    const [employer] = await ethers.getSigners();
+    await academicRecords.connect(student).shareRecord(1, employer.address, 0);
+    await academicRecords.connect(student).shareRecord(2, employer.address, 0);
+
+    await academicRecords.connect(university).withdrawRecord(1, "Mistake");
+
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(false);
+    expect(
+      await academicRecords.connect(student).getSharedRecords(employer.address)
+    ).to.deep.equal([BigInt(2)]);
+  });
+});
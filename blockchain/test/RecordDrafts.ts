@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployAcademicRecords,
+  deployRecordCosigning,
+  deployRecordDrafts,
+  deployUniversityStaff,
+} from "./helpers/deploy";
+
+describe("Record Drafts", function () {
+  let academicRecords: any;
+  let universityStaff: any;
+  let recordDrafts: any;
+  let university: any;
+  let otherUniversity: any;
+  let registrar: any;
+  let clerk: any;
+  let viewer: any;
+  let student: any;
+
+  const VIEWER = 1;
+  const CLERK = 2;
+  const REGISTRAR = 3;
+
+  const PENDING = 1;
+  const RETURNED = 2;
+  const PUBLISHED = 3;
+  const DISCARDED = 4;
+
+  const VALID = 1;
+  const AWAITING_COSIGNATURES = 4;
+
+  const IPFS_HASH = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const REVISED_IPFS_HASH = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+
+  const submitDraft = (
+    signer: any,
+    studentName = "John Doe",
+    cosigners: string[] = []
+  ) =>
+    recordDrafts
+      .connect(signer)
+      .submitDraft(
+        "S12345",
+        studentName,
+        student.address,
+        "Example University",
+        IPFS_HASH,
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        cosigners
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, registrar, clerk, viewer, student] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityStaff = await deployUniversityStaff(academicRecords);
+    recordDrafts = await deployRecordDrafts(academicRecords);
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(registrar.address, REGISTRAR);
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(clerk.address, CLERK);
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(viewer.address, VIEWER);
+  });
+
+  it("Should keep a clerk's draft out of the records until it is published", async function () {
+    await expect(submitDraft(clerk))
+      .to.emit(recordDrafts, "DraftSubmitted")
+      .withArgs(1, university.address, clerk.address);
+
+    const draft = await recordDrafts.getDraft(1);
+    expect(draft.university).to.equal(university.address);
+    expect(draft.createdBy).to.equal(clerk.address);
+    expect(draft.status).to.equal(PENDING);
+    expect(await academicRecords.getTotalRecords()).to.equal(0);
+    expect(await academicRecords.getStudentRecords("S12345")).to.deep.equal([]);
+    await expect(academicRecords.verifyRecord(1)).to.be.revertedWith(
+      "Record does not exist"
+    );
+  });
+
+  it("Should publish a draft reviewed by a registrar", async function () {
+    await submitDraft(clerk);
+
+    await expect(academicRecords.connect(registrar).publishDraft(1))
+      .to.emit(recordDrafts, "DraftPublished")
+      .withArgs(1, 1, registrar.address)
+      .and.to.emit(academicRecords, "RecordAdded")
+      .withArgs(1, "S12345", 0, university.address);
+
+    const record = await academicRecords.getRecord(1);
+    expect(record.issuer).to.equal(university.address);
+    expect(record.issuedBy).to.equal(registrar.address);
+    expect(record.ipfsHash).to.equal(IPFS_HASH);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+
+    const draft = await recordDrafts.getDraft(1);
+    expect(draft.status).to.equal(PUBLISHED);
+    expect(draft.reviewedBy).to.equal(registrar.address);
+    expect(draft.recordId).to.equal(1);
+    expect(await recordDrafts.getOpenDrafts(university.address)).to.have.length(
+      0
+    );
+
+    await expect(
+      academicRecords.connect(university).publishDraft(1)
+    ).to.be.revertedWith("Draft is not pending");
+  });
+
+  it("Should not let the author or a clerk publish a draft", async function () {
+    await submitDraft(registrar);
+
+    await expect(
+      academicRecords.connect(registrar).publishDraft(1)
+    ).to.be.revertedWith("Drafts are reviewed by another account");
+    await expect(academicRecords.connect(clerk).publishDraft(1)).to.be.reverted;
+    await expect(
+      academicRecords.connect(otherUniversity).publishDraft(1)
+    ).to.be.revertedWith("Not a draft of the university");
+    await expect(submitDraft(viewer)).to.be.revertedWith(
+      "Not a university or its staff"
+    );
+
+    await academicRecords.connect(university).publishDraft(1);
+    expect((await academicRecords.getRecord(1)).issuedBy).to.equal(
+      university.address
+    );
+  });
+
+  it("Should send a draft back with comments for its author to revise", async function () {
+    await submitDraft(clerk, "Jon Doe");
+
+    await expect(
+      recordDrafts.connect(registrar).returnDraft(1, "")
+    ).to.be.revertedWith("Comments are required");
+    await expect(
+      recordDrafts.connect(registrar).returnDraft(1, "Misspelled name")
+    )
+      .to.emit(recordDrafts, "DraftReturned")
+      .withArgs(1, registrar.address, "Misspelled name");
+
+    let draft = await recordDrafts.getDraft(1);
+    expect(draft.status).to.equal(RETURNED);
+    expect(draft.reviewComments).to.equal("Misspelled name");
+    await expect(
+      academicRecords.connect(registrar).publishDraft(1)
+    ).to.be.revertedWith("Draft is not pending");
+
+    const revise = (signer: any) =>
+      recordDrafts
+        .connect(signer)
+        .reviseDraft(
+          1,
+          "S12345",
+          "John Doe",
+          student.address,
+          "Example University",
+          REVISED_IPFS_HASH,
+          "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+          0,
+          0,
+          0,
+          0,
+          0,
+          []
+        );
+    await expect(revise(registrar)).to.be.revertedWith("Not the draft author");
+    await expect(revise(clerk))
+      .to.emit(recordDrafts, "DraftSubmitted")
+      .withArgs(1, university.address, clerk.address);
+
+    draft = await recordDrafts.getDraft(1);
+    expect(draft.status).to.equal(PENDING);
+    expect(draft.studentName).to.equal("John Doe");
+
+    await academicRecords.connect(registrar).publishDraft(1);
+    const record = await academicRecords.getRecord(1);
+    expect(record.studentName).to.equal("John Doe");
+    expect(record.ipfsHash).to.equal(REVISED_IPFS_HASH);
+  });
+
+  it("Should list open drafts and let the author discard them", async function () {
+    await submitDraft(clerk);
+    await submitDraft(clerk);
+
+    const drafts = await recordDrafts.getOpenDrafts(university.address);
+    expect(drafts.map((draft: any) => draft.id)).to.deep.equal([
+      BigInt(1),
+      BigInt(2),
+    ]);
+
+    await expect(
+      recordDrafts.connect(registrar).discardDraft(1)
+    ).to.be.revertedWith("Not the draft author");
+    await expect(recordDrafts.connect(clerk).discardDraft(1))
+      .to.emit(recordDrafts, "DraftDiscarded")
+      .withArgs(1);
+
+    expect((await recordDrafts.getDraft(1)).status).to.equal(DISCARDED);
+    expect(
+      (await recordDrafts.getOpenDrafts(university.address)).map(
+        (draft: any) => draft.id
+      )
+    ).to.deep.equal([BigInt(2)]);
+    await expect(
+      academicRecords.connect(registrar).publishDraft(1)
+    ).to.be.revertedWith("Draft is not pending");
+  });
+
+  it("Should publish a draft with co-signers as a joint record", async function () {
+    const recordCosigning = await deployRecordCosigning(academicRecords);
+    await submitDraft(clerk, "John Doe", [otherUniversity.address]);
+    expect((await recordDrafts.getDraft(1)).cosigners).to.deep.equal([
+      otherUniversity.address,
+    ]);
+
+    await expect(academicRecords.connect(registrar).publishDraft(1))
+      .to.emit(recordCosigning, "CosignersRequested")
+      .withArgs(1, [otherUniversity.address]);
+    expect(await academicRecords.verifyRecord(1)).to.equal(
+      AWAITING_COSIGNATURES
+    );
+    expect(
+      await recordCosigning.getPendingRecords(otherUniversity.address)
+    ).to.deep.equal([BigInt(1)]);
+
+    await recordCosigning.connect(otherUniversity).cosign(1);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+  });
+
+  it("Should only let AcademicRecords publish drafts", async function () {
+    await submitDraft(clerk);
+    await expect(
+      recordDrafts
+        .connect(registrar)
+        .publishDraft(1, university.address, registrar.address, 1)
+    ).to.be.revertedWith("Only AcademicRecords can call this");
+  });
+});
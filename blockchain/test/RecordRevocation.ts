@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Record Revocation", function () {
+  let academicRecords: any;
+  let owner: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+
+  const ISSUED_IN_ERROR = 0;
+  const INCORRECT_DETAILS = 1;
+
+  const REVOKED = 0;
+
+  beforeEach(async function () {
+    [owner, university, otherUniversity, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    await academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+  });
+
+  it("Should let the issuing university revoke a record", async function () {
+    await expect(
+      academicRecords
+        .connect(university)
+        .revokeRecord(1, INCORRECT_DETAILS, "Wrong graduation year")
+    )
+      .to.emit(academicRecords, "RecordRevoked")
+      .withArgs(
+        1,
+        INCORRECT_DETAILS,
+        "Wrong graduation year",
+        university.address
+      );
+
+    expect(await academicRecords.verifyRecord(1)).to.equal(REVOKED);
+
+    const revocation = await academicRecords.getRevocation(1);
+    expect(revocation.reasonCode).to.equal(INCORRECT_DETAILS);
+    expect(revocation.note).to.equal("Wrong graduation year");
+    expect(revocation.revokedBy).to.equal(university.address);
+    expect(revocation.timestamp).to.be.greaterThan(0);
+  });
+
+  it("Should let an admin revoke a record", async function () {
+    await academicRecords.revokeRecord(1, ISSUED_IN_ERROR, "");
+    expect(await academicRecords.verifyRecord(1)).to.equal(REVOKED);
+  });
+
+  it("Should not let another university revoke the record", async function () {
+    await expect(
+      academicRecords
+        .connect(otherUniversity)
+        .revokeRecord(1, ISSUED_IN_ERROR, "")
+    ).to.be.revertedWith("Not authorized to revoke");
+  });
+
+  it("Should not revoke a record twice", async function () {
+    await academicRecords
+      .connect(university)
+      .revokeRecord(1, ISSUED_IN_ERROR, "");
+    await expect(
+      academicRecords.connect(university).revokeRecord(1, ISSUED_IN_ERROR, "")
+    ).to.be.revertedWith("Record already revoked");
+  });
+
+  it("Should not return a revocation for a valid record", async function () {
+    await expect(academicRecords.getRevocation(1)).to.be.revertedWith(
+      "Record is not revoked"
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Record Sharing", function () {
+  let academicRecords: any;
+  let university: any;
+  let student: any;
+  let employer: any;
+  let otherEmployer: any;
+
+  const TWO_WEEKS = 14 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [, university, student, employer, otherEmployer] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+
+    await academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+  });
+
+  it("Should share a record until the grant expires", async function () {
+    await academicRecords
+      .connect(student)
+      .shareRecord(1, employer.address, TWO_WEEKS);
+
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(true);
+    const record = await academicRecords
+      .connect(employer)
+      .getRecordWithPermission(1);
+    expect(record.ipfsHash).to.not.equal("");
+
+    await time.increase(TWO_WEEKS + 1);
+
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(false);
+    await expect(
+      academicRecords.connect(employer).getRecordWithPermission(1)
+    ).to.be.revertedWith("No permission to view this record");
+    expect(
+      await academicRecords.connect(student).getSharedRecords(employer.address)
+    ).to.deep.equal([]);
+  });
+
+  it("Should emit the expiry timestamp of the grant", async function () {
+    const tx = await academicRecords
+      .connect(student)
+      .shareRecord(1, employer.address, TWO_WEEKS);
+    const block = await ethers.provider.getBlock(tx.blockNumber);
+    const expiresAt = BigInt(block!.timestamp + TWO_WEEKS);
+
+    await expect(tx)
+      .to.emit(academicRecords, "RecordShared")
+      .withArgs(1, "S12345", employer.address, expiresAt);
+    expect(await academicRecords.getShareExpiry(1, employer.address)).to.equal(
+      expiresAt
+    );
+  });
+
+  it("Should keep grants without a duration until unshared", async function () {
+    await academicRecords.connect(student).shareRecord(1, employer.address, 0);
+
+    await time.increase(10 * 365 * 24 * 60 * 60);
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(true);
+
+    await academicRecords.connect(student).unshareRecord(1, employer.address);
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(false);
+  });
+
+  it("Should renew an expired grant without duplicating it", async function () {
+    await academicRecords
+      .connect(student)
+      .shareRecord(1, employer.address, TWO_WEEKS);
+    await time.increase(TWO_WEEKS + 1);
+    await academicRecords
+      .connect(student)
+      .shareRecord(1, employer.address, TWO_WEEKS);
+
+    expect(
+      await academicRecords.isRecordSharedWith(1, employer.address)
+    ).to.equal(true);
+    expect(
+      await academicRecords.connect(student).getSharedRecords(employer.address)
+    ).to.deep.equal([BigInt(1)]);
+  });
+
+  it("Should list every grantee of a record with grant times", async function () {
+    await academicRecords
+      .connect(student)
+      .shareRecord(1, employer.address, TWO_WEEKS);
+    await academicRecords
+      .connect(student)
+      .shareRecord(1, otherEmployer.address, 0);
+
+    const grants = await academicRecords.getRecordGrantees(1);
+    expect(grants.length).to.equal(2);
+    expect(grants[0].grantee).to.equal(employer.address);
+    expect(grants[0].grantedAt).to.be.greaterThan(0);
+    expect(grants[0].expiresAt).to.equal(
+      grants[0].grantedAt + BigInt(TWO_WEEKS)
+    );
+    expect(grants[1].grantee).to.equal(otherEmployer.address);
+    expect(grants[1].expiresAt).to.equal(ethers.MaxUint256);
+
+    await academicRecords.connect(student).unshareRecord(1, employer.address);
+
+    const remaining = await academicRecords.getRecordGrantees(1);
+    expect(remaining.length).to.equal(1);
+    expect(remaining[0].grantee).to.equal(otherEmployer.address);
+  });
+});
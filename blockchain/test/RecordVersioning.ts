@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Record Versioning", function () {
+  let academicRecords: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const correctedHash = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    await academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "Jon Doe",
+        student.address,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+  });
+
+  it("Should publish a corrected version linked to the original", async function () {
+    await expect(
+      academicRecords
+        .connect(university)
+        .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0)
+    )
+      .to.emit(academicRecords, "RecordSuperseded")
+      .withArgs(1, 2, university.address);
+
+    const previous = await academicRecords.getRecord(1);
+    expect(previous.supersededBy).to.equal(2);
+    expect(previous.studentName).to.equal("Jon Doe");
+
+    const corrected = await academicRecords.getRecord(2);
+    expect(corrected.previousRecordId).to.equal(1);
+    expect(corrected.supersededBy).to.equal(0);
+    expect(corrected.studentId).to.equal("S12345");
+    expect(corrected.studentName).to.equal("John Doe");
+    expect(corrected.studentAddress).to.equal(student.address);
+    expect(corrected.ipfsHash).to.equal(correctedHash);
+    expect(corrected.issuer).to.equal(university.address);
+
+    const studentRecords = await academicRecords.getStudentRecords("S12345");
+    expect(studentRecords.length).to.equal(2);
+  });
+
+  it("Should only let the issuer supersede a record", async function () {
+    await expect(
+      academicRecords
+        .connect(otherUniversity)
+        .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0)
+    ).to.be.revertedWith("Not the issuer");
+  });
+
+  it("Should only supersede the latest version", async function () {
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0);
+
+    await expect(
+      academicRecords
+        .connect(university)
+        .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0)
+    ).to.be.revertedWith("Record already superseded");
+  });
+
+  it("Should not supersede a revoked record", async function () {
+    await academicRecords.connect(university).revokeRecord(1, 0, "");
+
+    await expect(
+      academicRecords
+        .connect(university)
+        .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0)
+    ).to.be.revertedWith("Record is revoked");
+  });
+
+  it("Should make the previous version current again when a correction is withdrawn", async function () {
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0);
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(2, "John Doe", ipfsHash, metadataHash, 0, 0);
+
+    await academicRecords.connect(university).withdrawRecord(2, "Duplicate");
+    expect((await academicRecords.getRecord(1)).supersededBy).to.equal(3);
+    expect((await academicRecords.getRecord(3)).previousRecordId).to.equal(1);
+
+    await academicRecords.connect(university).withdrawRecord(3, "Issued twice");
+    expect((await academicRecords.getRecord(1)).supersededBy).to.equal(0);
+
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "John Doe", correctedHash, metadataHash, 0, 0);
+    expect((await academicRecords.getRecord(1)).supersededBy).to.equal(4);
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  deployAcademicRecords,
+  deployRecordDrafts,
+  deployUniversityStaff,
+} from "./helpers/deploy";
+
+describe("Scheduled Release", function () {
+  let academicRecords: any;
+  let universityStaff: any;
+  let university: any;
+  let registrar: any;
+  let clerk: any;
+  let student: any;
+  let employer: any;
+  let releaseTime: number;
+
+  const MARKSHEET = 2;
+  const VALID = 1;
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  const addRecord = (visibleFrom: number) =>
+    academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        MARKSHEET,
+        0,
+        visibleFrom,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, registrar, clerk, student, employer] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityStaff = await deployUniversityStaff(academicRecords);
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(registrar.address, 3);
+
+    releaseTime = (await time.latest()) + 3600;
+  });
+
+  it("Should hide a record from everyone but its issuer until its release time", async function () {
+    await addRecord(releaseTime);
+
+    await expect(
+      academicRecords.connect(student).getRecord(1)
+    ).to.be.revertedWith("Record not released yet");
+    await expect(
+      academicRecords.connect(student).getRecordWithPermission(1)
+    ).to.be.revertedWith("Record not released yet");
+    await expect(academicRecords.verifyRecord(1)).to.be.revertedWith(
+      "Record not released yet"
+    );
+
+    const record = await academicRecords.connect(university).getRecord(1);
+    expect(record.visibleFrom).to.equal(releaseTime);
+    expect(await academicRecords.connect(registrar).verifyRecord(1)).to.equal(
+      VALID
+    );
+
+    await time.increaseTo(releaseTime);
+
+    expect(
+      (await academicRecords.connect(student).getRecordWithPermission(1))
+        .studentName
+    ).to.equal("John Doe");
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+  });
+
+  it("Should show records without a release time immediately", async function () {
+    await addRecord(0);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+    expect(
+      (await academicRecords.connect(student).getRecord(1)).visibleFrom
+    ).to.equal(0);
+  });
+
+  it("Should hide a record from grantees until its release time", async function () {
+    await addRecord(releaseTime);
+    await academicRecords.connect(student).shareRecord(1, employer.address, 0);
+
+    await expect(
+      academicRecords.connect(employer).getRecordWithPermission(1)
+    ).to.be.revertedWith("Record not released yet");
+
+    await time.increaseTo(releaseTime);
+    expect(
+      (await academicRecords.connect(employer).getRecordWithPermission(1))
+        .ipfsHash
+    ).to.equal(ipfsHash);
+  });
+
+  it("Should release a whole batch at the same time", async function () {
+    await academicRecords
+      .connect(university)
+      .addRecordsBatch(
+        ["S1", "S2"],
+        ["Alice", "Bob"],
+        [student.address, employer.address],
+        "Example University",
+        [ipfsHash, ipfsHash],
+        [metadataHash, metadataHash],
+        [MARKSHEET, MARKSHEET],
+        releaseTime,
+        0,
+        0
+      );
+
+    for (const recordId of [1, 2]) {
+      expect(
+        (await academicRecords.connect(university).getRecord(recordId))
+          .visibleFrom
+      ).to.equal(releaseTime);
+      await expect(academicRecords.verifyRecord(recordId)).to.be.revertedWith(
+        "Record not released yet"
+      );
+    }
+  });
+
+  it("Should keep the release time of a corrected record", async function () {
+    await addRecord(releaseTime);
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "Jon Doe", ipfsHash, metadataHash, MARKSHEET, 0);
+
+    expect(
+      (await academicRecords.connect(university).getRecord(2)).visibleFrom
+    ).to.equal(releaseTime);
+    await expect(academicRecords.verifyRecord(2)).to.be.revertedWith(
+      "Record not released yet"
+    );
+  });
+
+  it("Should release a published draft at the release time it was drafted with", async function () {
+    const recordDrafts = await deployRecordDrafts(academicRecords);
+    await universityStaff.connect(university).grantStaffRole(clerk.address, 2);
+    await recordDrafts
+      .connect(clerk)
+      .submitDraft(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        MARKSHEET,
+        0,
+        releaseTime,
+        0,
+        0,
+        []
+      );
+    await academicRecords.connect(registrar).publishDraft(1);
+
+    expect(
+      (await academicRecords.connect(registrar).getRecord(1)).visibleFrom
+    ).to.equal(releaseTime);
+    await expect(
+      academicRecords.connect(student).getRecord(1)
+    ).to.be.revertedWith("Record not released yet");
+  });
+});
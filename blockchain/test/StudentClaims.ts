@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Student Claims", function () {
+  let academicRecords: any;
+  let studentManagement: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+  let otherStudent: any;
+  let stranger: any;
+
+  const PENDING = 1;
+  const APPROVED = 2;
+  const REJECTED = 3;
+  const FOURTEEN_DAYS = 14 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student, otherStudent, stranger] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    studentManagement = await ethers.getContractAt(
+      "StudentManagement",
+      await academicRecords.studentManagement()
+    );
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+  });
+
+  it("Should register the student once the university approves", async function () {
+    await expect(
+      studentManagement
+        .connect(student)
+        .claimStudentId("S12345", university.address)
+    )
+      .to.emit(studentManagement, "StudentClaimRequested")
+      .withArgs(student.address, "S12345", university.address, anyUint);
+
+    let claim = await studentManagement.getStudentClaim(student.address);
+    expect(claim.status).to.equal(PENDING);
+    expect(claim.expiresAt - claim.requestedAt).to.equal(FOURTEEN_DAYS);
+    expect(
+      await studentManagement.getUniversityClaimants(university.address)
+    ).to.deep.equal([student.address]);
+    expect(await studentManagement.isStudentRegistered("S12345")).to.equal(
+      false
+    );
+
+    await expect(
+      studentManagement.connect(university).approveStudentClaim(student.address)
+    )
+      .to.emit(studentManagement, "StudentClaimResolved")
+      .withArgs(student.address, "S12345", university.address, APPROVED)
+      .and.to.emit(studentManagement, "StudentRegistered")
+      .withArgs("S12345", student.address);
+
+    claim = await studentManagement.getStudentClaim(student.address);
+    expect(claim.status).to.equal(APPROVED);
+    expect(await studentManagement.getStudentId(student.address)).to.equal(
+      "S12345"
+    );
+  });
+
+  it("Should let the university reject a claim", async function () {
+    await studentManagement
+      .connect(student)
+      .claimStudentId("S12345", university.address);
+
+    await expect(
+      studentManagement
+        .connect(otherUniversity)
+        .rejectStudentClaim(student.address)
+    ).to.be.revertedWith("Not the claimed university");
+    await expect(
+      studentManagement.connect(university).rejectStudentClaim(student.address)
+    )
+      .to.emit(studentManagement, "StudentClaimResolved")
+      .withArgs(student.address, "S12345", university.address, REJECTED);
+
+    await expect(
+      studentManagement.connect(university).approveStudentClaim(student.address)
+    ).to.be.revertedWith("No claim pending");
+    expect(await studentManagement.isStudentRegistered("S12345")).to.equal(
+      false
+    );
+
+    // A rejected student can claim again
+    await studentManagement
+      .connect(student)
+      .claimStudentId("S12345", otherUniversity.address);
+  });
+
+  it("Should expire claims after the configured time", async function () {
+    await expect(
+      studentManagement.connect(university).setClaimExpiry(60)
+    ).to.be.revertedWith("Not admin or super admin");
+    await expect(studentManagement.setClaimExpiry(60 * 60))
+      .to.emit(studentManagement, "ClaimExpiryUpdated")
+      .withArgs(60 * 60);
+    expect(await studentManagement.getClaimExpiry()).to.equal(60 * 60);
+
+    await studentManagement
+      .connect(student)
+      .claimStudentId("S12345", university.address);
+    await expect(
+      studentManagement
+        .connect(student)
+        .claimStudentId("S12345", university.address)
+    ).to.be.revertedWith("Claim already pending");
+
+    await time.increase(60 * 60);
+    await expect(
+      studentManagement.connect(university).approveStudentClaim(student.address)
+    ).to.be.revertedWith("No claim pending");
+
+    await studentManagement
+      .connect(student)
+      .claimStudentId("S12345", university.address);
+    expect(
+      await studentManagement.getUniversityClaimants(university.address)
+    ).to.deep.equal([student.address]);
+  });
+
+  it("Should not claim registered students or non-universities", async function () {
+    await academicRecords
+      .connect(university)
+      .registerStudent("S12345", otherStudent.address);
+
+    await expect(
+      studentManagement
+        .connect(student)
+        .claimStudentId("S12345", university.address)
+    ).to.be.revertedWith("Student ID already registered");
+    await expect(
+      studentManagement
+        .connect(otherStudent)
+        .claimStudentId("S67890", university.address)
+    ).to.be.revertedWith("Address belongs to another student");
+    await expect(
+      studentManagement
+        .connect(student)
+        .claimStudentId("S67890", stranger.address)
+    ).to.be.revertedWith("Not a university");
+  });
+
+  it("Should approve only one of competing claims", async function () {
+    await studentManagement
+      .connect(student)
+      .claimStudentId("S12345", university.address);
+    await studentManagement
+      .connect(otherStudent)
+      .claimStudentId("S12345", university.address);
+
+    await studentManagement
+      .connect(university)
+      .approveStudentClaim(student.address);
+    await expect(
+      studentManagement
+        .connect(university)
+        .approveStudentClaim(otherStudent.address)
+    ).to.be.revertedWith("Student ID already registered");
+  });
+});
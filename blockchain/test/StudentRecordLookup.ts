@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Student Record Lookup", function () {
+  let academicRecords: any;
+  let university: any;
+  let student: any;
+  let newWallet: any;
+  let otherStudent: any;
+
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  const issueRecord = (studentId: string, studentAddress: string) =>
+    academicRecords
+      .connect(university)
+      .addRecord(
+        studentId,
+        "John Doe",
+        studentAddress,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  // Issues count records to one student in full batches
+  const issueBatches = async (
+    studentId: string,
+    studentAddress: string,
+    count: number
+  ) => {
+    const batchSize = Number(await academicRecords.MAX_BATCH_SIZE());
+    for (let issued = 0; issued < count; issued += batchSize) {
+      const size = Math.min(batchSize, count - issued);
+      await academicRecords
+        .connect(university)
+        .addRecordsBatch(
+          Array(size).fill(studentId),
+          Array(size).fill("Jane Roe"),
+          Array(size).fill(studentAddress),
+          "Example University",
+          Array(size).fill(ipfsHash),
+          Array(size).fill(metadataHash),
+          Array(size).fill(0),
+          0,
+          0,
+          0
+        );
+    }
+  };
+
+  beforeEach(async function () {
+    [, university, student, newWallet, otherStudent] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+  });
+
+  it("Should find records by address and by student ID", async function () {
+    await issueRecord("S12345", student.address);
+    await issueRecord("S67890", otherStudent.address);
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "John Doe", ipfsHash, metadataHash, 0, 0);
+
+    expect(
+      await academicRecords.getStudentRecordsByAddress(student.address)
+    ).to.deep.equal([BigInt(1), BigInt(3)]);
+    expect(
+      await academicRecords.getStudentRecordsByAddress(otherStudent.address)
+    ).to.deep.equal([BigInt(2)]);
+  });
+
+  it("Should follow the student ID after an address change", async function () {
+    await issueRecord("S12345", student.address);
+    await academicRecords
+      .connect(student)
+      .requestStudentAddressChange("S12345", newWallet.address);
+    await academicRecords
+      .connect(university)
+      .approveStudentAddressChange("S12345");
+    await issueRecord("S12345", newWallet.address);
+
+    expect(
+      await academicRecords.getStudentRecordsByAddress(newWallet.address)
+    ).to.deep.equal([BigInt(2), BigInt(1)]);
+    // Records keep the address they were issued to
+    expect(
+      await academicRecords.getStudentRecordsByAddress(student.address)
+    ).to.deep.equal([BigInt(1)]);
+  });
+
+  it("Should drop deleted records from the lookup", async function () {
+    await issueRecord("S12345", student.address);
+    await issueRecord("S67890", otherStudent.address);
+
+    await academicRecords
+      .connect(university)
+      .deleteStudent("S12345", "Issued in error");
+
+    expect(
+      await academicRecords.getStudentRecordsByAddress(student.address)
+    ).to.deep.equal([]);
+    expect(
+      await academicRecords.getStudentRecordsByAddress(otherStudent.address)
+    ).to.deep.equal([BigInt(2)]);
+  });
+
+  it("Should not depend on the total number of records", async function () {
+    this.timeout(300000);
+
+    await issueBatches("S12345", student.address, 3);
+    const gasBefore =
+      await academicRecords.getStudentRecordsByAddress.estimateGas(
+        student.address
+      );
+
+    await issueBatches("S67890", otherStudent.address, 2000);
+    const gasAfter =
+      await academicRecords.getStudentRecordsByAddress.estimateGas(
+        student.address
+      );
+
+    expect(await academicRecords.getTotalRecords()).to.equal(2003);
+    expect(gasAfter).to.equal(gasBefore);
+    expect(gasAfter).to.be.lessThan(100000);
+  });
+
+  it("Should list thousands of records of one student within the block gas limit", async function () {
+    this.timeout(300000);
+
+    await issueBatches("S12345", student.address, 2000);
+
+    const recordIds = await academicRecords.getStudentRecordsByAddress(
+      student.address
+    );
+    expect(recordIds.length).to.equal(2000);
+
+    const gas = await academicRecords.getStudentRecordsByAddress.estimateGas(
+      student.address
+    );
+    const block = await ethers.provider.getBlock("latest");
+    expect(gas).to.be.lessThan(block!.gasLimit);
+  });
+});
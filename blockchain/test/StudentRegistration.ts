@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Student Registration", function () {
+  let academicRecords: any;
+  let studentManagement: any;
+  let admin: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+  let newWallet: any;
+  let stranger: any;
+
+  const issueRecord = (issuer: any, studentAddress: string) =>
+    academicRecords
+      .connect(issuer)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        studentAddress,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [admin, university, otherUniversity, student, newWallet, stranger] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    studentManagement = await ethers.getContractAt(
+      "StudentManagement",
+      await academicRecords.studentManagement()
+    );
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+  });
+
+  it("Should only accept registrations from AcademicRecords", async function () {
+    expect(await studentManagement.academicRecords()).to.equal(
+      await academicRecords.getAddress()
+    );
+
+    await expect(
+      studentManagement
+        .connect(stranger)
+        .registerStudent("S12345", stranger.address)
+    ).to.be.revertedWith("Not authorized");
+    await expect(
+      studentManagement.connect(stranger).initialize()
+    ).to.be.revertedWith("Already initialized");
+    await expect(
+      studentManagement.connect(stranger).setAcademicRecords(stranger.address)
+    ).to.be.revertedWith("Not authorized");
+    await expect(
+      studentManagement.setAcademicRecords(stranger.address)
+    ).to.be.revertedWith("Already initialized");
+  });
+
+  it("Should let universities and admins register students", async function () {
+    await expect(
+      academicRecords
+        .connect(university)
+        .registerStudent("S12345", student.address)
+    )
+      .to.emit(studentManagement, "StudentRegistered")
+      .withArgs("S12345", student.address);
+    await academicRecords.registerStudent("S67890", newWallet.address);
+
+    expect(await studentManagement.getStudentId(student.address)).to.equal(
+      "S12345"
+    );
+    expect(await studentManagement.getStudentAddress("S67890")).to.equal(
+      newWallet.address
+    );
+
+    await expect(
+      academicRecords
+        .connect(stranger)
+        .registerStudent("S11111", stranger.address)
+    ).to.be.revertedWith("Not university or admin");
+  });
+
+  it("Should not move a registered student to another address", async function () {
+    await issueRecord(university, student.address);
+
+    await expect(
+      academicRecords
+        .connect(otherUniversity)
+        .registerStudent("S12345", stranger.address)
+    ).to.be.revertedWith("Address change requires approval");
+    await expect(
+      issueRecord(otherUniversity, stranger.address)
+    ).to.be.revertedWith("Address change requires approval");
+    await expect(
+      academicRecords
+        .connect(university)
+        .registerStudent("S67890", student.address)
+    ).to.be.revertedWith("Address belongs to another student");
+
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      student.address
+    );
+  });
+
+  it("Should not issue a record to an address of another student", async function () {
+    await issueRecord(university, student.address);
+
+    await expect(
+      academicRecords
+        .connect(otherUniversity)
+        .addRecord(
+          "S67890",
+          "Jane Roe",
+          student.address,
+          "Other University",
+          "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+          "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+          0,
+          0,
+          0,
+          0,
+          0,
+          []
+        )
+    ).to.be.revertedWith("Address belongs to another student");
+
+    expect(await academicRecords.getStudentRecords("S67890")).to.deep.equal([]);
+    await issueRecord(otherUniversity, student.address);
+    expect(await academicRecords.getStudentRecords("S12345")).to.have.length(2);
+  });
+
+  it("Should change the address once the issuing university approves", async function () {
+    await issueRecord(university, student.address);
+
+    await expect(
+      academicRecords
+        .connect(student)
+        .requestStudentAddressChange("S12345", newWallet.address)
+    )
+      .to.emit(studentManagement, "StudentAddressChangeRequested")
+      .withArgs("S12345", newWallet.address, student.address);
+    expect(await studentManagement.pendingAddressChanges("S12345")).to.equal(
+      newWallet.address
+    );
+
+    await expect(
+      academicRecords
+        .connect(otherUniversity)
+        .approveStudentAddressChange("S12345")
+    ).to.be.revertedWith("Not the issuing university");
+    await expect(
+      academicRecords.approveStudentAddressChange("S12345")
+    ).to.be.revertedWith("Not the issuing university");
+
+    await expect(
+      academicRecords.connect(university).approveStudentAddressChange("S12345")
+    )
+      .to.emit(studentManagement, "StudentAddressUpdated")
+      .withArgs(
+        "S12345",
+        student.address,
+        newWallet.address,
+        university.address
+      );
+
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      newWallet.address
+    );
+    expect(await studentManagement.getStudentId(student.address)).to.equal("");
+    expect(await studentManagement.pendingAddressChanges("S12345")).to.equal(
+      ethers.ZeroAddress
+    );
+    expect(
+      await academicRecords.getStudentRecordsByAddress(newWallet.address)
+    ).to.deep.equal([BigInt(1)]);
+  });
+
+  it("Should only let the student or an admin request a change", async function () {
+    await issueRecord(university, student.address);
+
+    await expect(
+      academicRecords
+        .connect(stranger)
+        .requestStudentAddressChange("S12345", stranger.address)
+    ).to.be.revertedWith("Not the student or admin");
+    await expect(
+      academicRecords.connect(university).approveStudentAddressChange("S12345")
+    ).to.be.revertedWith("No address change pending");
+
+    await academicRecords.requestStudentAddressChange(
+      "S12345",
+      newWallet.address
+    );
+    await academicRecords
+      .connect(university)
+      .approveStudentAddressChange("S12345");
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      newWallet.address
+    );
+  });
+
+  it("Should not let a removed university approve a change", async function () {
+    await issueRecord(university, student.address);
+    await academicRecords
+      .connect(student)
+      .requestStudentAddressChange("S12345", newWallet.address);
+    await academicRecords.removeUniversity(university.address);
+
+    await expect(
+      academicRecords.connect(university).approveStudentAddressChange("S12345")
+    ).to.be.revertedWith("Not the issuing university");
+  });
+
+  it("Should let admins approve changes for students without records", async function () {
+    await academicRecords.registerStudent("S12345", student.address);
+    await academicRecords.requestStudentAddressChange(
+      "S12345",
+      newWallet.address
+    );
+
+    await expect(academicRecords.approveStudentAddressChange("S12345"))
+      .to.emit(studentManagement, "StudentAddressUpdated")
+      .withArgs("S12345", student.address, newWallet.address, admin.address);
+  });
+});
@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Super Admin Transfer", function () {
+  let academicRecords: any;
+  let superAdmin: any;
+  let admin1: any;
+  let admin2: any;
+  let admin3: any;
+  let nominee: any;
+  let stranger: any;
+
+  const TWO_DAYS = 2 * 24 * 60 * 60;
+  const THIRTY_DAYS = 30 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [superAdmin, admin1, admin2, admin3, nominee, stranger] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addAdmin(admin1.address);
+    await academicRecords.addAdmin(admin2.address);
+    await academicRecords.addAdmin(admin3.address);
+  });
+
+  it("Should hand over the super admin role after the timelock", async function () {
+    await expect(academicRecords.proposeSuperAdminTransfer(nominee.address))
+      .to.emit(academicRecords, "SuperAdminTransferProposed")
+      .withArgs(nominee.address, anyUint, false, superAdmin.address);
+
+    await expect(
+      academicRecords.connect(nominee).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Transfer is still timelocked");
+
+    await time.increase(TWO_DAYS);
+    await expect(academicRecords.connect(nominee).acceptSuperAdminTransfer())
+      .to.emit(academicRecords, "SuperAdminTransferred")
+      .withArgs(superAdmin.address, nominee.address);
+
+    const SUPER_ADMIN_ROLE = await academicRecords.SUPER_ADMIN_ROLE();
+    const ADMIN_ROLE = await academicRecords.ADMIN_ROLE();
+    expect(await academicRecords.SUPER_ADMIN()).to.equal(nominee.address);
+    expect(
+      await academicRecords.hasRole(SUPER_ADMIN_ROLE, nominee.address)
+    ).to.equal(true);
+    expect(
+      await academicRecords.hasRole(ADMIN_ROLE, superAdmin.address)
+    ).to.equal(false);
+
+    const admins = await academicRecords.getAllAdmins();
+    expect(admins).to.include(nominee.address);
+    expect(admins).to.not.include(superAdmin.address);
+    expect(admins.length).to.equal(4);
+
+    await expect(academicRecords.addAdmin(stranger.address)).to.be.revertedWith(
+      "Not super admin"
+    );
+    await academicRecords.connect(nominee).addAdmin(stranger.address);
+  });
+
+  it("Should only let the nominee accept a transfer", async function () {
+    await academicRecords.proposeSuperAdminTransfer(nominee.address);
+    await time.increase(TWO_DAYS);
+
+    await expect(
+      academicRecords.connect(stranger).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Not the pending super admin");
+  });
+
+  it("Should let the super admin cancel a pending transfer", async function () {
+    await academicRecords.proposeSuperAdminTransfer(nominee.address);
+    await expect(academicRecords.cancelSuperAdminTransfer())
+      .to.emit(academicRecords, "SuperAdminTransferCancelled")
+      .withArgs(nominee.address, superAdmin.address);
+
+    const pending = await academicRecords.getPendingSuperAdminTransfer();
+    expect(pending.newSuperAdmin).to.equal(ethers.ZeroAddress);
+
+    await time.increase(TWO_DAYS);
+    await expect(
+      academicRecords.connect(nominee).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Not the pending super admin");
+  });
+
+  it("Should not start a second transfer while one is pending", async function () {
+    await academicRecords.proposeSuperAdminTransfer(nominee.address);
+
+    await expect(
+      academicRecords.connect(admin1).proposeSuperAdminTransfer(admin2.address)
+    ).to.be.revertedWith("Transfer already pending");
+  });
+
+  it("Should not let non-admins start a recovery", async function () {
+    await expect(
+      academicRecords
+        .connect(stranger)
+        .proposeSuperAdminTransfer(stranger.address)
+    ).to.be.revertedWith("Not a recovery admin");
+  });
+
+  it("Should recover the super admin with an admin quorum", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin2.address);
+
+    const pending = await academicRecords.getPendingSuperAdminTransfer();
+    expect(pending.isRecovery).to.equal(true);
+    expect(pending.approvals).to.equal(1);
+    expect(await academicRecords.getSuperAdminRecoveryQuorum()).to.equal(2);
+
+    await time.increase(THIRTY_DAYS);
+    await expect(
+      academicRecords.connect(admin2).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Recovery quorum not reached");
+
+    await expect(academicRecords.connect(admin3).approveSuperAdminRecovery())
+      .to.emit(academicRecords, "SuperAdminRecoveryApproved")
+      .withArgs(admin3.address, 2);
+    expect(
+      await academicRecords.hasApprovedSuperAdminRecovery(admin3.address)
+    ).to.equal(true);
+    await expect(
+      academicRecords.connect(admin3).approveSuperAdminRecovery()
+    ).to.be.revertedWith("Already approved");
+
+    await academicRecords.connect(admin2).acceptSuperAdminTransfer();
+
+    expect(await academicRecords.SUPER_ADMIN()).to.equal(admin2.address);
+    const admins = await academicRecords.getAllAdmins();
+    expect(admins).to.not.include(superAdmin.address);
+    expect(admins.length).to.equal(3);
+  });
+
+  it("Should keep a recovery timelocked for the long delay", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin2.address);
+    await academicRecords.connect(admin3).approveSuperAdminRecovery();
+
+    await time.increase(TWO_DAYS);
+    await expect(
+      academicRecords.connect(admin2).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Transfer is still timelocked");
+  });
+
+  it("Should not count approvals of removed admins", async function () {
+    await academicRecords.removeAdmin(admin2.address);
+    await academicRecords.removeAdmin(admin3.address);
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin1.address);
+    expect(await academicRecords.getSuperAdminRecoveryQuorum()).to.equal(1);
+
+    await academicRecords.removeAdmin(admin1.address);
+    const pending = await academicRecords.getPendingSuperAdminTransfer();
+    expect(pending.approvals).to.equal(0);
+    expect(
+      await academicRecords.hasApprovedSuperAdminRecovery(admin1.address)
+    ).to.equal(false);
+
+    await time.increase(THIRTY_DAYS);
+    await expect(
+      academicRecords.connect(admin1).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Recovery quorum not reached");
+  });
+
+  it("Should let a recovery lapse after its expiry", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin1.address);
+
+    await time.increase(THIRTY_DAYS);
+    await expect(
+      academicRecords.connect(admin2).proposeSuperAdminTransfer(admin2.address)
+    ).to.be.revertedWith("Transfer already pending");
+
+    await time.increase(THIRTY_DAYS);
+    await academicRecords.connect(admin2).approveSuperAdminRecovery();
+    await expect(
+      academicRecords.connect(admin1).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Recovery expired");
+
+    // The lapsed recovery no longer blocks a new transfer
+    await academicRecords.proposeSuperAdminTransfer(nominee.address);
+    const pending = await academicRecords.getPendingSuperAdminTransfer();
+    expect(pending.newSuperAdmin).to.equal(nominee.address);
+    expect(pending.isRecovery).to.equal(false);
+    expect(
+      await academicRecords.hasApprovedSuperAdminRecovery(admin2.address)
+    ).to.equal(false);
+  });
+
+  it("Should let the super admin cancel a recovery", async function () {
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin1.address);
+    await academicRecords.connect(admin3).approveSuperAdminRecovery();
+
+    await expect(academicRecords.cancelSuperAdminTransfer())
+      .to.emit(academicRecords, "SuperAdminTransferCancelled")
+      .withArgs(admin1.address, superAdmin.address);
+
+    await time.increase(THIRTY_DAYS);
+    await expect(
+      academicRecords.connect(admin1).acceptSuperAdminTransfer()
+    ).to.be.revertedWith("Not the pending super admin");
+  });
+
+  it("Should let a quorum of the other admins cancel a recovery", async function () {
+    await academicRecords.proposeSuperAdminTransfer(nominee.address);
+    await expect(
+      academicRecords.connect(admin1).cancelSuperAdminTransfer()
+    ).to.be.revertedWith("No recovery pending");
+    await academicRecords.cancelSuperAdminTransfer();
+
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin2.address);
+    await expect(
+      academicRecords.connect(stranger).cancelSuperAdminTransfer()
+    ).to.be.revertedWith("Not a recovery admin");
+
+    await expect(academicRecords.connect(admin3).cancelSuperAdminTransfer())
+      .to.emit(academicRecords, "SuperAdminRecoveryCancelVote")
+      .withArgs(admin3.address, 1)
+      .and.not.to.emit(academicRecords, "SuperAdminTransferCancelled");
+    await expect(
+      academicRecords.connect(admin3).cancelSuperAdminTransfer()
+    ).to.be.revertedWith("Already voted");
+    expect(
+      await academicRecords.hasVotedToCancelSuperAdminRecovery(admin3.address)
+    ).to.equal(true);
+    expect(
+      await academicRecords.hasVotedToCancelSuperAdminRecovery(admin1.address)
+    ).to.equal(false);
+    expect(
+      (await academicRecords.getPendingSuperAdminTransfer()).newSuperAdmin
+    ).to.equal(admin2.address);
+
+    await expect(academicRecords.connect(admin1).cancelSuperAdminTransfer())
+      .to.emit(academicRecords, "SuperAdminTransferCancelled")
+      .withArgs(admin2.address, admin1.address);
+    await expect(
+      academicRecords.connect(admin3).approveSuperAdminRecovery()
+    ).to.be.revertedWith("No recovery pending");
+
+    // Votes never carry over to a later recovery
+    await academicRecords
+      .connect(admin1)
+      .proposeSuperAdminTransfer(admin2.address);
+    expect(
+      await academicRecords.hasVotedToCancelSuperAdminRecovery(admin3.address)
+    ).to.equal(false);
+    await academicRecords.connect(admin3).cancelSuperAdminTransfer();
+    expect(
+      (await academicRecords.getPendingSuperAdminTransfer()).newSuperAdmin
+    ).to.equal(admin2.address);
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployAcademicRecords,
+  deployUniversityProfiles,
+} from "./helpers/deploy";
+
+describe("University Applications", function () {
+  let academicRecords: any;
+  let universityProfiles: any;
+  let admin: any;
+  let applicant: any;
+  let otherUser: any;
+
+  const PENDING = 1;
+  const APPROVED = 2;
+  const REJECTED = 3;
+
+  const profile = {
+    accreditationBody: "Council for Higher Education Accreditation",
+    accreditationId: "CHEA-12345",
+    country: "US",
+    website: "https://example.edu",
+    contactEmail: "registrar@example.edu",
+    logoHash: "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+    metadataHash: "",
+  };
+  const documentsHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  beforeEach(async function () {
+    [, admin, applicant, otherUser] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityProfiles = await deployUniversityProfiles(academicRecords);
+
+    await academicRecords.addAdmin(admin.address);
+    await expect(
+      universityProfiles
+        .connect(applicant)
+        .applyAsUniversity("Example University", profile, documentsHash)
+    )
+      .to.emit(universityProfiles, "UniversityApplicationSubmitted")
+      .withArgs(applicant.address, "Example University");
+  });
+
+  it("Should list a submitted application as pending", async function () {
+    const application = await universityProfiles.getApplication(
+      applicant.address
+    );
+    expect(application.name).to.equal("Example University");
+    expect(application.documentsHash).to.equal(documentsHash);
+    expect(application.profile.contactEmail).to.equal(profile.contactEmail);
+    expect(application.status).to.equal(PENDING);
+    expect(await universityProfiles.getPendingApplicants()).to.deep.equal([
+      applicant.address,
+    ]);
+  });
+
+  it("Should approve an application once the applicant is registered", async function () {
+    await expect(
+      universityProfiles.connect(admin).approveApplication(applicant.address)
+    ).to.be.revertedWith("Applicant is not a university");
+
+    await academicRecords
+      .connect(admin)
+      .addUniversity(applicant.address, "Example University");
+    await expect(
+      universityProfiles.connect(admin).approveApplication(applicant.address)
+    )
+      .to.emit(universityProfiles, "UniversityApplicationApproved")
+      .withArgs(applicant.address, admin.address);
+
+    const application = await universityProfiles.getApplication(
+      applicant.address
+    );
+    expect(application.status).to.equal(APPROVED);
+    expect(application.reviewedAt).to.be.greaterThan(0);
+    expect(await universityProfiles.getPendingApplicants()).to.deep.equal([]);
+
+    const published = await universityProfiles.getProfile(applicant.address);
+    expect(published.accreditationId).to.equal(profile.accreditationId);
+  });
+
+  it("Should reject an application with a reason and allow a new one", async function () {
+    await expect(
+      universityProfiles.connect(admin).rejectApplication(applicant.address, "")
+    ).to.be.revertedWith("Reason is required");
+    await expect(
+      universityProfiles
+        .connect(admin)
+        .rejectApplication(applicant.address, "Accreditation not verifiable")
+    )
+      .to.emit(universityProfiles, "UniversityApplicationRejected")
+      .withArgs(
+        applicant.address,
+        "Accreditation not verifiable",
+        admin.address
+      );
+
+    const application = await universityProfiles.getApplication(
+      applicant.address
+    );
+    expect(application.status).to.equal(REJECTED);
+    expect(application.rejectionReason).to.equal(
+      "Accreditation not verifiable"
+    );
+    expect(await universityProfiles.getPendingApplicants()).to.deep.equal([]);
+
+    await universityProfiles
+      .connect(applicant)
+      .applyAsUniversity("Example University", profile, documentsHash);
+    expect(
+      (await universityProfiles.getApplication(applicant.address)).status
+    ).to.equal(PENDING);
+  });
+
+  it("Should not accept a second application while one is pending", async function () {
+    await expect(
+      universityProfiles
+        .connect(applicant)
+        .applyAsUniversity("Example University", profile, documentsHash)
+    ).to.be.revertedWith("Application already pending");
+  });
+
+  it("Should require a name and accreditation documents", async function () {
+    await expect(
+      universityProfiles
+        .connect(otherUser)
+        .applyAsUniversity("", profile, documentsHash)
+    ).to.be.revertedWith("Name is required");
+    await expect(
+      universityProfiles
+        .connect(otherUser)
+        .applyAsUniversity("Other University", profile, "")
+    ).to.be.revertedWith("Accreditation documents are required");
+  });
+
+  it("Should only let admins review applications", async function () {
+    await expect(
+      universityProfiles
+        .connect(otherUser)
+        .rejectApplication(applicant.address, "Spam")
+    ).to.be.revertedWith("Not an admin");
+    await expect(
+      universityProfiles
+        .connect(otherUser)
+        .approveApplication(applicant.address)
+    ).to.be.revertedWith("Not an admin");
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployAcademicRecords,
+  deployUniversityProfiles,
+} from "./helpers/deploy";
+
+describe("University Profiles", function () {
+  let academicRecords: any;
+  let universityProfiles: any;
+  let superAdmin: any;
+  let admin: any;
+  let university: any;
+  let otherUser: any;
+
+  const profile = {
+    accreditationBody: "Council for Higher Education Accreditation",
+    accreditationId: "CHEA-12345",
+    country: "US",
+    website: "https://example.edu",
+    contactEmail: "registrar@example.edu",
+    logoHash: "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+    metadataHash: "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+  };
+
+  beforeEach(async function () {
+    [superAdmin, admin, university, otherUser] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityProfiles = await deployUniversityProfiles(academicRecords);
+
+    await academicRecords.addAdmin(admin.address);
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+  });
+
+  it("Should let an admin set a university profile", async function () {
+    await expect(
+      universityProfiles.connect(admin).setProfile(university.address, profile)
+    )
+      .to.emit(universityProfiles, "UniversityProfileUpdated")
+      .withArgs(university.address, admin.address);
+
+    const stored = await universityProfiles.getProfile(university.address);
+    expect(stored.accreditationBody).to.equal(profile.accreditationBody);
+    expect(stored.accreditationId).to.equal(profile.accreditationId);
+    expect(stored.country).to.equal(profile.country);
+    expect(stored.website).to.equal(profile.website);
+    expect(stored.contactEmail).to.equal(profile.contactEmail);
+    expect(stored.logoHash).to.equal(profile.logoHash);
+    expect(stored.metadataHash).to.equal(profile.metadataHash);
+  });
+
+  it("Should let the super admin replace a profile", async function () {
+    await universityProfiles
+      .connect(admin)
+      .setProfile(university.address, profile);
+    await universityProfiles
+      .connect(superAdmin)
+      .setProfile(university.address, { ...profile, country: "CA" });
+
+    const stored = await universityProfiles.getProfile(university.address);
+    expect(stored.country).to.equal("CA");
+  });
+
+  it("Should not let universities or other users set profiles", async function () {
+    await expect(
+      universityProfiles
+        .connect(university)
+        .setProfile(university.address, profile)
+    ).to.be.revertedWith("Not an admin");
+    await expect(
+      universityProfiles
+        .connect(otherUser)
+        .setProfile(university.address, profile)
+    ).to.be.revertedWith("Not an admin");
+  });
+
+  it("Should only set profiles for universities", async function () {
+    await expect(
+      universityProfiles.connect(admin).setProfile(otherUser.address, profile)
+    ).to.be.revertedWith("Address is not a university");
+  });
+
+  it("Should return an empty profile for universities without one", async function () {
+    const stored = await universityProfiles.getProfile(university.address);
+    expect(stored.accreditationBody).to.equal("");
+    expect(stored.website).to.equal("");
+  });
+});
@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployAcademicRecords, deployUniversityStaff } from "./helpers/deploy";
+
+describe("University Staff", function () {
+  let academicRecords: any;
+  let universityStaff: any;
+  let university: any;
+  let otherUniversity: any;
+  let registrar: any;
+  let clerk: any;
+  let viewer: any;
+  let student: any;
+
+  const VIEWER = 1;
+  const CLERK = 2;
+  const REGISTRAR = 3;
+
+  const REVOKED = 0;
+
+  const addRecord = (signer: any) =>
+    academicRecords
+      .connect(signer)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, registrar, clerk, viewer, student] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    universityStaff = await deployUniversityStaff(academicRecords);
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+
+    await expect(
+      universityStaff
+        .connect(university)
+        .grantStaffRole(registrar.address, REGISTRAR)
+    )
+      .to.emit(universityStaff, "StaffRoleGranted")
+      .withArgs(university.address, registrar.address, REGISTRAR);
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(clerk.address, CLERK);
+    await universityStaff
+      .connect(university)
+      .grantStaffRole(viewer.address, VIEWER);
+  });
+
+  it("Should list the staff of a university", async function () {
+    const staff = await universityStaff.getUniversityStaff(university.address);
+    expect(staff.map((member: any) => member.account)).to.deep.equal([
+      registrar.address,
+      clerk.address,
+      viewer.address,
+    ]);
+
+    const member = await universityStaff.getStaffMember(clerk.address);
+    expect(member.university).to.equal(university.address);
+    expect(member.role).to.equal(CLERK);
+    expect(member.grantedAt).to.be.greaterThan(0);
+  });
+
+  it("Should require review of staff records unless the university opts out", async function () {
+    await expect(addRecord(registrar)).to.be.revertedWith(
+      "Staff records need review"
+    );
+    await expect(
+      universityStaff.connect(registrar).setDirectIssuance(true)
+    ).to.be.revertedWith("Not a university");
+
+    await expect(universityStaff.connect(university).setDirectIssuance(true))
+      .to.emit(universityStaff, "DirectIssuanceUpdated")
+      .withArgs(university.address, true);
+    await addRecord(registrar);
+    expect((await academicRecords.getRecord(1)).issuedBy).to.equal(
+      registrar.address
+    );
+
+    await universityStaff.connect(university).setDirectIssuance(false);
+    await expect(addRecord(registrar)).to.be.revertedWith(
+      "Staff records need review"
+    );
+  });
+
+  it("Should attribute records issued by staff to their university", async function () {
+    await universityStaff.connect(university).setDirectIssuance(true);
+    await expect(addRecord(registrar))
+      .to.emit(academicRecords, "RecordAdded")
+      .withArgs(1, "S12345", 0, university.address);
+    await addRecord(registrar);
+
+    const record = await academicRecords.getRecord(2);
+    expect(record.issuer).to.equal(university.address);
+    expect(record.issuedBy).to.equal(registrar.address);
+    expect(
+      await academicRecords.connect(university).getUniversityRecords()
+    ).to.deep.equal([BigInt(1), BigInt(2)]);
+
+    // The university keeps full control over records its staff issued
+    await academicRecords.connect(university).revokeRecord(2, 0, "");
+    expect(await academicRecords.verifyRecord(2)).to.equal(REVOKED);
+  });
+
+  it("Should record the university wallet as issuer of its own records", async function () {
+    await addRecord(university);
+    const record = await academicRecords.getRecord(1);
+    expect(record.issuer).to.equal(university.address);
+    expect(record.issuedBy).to.equal(university.address);
+  });
+
+  it("Should let clerks and viewers read but not issue records", async function () {
+    await universityStaff.connect(university).setDirectIssuance(true);
+    await addRecord(registrar);
+
+    await expect(addRecord(clerk)).to.be.reverted;
+    await expect(addRecord(viewer)).to.be.reverted;
+    const [recordIds, total] = await academicRecords
+      .connect(viewer)
+      .getUniversityRecordsPage(0, 10);
+    expect(recordIds).to.deep.equal([BigInt(1)]);
+    expect(total).to.equal(1);
+
+    const record = await academicRecords
+      .connect(viewer)
+      .getRecordWithPermission(1);
+    expect(record.ipfsHash).to.equal(
+      "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco"
+    );
+  });
+
+  it("Should remove all rights when a role is revoked", async function () {
+    await expect(
+      universityStaff.connect(university).revokeStaffRole(registrar.address)
+    )
+      .to.emit(universityStaff, "StaffRoleRevoked")
+      .withArgs(university.address, registrar.address);
+
+    await expect(addRecord(registrar)).to.be.reverted;
+    await expect(academicRecords.connect(registrar).getUniversityRecords()).to
+      .be.reverted;
+    expect(
+      (await universityStaff.getStaffMember(registrar.address)).role
+    ).to.equal(0);
+    expect(
+      await universityStaff.getUniversityStaff(university.address)
+    ).to.have.length(2);
+  });
+
+  it("Should only let a university manage its own staff", async function () {
+    await expect(
+      universityStaff.connect(registrar).grantStaffRole(student.address, CLERK)
+    ).to.be.revertedWith("Not a university");
+    await expect(
+      universityStaff
+        .connect(otherUniversity)
+        .grantStaffRole(clerk.address, REGISTRAR)
+    ).to.be.revertedWith("Account is staff of another university");
+    await expect(
+      universityStaff.connect(otherUniversity).revokeStaffRole(clerk.address)
+    ).to.be.revertedWith("Not a staff member");
+    await expect(
+      universityStaff
+        .connect(university)
+        .grantStaffRole(otherUniversity.address, CLERK)
+    ).to.be.revertedWith("Account is a university");
+  });
+
+  it("Should resolve the university an account acts for", async function () {
+    expect(
+      await universityStaff.resolveActingUniversity(clerk.address, CLERK)
+    ).to.equal(university.address);
+    expect(
+      await universityStaff.resolveActingUniversity(
+        otherUniversity.address,
+        REGISTRAR
+      )
+    ).to.equal(otherUniversity.address);
+
+    await expect(
+      universityStaff.resolveActingUniversity(clerk.address, REGISTRAR)
+    ).to.be.revertedWith("Not a university or its staff");
+    await expect(
+      universityStaff.resolveActingUniversity(student.address, VIEWER)
+    ).to.be.revertedWith("Not a university or its staff");
+  });
+});
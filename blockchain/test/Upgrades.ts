@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { ACADEMIC_RECORDS_PROXY_OPTIONS } from "../scripts/shared";
+import {
+  deployAcademicRecords,
+  getAcademicRecordsFactory,
+} from "./helpers/deploy";
+
+describe("Upgrades", function () {
+  let academicRecords: any;
+  let university: any;
+  let student: any;
+
+  beforeEach(async function () {
+    [, university, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+  });
+
+  it("Should keep records and roles when upgrading the implementation", async function () {
+    const proxyAddress = await academicRecords.getAddress();
+    const implementation = await upgrades.erc1967.getImplementationAddress(
+      proxyAddress
+    );
+
+    const upgraded = await upgrades.upgradeProxy(
+      proxyAddress,
+      await getAcademicRecordsFactory(),
+      { ...ACADEMIC_RECORDS_PROXY_OPTIONS, redeployImplementation: "always" }
+    );
+
+    expect(await upgraded.getAddress()).to.equal(proxyAddress);
+    expect(
+      await upgrades.erc1967.getImplementationAddress(proxyAddress)
+    ).to.not.equal(implementation);
+
+    const record = await upgraded.getRecord(1);
+    expect(record.studentAddress).to.equal(student.address);
+    expect(await upgraded.getTotalRecords()).to.equal(1);
+    expect(
+      await upgraded.hasRole(
+        await upgraded.UNIVERSITY_ROLE(),
+        university.address
+      )
+    ).to.equal(true);
+
+    const studentManagement = await ethers.getContractAt(
+      "StudentManagement",
+      await upgraded.studentManagement()
+    );
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      student.address
+    );
+  });
+
+  it("Should not initialize the proxy or the implementation twice", async function () {
+    await expect(
+      academicRecords.initialize(ethers.ZeroAddress)
+    ).to.be.revertedWith("Initializable: contract is already initialized");
+
+    const implementation = await ethers.getContractAt(
+      "AcademicRecords",
+      await upgrades.erc1967.getImplementationAddress(
+        await academicRecords.getAddress()
+      )
+    );
+    await expect(
+      implementation.initialize(ethers.ZeroAddress)
+    ).to.be.revertedWith("Initializable: contract is already initialized");
+  });
+
+  it("Should reject an incompatible storage layout", async function () {
+    const StudentManagement = await ethers.getContractFactory(
+      "StudentManagement"
+    );
+
+    await expect(
+      upgrades.validateUpgrade(
+        await academicRecords.getAddress(),
+        StudentManagement,
+        { kind: "transparent" }
+      )
+    ).to.be.rejectedWith("New storage layout is incompatible");
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Validity Window", function () {
+  let academicRecords: any;
+  let university: any;
+  let student: any;
+  let validFrom: number;
+  let validUntil: number;
+
+  const ADMIT_CARD = 12;
+  const REVOKED = 0;
+  const VALID = 1;
+  const NOT_YET_VALID = 2;
+  const EXPIRED = 3;
+
+  const ipfsHash = "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
+  const metadataHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+  const addRecord = (from: number, until: number) =>
+    academicRecords
+      .connect(university)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        ipfsHash,
+        metadataHash,
+        ADMIT_CARD,
+        0,
+        0,
+        from,
+        until,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, student] = await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+
+    validFrom = (await time.latest()) + 3600;
+    validUntil = validFrom + 7 * 24 * 3600;
+  });
+
+  it("Should report a record as not yet valid, valid and then expired", async function () {
+    await addRecord(validFrom, validUntil);
+
+    const record = await academicRecords.getRecord(1);
+    expect(record.validFrom).to.equal(validFrom);
+    expect(record.validUntil).to.equal(validUntil);
+
+    expect(await academicRecords.verifyRecord(1)).to.equal(NOT_YET_VALID);
+    await time.increaseTo(validFrom);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+    await time.increaseTo(validUntil);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+    await time.increase(1);
+    expect(await academicRecords.verifyRecord(1)).to.equal(EXPIRED);
+  });
+
+  it("Should keep records without a validity window valid", async function () {
+    await addRecord(0, 0);
+    await time.increase(10 * 365 * 24 * 3600);
+    expect(await academicRecords.verifyRecord(1)).to.equal(VALID);
+  });
+
+  it("Should report revoked records as revoked within their window", async function () {
+    await addRecord(0, validUntil);
+    await academicRecords.connect(university).revokeRecord(1, 0, "");
+    expect(await academicRecords.verifyRecord(1)).to.equal(REVOKED);
+
+    await time.increaseTo(validUntil + 1);
+    expect(await academicRecords.verifyRecord(1)).to.equal(REVOKED);
+  });
+
+  it("Should reject a window that ends before it starts", async function () {
+    await expect(addRecord(validUntil, validFrom)).to.be.revertedWith(
+      "Invalid validity window"
+    );
+  });
+
+  it("Should apply one window to a whole batch and keep it on corrections", async function () {
+    await academicRecords
+      .connect(university)
+      .addRecordsBatch(
+        ["S1", "S2"],
+        ["Alice", "Bob"],
+        [student.address, university.address],
+        "Example University",
+        [ipfsHash, ipfsHash],
+        [metadataHash, metadataHash],
+        [ADMIT_CARD, ADMIT_CARD],
+        0,
+        0,
+        validUntil
+      );
+    await academicRecords
+      .connect(university)
+      .supersedeRecord(1, "Alice Doe", ipfsHash, metadataHash, ADMIT_CARD, 0);
+
+    for (const recordId of [1, 2, 3]) {
+      expect((await academicRecords.getRecord(recordId)).validUntil).to.equal(
+        validUntil
+      );
+    }
+    await time.increaseTo(validUntil + 1);
+    expect(await academicRecords.verifyRecord(3)).to.equal(EXPIRED);
+  });
+});
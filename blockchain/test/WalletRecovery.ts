@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { deployAcademicRecords } from "./helpers/deploy";
+
+describe("Wallet Recovery", function () {
+  let academicRecords: any;
+  let studentManagement: any;
+  let university: any;
+  let otherUniversity: any;
+  let student: any;
+  let newWallet: any;
+  let stranger: any;
+
+  const SEVEN_DAYS = 7 * 24 * 60 * 60;
+  const THIRTY_DAYS = 30 * 24 * 60 * 60;
+
+  const issueRecord = (issuer: any) =>
+    academicRecords
+      .connect(issuer)
+      .addRecord(
+        "S12345",
+        "John Doe",
+        student.address,
+        "Example University",
+        "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco",
+        "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG",
+        0,
+        0,
+        0,
+        0,
+        0,
+        []
+      );
+
+  beforeEach(async function () {
+    [, university, otherUniversity, student, newWallet, stranger] =
+      await ethers.getSigners();
+
+    academicRecords = await deployAcademicRecords();
+    studentManagement = await ethers.getContractAt(
+      "StudentManagement",
+      await academicRecords.studentManagement()
+    );
+
+    await academicRecords.addUniversity(
+      university.address,
+      "Example University"
+    );
+    await academicRecords.addUniversity(
+      otherUniversity.address,
+      "Other University"
+    );
+    await issueRecord(university);
+  });
+
+  it("Should move the student after attestation and the waiting period", async function () {
+    await expect(
+      studentManagement.connect(newWallet).requestWalletRecovery("S12345")
+    )
+      .to.emit(studentManagement, "WalletRecoveryRequested")
+      .withArgs("S12345", newWallet.address, 1);
+
+    await expect(
+      studentManagement
+        .connect(university)
+        .attestWalletRecovery("S12345", newWallet.address)
+    )
+      .to.emit(studentManagement, "WalletRecoveryAttested")
+      .withArgs("S12345", university.address, 1, anyUint);
+
+    const recovery = await studentManagement.getWalletRecovery("S12345");
+    expect(recovery.newAddress).to.equal(newWallet.address);
+    expect(recovery.attestations).to.equal(1);
+    expect(
+      await studentManagement.hasAttestedWalletRecovery(
+        "S12345",
+        university.address
+      )
+    ).to.equal(true);
+
+    await expect(
+      studentManagement.connect(newWallet).completeWalletRecovery("S12345")
+    ).to.be.revertedWith("Recovery is still in waiting period");
+
+    await time.increase(SEVEN_DAYS);
+    await expect(
+      studentManagement.connect(newWallet).completeWalletRecovery("S12345")
+    )
+      .to.emit(studentManagement, "StudentAddressUpdated")
+      .withArgs(
+        "S12345",
+        student.address,
+        newWallet.address,
+        university.address
+      );
+
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      newWallet.address
+    );
+    expect(
+      await academicRecords.getStudentRecordsByAddress(newWallet.address)
+    ).to.deep.equal([BigInt(1)]);
+    expect(
+      (await studentManagement.getWalletRecovery("S12345")).newAddress
+    ).to.equal(ethers.ZeroAddress);
+  });
+
+  it("Should require an attestation from an issuing university", async function () {
+    await studentManagement.connect(newWallet).requestWalletRecovery("S12345");
+
+    await expect(
+      studentManagement
+        .connect(otherUniversity)
+        .attestWalletRecovery("S12345", newWallet.address)
+    ).to.be.revertedWith("Not the issuing university");
+    await expect(
+      studentManagement
+        .connect(stranger)
+        .attestWalletRecovery("S12345", newWallet.address)
+    ).to.be.revertedWith("Not the issuing university");
+    await expect(
+      studentManagement
+        .connect(university)
+        .attestWalletRecovery("S12345", stranger.address)
+    ).to.be.revertedWith("No matching recovery pending");
+
+    await time.increase(SEVEN_DAYS);
+    await expect(
+      studentManagement.connect(newWallet).completeWalletRecovery("S12345")
+    ).to.be.revertedWith("Recovery not attested");
+  });
+
+  it("Should count attestations from several issuing universities", async function () {
+    await issueRecord(otherUniversity);
+    await studentManagement.connect(newWallet).requestWalletRecovery("S12345");
+
+    await studentManagement
+      .connect(university)
+      .attestWalletRecovery("S12345", newWallet.address);
+    await expect(
+      studentManagement
+        .connect(university)
+        .attestWalletRecovery("S12345", newWallet.address)
+    ).to.be.revertedWith("Already attested");
+    await studentManagement
+      .connect(otherUniversity)
+      .attestWalletRecovery("S12345", newWallet.address);
+
+    const recovery = await studentManagement.getWalletRecovery("S12345");
+    expect(recovery.attestations).to.equal(2);
+    expect(recovery.firstAttester).to.equal(university.address);
+  });
+
+  it("Should let the old wallet veto during the waiting period", async function () {
+    await studentManagement.connect(stranger).requestWalletRecovery("S12345");
+    await studentManagement
+      .connect(university)
+      .attestWalletRecovery("S12345", stranger.address);
+
+    await expect(
+      studentManagement.connect(newWallet).cancelWalletRecovery("S12345")
+    ).to.be.revertedWith("Not the issuing university");
+    await expect(
+      studentManagement.connect(student).cancelWalletRecovery("S12345")
+    )
+      .to.emit(studentManagement, "WalletRecoveryCancelled")
+      .withArgs("S12345", stranger.address, student.address);
+
+    await time.increase(SEVEN_DAYS);
+    await expect(
+      studentManagement.connect(stranger).completeWalletRecovery("S12345")
+    ).to.be.revertedWith("Recovery not attested");
+    expect(await studentManagement.getStudentAddress("S12345")).to.equal(
+      student.address
+    );
+  });
+
+  it("Should let an issuing university reject a request", async function () {
+    await studentManagement.connect(stranger).requestWalletRecovery("S12345");
+    await studentManagement.connect(university).cancelWalletRecovery("S12345");
+
+    await studentManagement.connect(newWallet).requestWalletRecovery("S12345");
+    expect(
+      await studentManagement.hasAttestedWalletRecovery(
+        "S12345",
+        university.address
+      )
+    ).to.equal(false);
+  });
+
+  it("Should let unattested requests lapse", async function () {
+    await studentManagement.connect(stranger).requestWalletRecovery("S12345");
+    await expect(
+      studentManagement.connect(newWallet).requestWalletRecovery("S12345")
+    ).to.be.revertedWith("Recovery already pending");
+
+    await time.increase(THIRTY_DAYS);
+    await expect(
+      studentManagement
+        .connect(university)
+        .attestWalletRecovery("S12345", stranger.address)
+    ).to.be.revertedWith("No matching recovery pending");
+    await studentManagement.connect(newWallet).requestWalletRecovery("S12345");
+  });
+
+  it("Should not recover to an address of another student", async function () {
+    await academicRecords
+      .connect(university)
+      .registerStudent("S67890", newWallet.address);
+
+    await expect(
+      studentManagement.connect(newWallet).requestWalletRecovery("S12345")
+    ).to.be.revertedWith("Address belongs to another student");
+    await expect(
+      studentManagement.connect(stranger).requestWalletRecovery("S00000")
+    ).to.be.revertedWith("Student not registered");
+  });
+
+  it("Should not progress recoveries while paused", async function () {
+    await academicRecords.pause();
+
+    await expect(
+      studentManagement.connect(newWallet).requestWalletRecovery("S12345")
+    ).to.be.revertedWith("Pausable: paused");
+  });
+});
@@ -0,0 +1,92 @@
+import { ethers, upgrades } from "hardhat";
+import {
+  ACADEMIC_RECORDS_PROXY_OPTIONS,
+  STUDENT_MANAGEMENT_PROXY_OPTIONS,
+  deployLibraries,
+  deployModule,
+} from "../../scripts/shared";
+
+// Returns an AcademicRecords factory linked to freshly deployed libraries
+export async function getAcademicRecordsFactory() {
+  return await ethers.getContractFactory("AcademicRecords", {
+    libraries: { ...(await deployLibraries()) },
+  });
+}
+
+// Deploys AcademicRecords and StudentManagement behind proxies, the same way
+// scripts/deploy.ts does
+export async function deployAcademicRecords(): Promise<any> {
+  // The linked library warning would repeat for every deployment
+  upgrades.silenceWarnings();
+
+  const StudentManagement = await ethers.getContractFactory(
+    "StudentManagement"
+  );
+  const studentManagement = await upgrades.deployProxy(
+    StudentManagement,
+    [],
+    STUDENT_MANAGEMENT_PROXY_OPTIONS
+  );
+
+  const academicRecords = await upgrades.deployProxy(
+    await getAcademicRecordsFactory(),
+    [await studentManagement.getAddress()],
+    ACADEMIC_RECORDS_PROXY_OPTIONS
+  );
+  await studentManagement.setAcademicRecords(
+    await academicRecords.getAddress()
+  );
+  return academicRecords;
+}
+
+// Deploys the AccessLog module for an AcademicRecords proxy
+export async function deployAccessLog(academicRecords: any): Promise<any> {
+  return await ethers.getContractAt(
+    "AccessLog",
+    await deployModule("AccessLog", await academicRecords.getAddress())
+  );
+}
+
+// Deploys the UniversityProfiles module for an AcademicRecords proxy
+export async function deployUniversityProfiles(
+  academicRecords: any
+): Promise<any> {
+  return await ethers.getContractAt(
+    "UniversityProfiles",
+    await deployModule("UniversityProfiles", await academicRecords.getAddress())
+  );
+}
+
+// Deploys the UniversityStaff module and links it to an AcademicRecords proxy
+export async function deployUniversityStaff(
+  academicRecords: any
+): Promise<any> {
+  const universityStaff = await ethers.getContractAt(
+    "UniversityStaff",
+    await deployModule("UniversityStaff", await academicRecords.getAddress())
+  );
+  await academicRecords.setUniversityStaff(await universityStaff.getAddress());
+  return universityStaff;
+}
+
+// Deploys the RecordDrafts module and links it to an AcademicRecords proxy
+export async function deployRecordDrafts(academicRecords: any): Promise<any> {
+  const recordDrafts = await ethers.getContractAt(
+    "RecordDrafts",
+    await deployModule("RecordDrafts", await academicRecords.getAddress())
+  );
+  await academicRecords.setRecordDrafts(await recordDrafts.getAddress());
+  return recordDrafts;
+}
+
+// Deploys the RecordCosigning module and links it to an AcademicRecords proxy
+export async function deployRecordCosigning(
+  academicRecords: any
+): Promise<any> {
+  const recordCosigning = await ethers.getContractAt(
+    "RecordCosigning",
+    await deployModule("RecordCosigning", await academicRecords.getAddress())
+  );
+  await academicRecords.setRecordCosigning(await recordCosigning.getAddress());
+  return recordCosigning;
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { getGatewayUrl } from "@/lib/pinata";
+import { truncateAddress } from "@/lib/utils";
+import { type UniversityApplication, isWebsiteUrl } from "@/types/universities";
+import { FileCheck, ThumbsUp, ThumbsDown } from "lucide-react";
+
+interface UniversityApplicationsProps {
+  onApproved: () => void;
+}
+
+/**
+ * Admin review of pending applications to register as a university.
+ *
+ * Lists each application with its contact details and accreditation documents. Approving registers the applicant wallet under the name it applied with, granting it the university role, and publishes its profile; `onApproved` is called afterwards so the university list can be refreshed. Rejecting needs a reason, which the applicant sees on the apply page.
+ */
+export default function UniversityApplications({
+  onApproved,
+}: UniversityApplicationsProps) {
+  const [applications, setApplications] = useState<UniversityApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState("");
+  const [rejecting, setRejecting] = useState("");
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [error, setError] = useState("");
+
+  const loadApplications = useCallback(async () => {
+    try {
+      setApplications(
+        await blockchainService.getPendingUniversityApplications()
+      );
+    } catch (err) {
+      console.error("Error loading university applications:", err);
+      setError("Failed to load applications. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const handleApprove = async (application: UniversityApplication) => {
+    setReviewing(application.applicant);
+    setError("");
+    try {
+      await blockchainService.approveUniversityApplication(application);
+      await loadApplications();
+      onApproved();
+    } catch (err) {
+      console.error("Error approving university application:", err);
+      setError("Failed to approve the application. Please try again.");
+    } finally {
+      setReviewing("");
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent, applicant: string) => {
+    e.preventDefault();
+    if (!rejectionReason.trim()) {
+      setError("Please give a reason for rejecting the application");
+      return;
+    }
+
+    setReviewing(applicant);
+    setError("");
+    try {
+      await blockchainService.rejectUniversityApplication(
+        applicant,
+        rejectionReason.trim()
+      );
+      setRejecting("");
+      setRejectionReason("");
+      await loadApplications();
+    } catch (err) {
+      console.error("Error rejecting university application:", err);
+      setError("Failed to reject the application. Please try again.");
+    } finally {
+      setReviewing("");
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading applications...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-black">
+        Pending Applications ({applications.length})
+      </h3>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {applications.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <FileCheck className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>No applications awaiting review</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {applications.map((application) => (
+            <div
+              key={application.applicant}
+              className="p-4 border border-gray-200 rounded-lg space-y-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h4 className="font-medium text-gray-900">
+                    {application.name}
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    {truncateAddress(application.applicant)}, applied{" "}
+                    {new Date(
+                      application.submittedAt * 1000
+                    ).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={() => handleApprove(application)}
+                    disabled={reviewing !== ""}
+                    className="bg-green-100 text-green-700 hover:bg-green-200 px-3 py-1 text-sm"
+                  >
+                    <ThumbsUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setRejecting(application.applicant);
+                      setRejectionReason("");
+                    }}
+                    disabled={reviewing !== ""}
+                    className="bg-red-100 text-red-700 hover:bg-red-200 px-3 py-1 text-sm"
+                  >
+                    <ThumbsDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Accreditation</dt>
+                  <dd className="text-gray-900">
+                    {application.profile.accreditationBody || "Not given"}
+                    {application.profile.accreditationId &&
+                      ` (${application.profile.accreditationId})`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Country</dt>
+                  <dd className="text-gray-900">
+                    {application.profile.country || "Not given"}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Contact</dt>
+                  <dd className="text-gray-900 break-all">
+                    {application.profile.contactEmail}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Website</dt>
+                  <dd className="break-all">
+                    {isWebsiteUrl(application.profile.website) ? (
+                      <a
+                        href={application.profile.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {application.profile.website}
+                      </a>
+                    ) : (
+                      <span className="text-gray-900">
+                        {application.profile.website || "Not given"}
+                      </span>
+                    )}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Accreditation documents</dt>
+                  <dd>
+                    <a
+                      href={getGatewayUrl(application.documentsHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      View documents
+                    </a>
+                  </dd>
+                </div>
+                {application.profile.logoHash && (
+                  <div>
+                    <dt className="text-gray-500">Logo</dt>
+                    <dd>
+                      <a
+                        href={getGatewayUrl(application.profile.logoHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        View logo
+                      </a>
+                    </dd>
+                  </div>
+                )}
+              </dl>
+
+              {rejecting === application.applicant && (
+                <form
+                  onSubmit={(e) => handleReject(e, application.applicant)}
+                  className="flex gap-4"
+                >
+                  <input
+                    type="text"
+                    placeholder="Reason for rejecting"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={reviewing !== ""}
+                    onClick={() => setRejecting("")}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={reviewing !== "" || !rejectionReason.trim()}
+                    className="bg-red-600 text-white hover:bg-red-700"
+                  >
+                    Reject
+                  </Button>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/Button";
+import { blockchainService, University } from "@/services/blockchain";
+import { getGatewayUrl, uploadToIpfs } from "@/lib/pinata";
+import { truncateAddress } from "@/lib/utils";
+import {
+  UniversityProfile,
+  EMPTY_UNIVERSITY_PROFILE,
+  UNIVERSITY_PROFILE_FIELDS,
+  isWebsiteUrl,
+} from "@/types/universities";
+
+interface UniversityProfileDialogProps {
+  university: University;
+  onCancel: () => void;
+  onSaved: (university: University) => void;
+}
+
+/**
+ * Dialog for admins to edit the name and profile of a registered university.
+ *
+ * Loads the current profile from the UniversityProfiles contract. The logo is uploaded to IPFS when chosen, and saving writes the name, when changed, and the profile in separate transactions. Calls `onSaved` with the saved name once both are confirmed.
+ */
+export default function UniversityProfileDialog({
+  university,
+  onCancel,
+  onSaved,
+}: UniversityProfileDialogProps) {
+  const [name, setName] = useState(university.name);
+  const [profile, setProfile] = useState<UniversityProfile>(
+    EMPTY_UNIVERSITY_PROFILE
+  );
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setProfile(
+          await blockchainService.getUniversityProfile(university.address)
+        );
+      } catch (err) {
+        console.error("Error loading university profile:", err);
+        setError("Failed to load the current profile.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [university.address]);
+
+  const updateField = (key: keyof UniversityProfile, value: string) =>
+    setProfile((current) => ({ ...current, [key]: value }));
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    setError("");
+    try {
+      updateField("logoHash", await uploadToIpfs(file));
+    } catch (err: any) {
+      console.error("Error uploading logo:", err);
+      setError(err.message || "Failed to upload the logo.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Please enter the university name");
+      return;
+    }
+    if (profile.website && !isWebsiteUrl(profile.website.trim())) {
+      setError("The website must start with http:// or https://");
+      return;
+    }
+    if (profile.contactEmail && !profile.contactEmail.includes("@")) {
+      setError("Please enter a valid contact email");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      if (name.trim() !== university.name) {
+        await blockchainService.setUniversityName(
+          university.address,
+          name.trim()
+        );
+      }
+      await blockchainService.setUniversityProfile(university.address, {
+        ...profile,
+        website: profile.website.trim(),
+        contactEmail: profile.contactEmail.trim(),
+      });
+      onSaved({ address: university.address, name: name.trim() });
+    } catch (err) {
+      console.error("Error saving university profile:", err);
+      setError("Failed to save the profile. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto"
+      >
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Edit university profile
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {truncateAddress(university.address)}. Verifiers see this profile
+            next to every record the university issued.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading profile...</div>
+        ) : (
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+
+            {UNIVERSITY_PROFILE_FIELDS.map((field) => (
+              <label key={field.key} className="block text-sm text-gray-700">
+                {field.label}
+                <input
+                  type="text"
+                  placeholder={field.placeholder}
+                  value={profile[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  className={`mt-1 ${inputClassName}`}
+                />
+              </label>
+            ))}
+
+            <div className="text-sm text-gray-700">
+              Logo
+              <div className="mt-1 flex items-center gap-4">
+                {profile.logoHash && (
+                  <Image
+                    src={getGatewayUrl(profile.logoHash)}
+                    alt={`${name} logo`}
+                    width={48}
+                    height={48}
+                    unoptimized
+                    className="h-12 w-12 rounded object-contain border border-gray-200"
+                  />
+                )}
+                <input
+                  type="file"
+                  accept="image/*"
+                  disabled={uploading}
+                  onChange={handleLogoChange}
+                  className="text-sm text-gray-600"
+                />
+              </div>
+              {uploading && (
+                <p className="mt-1 text-xs text-gray-500">Uploading logo...</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={submitting}
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={loading || uploading || submitting}
+          >
+            {submitting ? "Saving..." : "Save profile"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
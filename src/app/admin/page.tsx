@@ -4,8 +4,15 @@ import { useState, useEffect, ReactNode } from "react";
 import { useRouter } from "next/navigation";
 import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
+import { Pagination, PAGE_SIZE } from "@/components/ui/Pagination";
 import { blockchainService } from "@/services/blockchain";
-import { truncateAddress } from "@/lib/utils";
+import { truncateAddress, formatTimeRemaining } from "@/lib/utils";
+import {
+  type Proposal,
+  type SuperAdminTransfer,
+  ProposalAction,
+  PROPOSAL_ACTION_NAMES,
+} from "@/types/governance";
 import { ethers } from "ethers";
 import {
   Shield,
@@ -23,7 +30,16 @@ import {
   UserMinus,
   FileText,
   Eye,
+  ClipboardCheck,
+  ThumbsUp,
+  ThumbsDown,
+  KeyRound,
+  ArrowRightLeft,
+  Pencil,
+  FileCheck,
 } from "lucide-react";
+import UniversityApplications from "./UniversityApplications";
+import UniversityProfileDialog from "./UniversityProfileDialog";
 
 interface University {
   address: string;
@@ -47,7 +63,11 @@ interface CustomRecordType {
 /**
  * Renders the administrative dashboard for managing a blockchain-based academic record system.
  *
- * Provides role-based access for super admins and admins to manage universities, admins, students, and custom record types. Handles authentication, contract state (pause/unpause), and displays system statistics and entity management forms within a tabbed interface.
+ * Provides role-based access for super admins and admins to manage universities, admins, students, and custom record types. Handles authentication, contract state (pause/unpause), and displays system statistics and entity management forms within a tabbed interface. The university and admin lists load one page at a time, and admins can edit the name and profile of each university. The "Applications" tab lets admins approve or reject institutions that applied to become a university.
+ *
+ * Once multi-admin approval is enabled, pausing, admin changes and university removal create proposals instead of executing directly, and the "Pending approvals" tab lets admins approve or reject open proposals.
+ *
+ * A pending super admin transfer or recovery is shown above the tabs with its timelock countdown. The nominee may open the page before holding any admin role, in which case only the transfer is shown.
  *
  * Redirects unauthorized users to the login page and displays real-time feedback for all blockchain operations.
  *
@@ -66,16 +86,17 @@ export default function AdminPage() {
   // Super Admin specific states
   const [isSuperAdmin, setIsSuperAdmin] = useState(false);
   const [admins, setAdmins] = useState<Admin[]>([]);
+  const [adminOffset, setAdminOffset] = useState(0);
   const [newAdminAddress, setNewAdminAddress] = useState("");
 
   // University management
   const [universities, setUniversities] = useState<University[]>([]);
+  const [universityOffset, setUniversityOffset] = useState(0);
   const [newUniversityAddress, setNewUniversityAddress] = useState("");
   const [newUniversityName, setNewUniversityName] = useState("");
-  const [editingUniversity, setEditingUniversity] = useState<{
-    address: string;
-    name: string;
-  } | null>(null);
+  const [editingUniversity, setEditingUniversity] = useState<University | null>(
+    null
+  );
 
   // Custom Record Types
   const [customTypes, setCustomTypes] = useState<CustomRecordType[]>([]);
@@ -93,6 +114,27 @@ export default function AdminPage() {
   // Student management
   const [newStudentId, setNewStudentId] = useState("");
   const [newStudentAddress, setNewStudentAddress] = useState("");
+  const [changeStudentId, setChangeStudentId] = useState("");
+  const [changeStudentAddress, setChangeStudentAddress] = useState("");
+  const [claimExpiryDays, setClaimExpiryDays] = useState(0);
+  const [newClaimExpiryDays, setNewClaimExpiryDays] = useState("");
+
+  // Multi-admin approval state
+  const [approvalThreshold, setApprovalThreshold] = useState(1);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [newThreshold, setNewThreshold] = useState("");
+
+  // Super admin transfer state
+  const [superAdminTransfer, setSuperAdminTransfer] =
+    useState<SuperAdminTransfer | null>(null);
+  const [newSuperAdminAddress, setNewSuperAdminAddress] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  // Refreshes the transfer countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     const initWallet = async () => {
@@ -122,8 +164,13 @@ export default function AdminPage() {
         setIsSuperAdmin(hasSuperAdminRole);
 
         if (!hasAdminRole && !hasSuperAdminRole) {
-          router.push("/login");
-          return;
+          // The nominee of a pending transfer may accept it from here
+          const transfer =
+            await blockchainService.getPendingSuperAdminTransfer();
+          if (transfer?.newSuperAdmin.toLowerCase() !== address.toLowerCase()) {
+            router.push("/login");
+            return;
+          }
         }
 
         if (hasSuperAdminRole && !hasAdminRole) {
@@ -148,8 +195,14 @@ export default function AdminPage() {
       const paused = await blockchainService.isPaused();
       setIsPaused(paused);
 
-      const allUniversities = await blockchainService.getAllUniversities();
-      setUniversities(allUniversities);
+      const totalUniversities = await loadUniversities(universityOffset);
+
+      setApprovalThreshold(await blockchainService.getApprovalThreshold());
+      setProposals(await blockchainService.getPendingProposals());
+      setSuperAdminTransfer(
+        await blockchainService.getPendingSuperAdminTransfer()
+      );
+      setClaimExpiryDays((await blockchainService.getClaimExpiry()) / 86400);
 
       // Load stats
       const totalRecords = await blockchainService.getTotalRecords();
@@ -158,15 +211,14 @@ export default function AdminPage() {
       setStats({
         totalRecords,
         totalCustomTypes,
-        totalUniversities: allUniversities.length,
+        totalUniversities,
         totalAdmins: 0, // Will be updated if super admin
       });
 
       // Load super admin specific data
       if (isSuperAdmin) {
-        const allAdmins = await blockchainService.getAllAdmins();
-        setAdmins(allAdmins.map((addr) => ({ address: addr })));
-        setStats((prev) => ({ ...prev, totalAdmins: allAdmins.length }));
+        const totalAdmins = await loadAdmins(adminOffset);
+        setStats((prev) => ({ ...prev, totalAdmins }));
       }
 
       // Load custom types for universities
@@ -180,6 +232,40 @@ export default function AdminPage() {
     }
   };
 
+  // Loads a page of universities, stepping back a page when removals left
+  // the current one empty. Returns the number of universities
+  const loadUniversities = async (offset: number): Promise<number> => {
+    const page = await blockchainService.getUniversitiesPage(offset, PAGE_SIZE);
+    if (page.items.length === 0 && offset > 0) {
+      return loadUniversities(Math.max(offset - PAGE_SIZE, 0));
+    }
+    setUniversities(page.items);
+    setUniversityOffset(offset);
+    return page.total;
+  };
+
+  const loadAdmins = async (offset: number): Promise<number> => {
+    const page = await blockchainService.getAdminsPage(offset, PAGE_SIZE);
+    if (page.items.length === 0 && offset > 0) {
+      return loadAdmins(Math.max(offset - PAGE_SIZE, 0));
+    }
+    setAdmins(page.items.map((addr) => ({ address: addr })));
+    setAdminOffset(offset);
+    return page.total;
+  };
+
+  const handlePageChange = async (
+    load: (offset: number) => Promise<number>,
+    offset: number
+  ) => {
+    try {
+      await load(offset);
+    } catch (err) {
+      console.error("Error loading page:", err);
+      showMessage("Failed to load page", "error");
+    }
+  };
+
   const showMessage = (message: string, type: "success" | "error") => {
     if (type === "success") {
       setSuccess(message);
@@ -194,9 +280,27 @@ export default function AdminPage() {
     }, 5000);
   };
 
+  const requiresApproval = approvalThreshold > 1;
+
+  // With multi-admin approval enabled, sensitive actions become proposals
+  const proposeAction = async (action: ProposalAction, target?: string) => {
+    const proposalId = await blockchainService.proposeAction(action, target);
+    await loadData();
+    showMessage(
+      `Proposal #${proposalId} created and awaiting approval`,
+      "success"
+    );
+  };
+
   const handlePauseToggle = async () => {
     try {
       setLoading(true);
+      if (requiresApproval) {
+        await proposeAction(
+          isPaused ? ProposalAction.UNPAUSE : ProposalAction.PAUSE
+        );
+        return;
+      }
       if (isPaused) {
         await blockchainService.unpauseContract();
         showMessage("Contract unpaused successfully", "success");
@@ -264,6 +368,87 @@ export default function AdminPage() {
     }
   };
 
+  const handleRequestAddressChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changeStudentId || !changeStudentAddress) {
+      showMessage(
+        "Please enter both student ID and new wallet address",
+        "error"
+      );
+      return;
+    }
+
+    if (!ethers.isAddress(changeStudentAddress)) {
+      showMessage("Invalid Ethereum address format", "error");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await blockchainService.requestStudentAddressChange(
+        changeStudentId,
+        changeStudentAddress
+      );
+      setChangeStudentId("");
+      setChangeStudentAddress("");
+      showMessage(
+        "Address change requested, the issuing university must approve it",
+        "success"
+      );
+    } catch (err) {
+      console.error("Error requesting address change:", err);
+      showMessage("Failed to request address change", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChangeClaimExpiry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const days = parseFloat(newClaimExpiryDays);
+    if (isNaN(days) || days <= 0) {
+      showMessage("Please enter a valid number of days", "error");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await blockchainService.setClaimExpiry(Math.round(days * 86400));
+      setClaimExpiryDays(days);
+      setNewClaimExpiryDays("");
+      showMessage("Claim expiry updated", "success");
+    } catch (err) {
+      console.error("Error changing claim expiry:", err);
+      showMessage("Failed to change claim expiry", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Admins approve address changes for students who have no records yet
+  const handleApproveAddressChange = async () => {
+    if (!changeStudentId) {
+      showMessage("Please enter a student ID", "error");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await blockchainService.approveStudentAddressChange(changeStudentId);
+      setChangeStudentId("");
+      setChangeStudentAddress("");
+      showMessage("Student address updated", "success");
+    } catch (err) {
+      console.error("Error approving address change:", err);
+      showMessage(
+        "Failed to approve address change, students with records need their issuing university's approval",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAddAdmin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newAdminAddress) {
@@ -273,6 +458,11 @@ export default function AdminPage() {
 
     try {
       setLoading(true);
+      if (requiresApproval) {
+        await proposeAction(ProposalAction.ADD_ADMIN, newAdminAddress);
+        setNewAdminAddress("");
+        return;
+      }
       await blockchainService.addAdmin(newAdminAddress);
       await loadData();
       setNewAdminAddress("");
@@ -290,6 +480,10 @@ export default function AdminPage() {
 
     try {
       setLoading(true);
+      if (requiresApproval) {
+        await proposeAction(ProposalAction.REMOVE_ADMIN, adminAddress);
+        return;
+      }
       await blockchainService.removeAdmin(adminAddress);
       await loadData();
       showMessage("Admin removed successfully", "success");
@@ -301,11 +495,26 @@ export default function AdminPage() {
     }
   };
 
+  const handleUniversityProfileSaved = (saved: University) => {
+    setUniversities((current) =>
+      current.map((uni) => (uni.address === saved.address ? saved : uni))
+    );
+    setEditingUniversity(null);
+    showMessage("University profile saved", "success");
+  };
+
   const handleRemoveUniversity = async (universityAddress: string) => {
     if (!confirm("Are you sure you want to remove this university?")) return;
 
     try {
       setLoading(true);
+      if (requiresApproval) {
+        await proposeAction(
+          ProposalAction.REMOVE_UNIVERSITY,
+          universityAddress
+        );
+        return;
+      }
       await blockchainService.removeUniversity(universityAddress);
       await loadData();
       showMessage("University removed successfully", "success");
@@ -342,6 +551,138 @@ export default function AdminPage() {
     }
   };
 
+  const handleVote = async (proposalId: number, approve: boolean) => {
+    try {
+      setLoading(true);
+      if (approve) {
+        await blockchainService.approveProposal(proposalId);
+      } else {
+        await blockchainService.rejectProposal(proposalId);
+      }
+      await loadData();
+      showMessage(
+        `Proposal #${proposalId} ${approve ? "approved" : "rejected"}`,
+        "success"
+      );
+    } catch (err) {
+      console.error("Error voting on proposal:", err);
+      showMessage("Failed to record your vote", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChangeThreshold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const threshold = parseInt(newThreshold, 10);
+    if (isNaN(threshold) || threshold < 1) {
+      showMessage("Please enter a valid threshold", "error");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      if (requiresApproval) {
+        const proposalId = await blockchainService.proposeAction(
+          ProposalAction.SET_THRESHOLD,
+          undefined,
+          threshold
+        );
+        showMessage(
+          `Proposal #${proposalId} created and awaiting approval`,
+          "success"
+        );
+      } else {
+        await blockchainService.setApprovalThreshold(threshold);
+        showMessage("Approval threshold updated", "success");
+      }
+      await loadData();
+      setNewThreshold("");
+    } catch (err) {
+      console.error("Error changing approval threshold:", err);
+      showMessage("Failed to change approval threshold", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProposeSuperAdminTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(newSuperAdminAddress)) {
+      showMessage("Please enter a valid address", "error");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await blockchainService.proposeSuperAdminTransfer(newSuperAdminAddress);
+      await loadData();
+      setNewSuperAdminAddress("");
+      showMessage(
+        isSuperAdmin
+          ? "Super admin transfer proposed"
+          : "Super admin recovery started",
+        "success"
+      );
+    } catch (err) {
+      console.error("Error proposing super admin transfer:", err);
+      showMessage("Failed to propose super admin transfer", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSuperAdminTransferAction = async (
+    action: "approve" | "cancel" | "accept"
+  ) => {
+    try {
+      setLoading(true);
+      if (action === "approve") {
+        await blockchainService.approveSuperAdminRecovery();
+        showMessage("Recovery approved", "success");
+      } else if (action === "cancel") {
+        await blockchainService.cancelSuperAdminTransfer();
+        showMessage(
+          isSuperAdmin
+            ? "Super admin transfer cancelled"
+            : "Vote to cancel the recovery recorded",
+          "success"
+        );
+      } else {
+        await blockchainService.acceptSuperAdminTransfer();
+        // Roles changed, so reload the page for the new super admin
+        window.location.reload();
+        return;
+      }
+      await loadData();
+    } catch (err) {
+      console.error(`Error on super admin transfer (${action}):`, err);
+      showMessage(`Failed to ${action} super admin transfer`, "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeProposal = (proposal: Proposal) => {
+    switch (proposal.action) {
+      case ProposalAction.REMOVE_UNIVERSITY: {
+        const university = universities.find(
+          (uni) => uni.address === proposal.target
+        );
+        return university
+          ? `${university.name} (${truncateAddress(proposal.target)})`
+          : truncateAddress(proposal.target);
+      }
+      case ProposalAction.ADD_ADMIN:
+      case ProposalAction.REMOVE_ADMIN:
+        return truncateAddress(proposal.target);
+      case ProposalAction.SET_THRESHOLD:
+        return `${proposal.value} approvals`;
+      default:
+        return "";
+    }
+  };
+
   // handleRegisterStudent is already defined above
 
   const StatCard = ({
@@ -390,6 +731,80 @@ export default function AdminPage() {
     </button>
   );
 
+  const isNominee =
+    superAdminTransfer?.newSuperAdmin.toLowerCase() ===
+    connectedAddress.toLowerCase();
+  const transferUnlocked =
+    superAdminTransfer !== null &&
+    now >= superAdminTransfer.executableAt * 1000;
+
+  const superAdminTransferPanel = superAdminTransfer && (
+    <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+      <div className="flex items-center">
+        <KeyRound className="w-5 h-5 text-yellow-600 mr-3" />
+        <div className="text-yellow-800">
+          <p className="font-medium">
+            Pending super admin{" "}
+            {superAdminTransfer.isRecovery ? "recovery" : "transfer"} to{" "}
+            {truncateAddress(superAdminTransfer.newSuperAdmin)}
+          </p>
+          <p className="text-sm">
+            {transferUnlocked
+              ? superAdminTransfer.isRecovery
+                ? `Timelock passed · Lapses: ${formatTimeRemaining(
+                    superAdminTransfer.expiresAt,
+                    now
+                  )}`
+                : "Timelock passed"
+              : `Timelock: ${formatTimeRemaining(
+                  superAdminTransfer.executableAt,
+                  now
+                )}`}
+            {superAdminTransfer.isRecovery &&
+              ` · ${superAdminTransfer.approvals}/${superAdminTransfer.quorum} admin approvals`}
+          </p>
+        </div>
+      </div>
+      <div className="flex space-x-2">
+        {superAdminTransfer.isRecovery &&
+          isAdmin &&
+          !isSuperAdmin &&
+          !superAdminTransfer.hasApproved && (
+            <Button
+              onClick={() => handleSuperAdminTransferAction("approve")}
+              className="bg-green-100 text-green-700 hover:bg-green-200 px-3 py-1 text-sm"
+            >
+              Approve Recovery
+            </Button>
+          )}
+        {(isSuperAdmin ||
+          (superAdminTransfer.isRecovery &&
+            isAdmin &&
+            !superAdminTransfer.hasVotedToCancel)) && (
+          <Button
+            onClick={() => handleSuperAdminTransferAction("cancel")}
+            className="bg-red-100 text-red-700 hover:bg-red-200 px-3 py-1 text-sm"
+          >
+            {isSuperAdmin ? "Cancel" : "Vote to Cancel"}
+          </Button>
+        )}
+        {isNominee && (
+          <Button
+            onClick={() => handleSuperAdminTransferAction("accept")}
+            disabled={
+              !transferUnlocked ||
+              (superAdminTransfer.isRecovery &&
+                superAdminTransfer.approvals < superAdminTransfer.quorum)
+            }
+            className="px-3 py-1 text-sm"
+          >
+            Accept Super Admin Role
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <MainLayout>
@@ -400,6 +815,23 @@ export default function AdminPage() {
     );
   }
 
+  // A nominee without an admin role only sees the pending transfer
+  if (!isAdmin) {
+    return (
+      <MainLayout>
+        <div className="p-6 max-w-7xl mx-auto">
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center">
+              <XCircle className="w-5 h-5 text-red-500 mr-3" />
+              <span className="text-red-700">{error}</span>
+            </div>
+          )}
+          {superAdminTransferPanel}
+        </div>
+      </MainLayout>
+    );
+  }
+
   return (
     <MainLayout>
       <div className="p-6 max-w-7xl mx-auto">
@@ -470,6 +902,9 @@ export default function AdminPage() {
           </div>
         )}
 
+        {/* Super Admin Transfer */}
+        {superAdminTransferPanel}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <StatCard
@@ -512,6 +947,11 @@ export default function AdminPage() {
             label={<span className="text-white">Universities</span>}
             icon={GraduationCap}
           />
+          <TabButton
+            id="applications"
+            label={<span className="text-white">Applications</span>}
+            icon={FileCheck}
+          />
           {isSuperAdmin && (
             <TabButton
               id="admins"
@@ -529,6 +969,15 @@ export default function AdminPage() {
             label={<span className="text-white">Custom Types</span>}
             icon={Settings}
           />
+          <TabButton
+            id="approvals"
+            label={
+              <span className="text-white">
+                Pending approvals ({proposals.length})
+              </span>
+            }
+            icon={ClipboardCheck}
+          />
         </div>
 
         {/* Tab Content */}
@@ -625,7 +1074,7 @@ export default function AdminPage() {
               {/* Universities List */}
               <div className="space-y-4">
                 <h3 className="font-medium text-black">
-                  Registered Universities ({universities.length})
+                  Registered Universities ({stats.totalUniversities})
                 </h3>
                 {universities.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
@@ -647,8 +1096,15 @@ export default function AdminPage() {
                             {truncateAddress(uni.address)}
                           </p>
                         </div>
-                        {isSuperAdmin && (
-                          <div className="flex space-x-2">
+                        <div className="flex space-x-2">
+                          <Button
+                            onClick={() => setEditingUniversity(uni)}
+                            className="bg-blue-100 text-blue-700 hover:bg-blue-200 px-3 py-1 text-sm"
+                            title="Edit profile"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {isSuperAdmin && (
                             <Button
                               onClick={() =>
                                 handleRemoveUniversity(uni.address)
@@ -657,13 +1113,50 @@ export default function AdminPage() {
                             >
                               <Trash2 className="w-4 h-4" />
                             </Button>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
                 )}
+                <Pagination
+                  offset={universityOffset}
+                  total={stats.totalUniversities}
+                  onChange={(offset) =>
+                    handlePageChange(loadUniversities, offset)
+                  }
+                />
+              </div>
+
+              {editingUniversity && (
+                <UniversityProfileDialog
+                  university={editingUniversity}
+                  onCancel={() => setEditingUniversity(null)}
+                  onSaved={handleUniversityProfileSaved}
+                />
+              )}
+            </div>
+          )}
+
+          {activeTab === "applications" && (
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold text-black">
+                  University Applications
+                </h2>
+                <Button
+                  onClick={() => setActiveTab("overview")}
+                  className="bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Back to Overview
+                </Button>
               </div>
+              <p className="text-sm text-gray-600 mb-6">
+                Institutions apply from the public apply page. Approving an
+                application registers the wallet as a university and publishes
+                the profile it submitted.
+              </p>
+              <UniversityApplications onApproved={loadData} />
             </div>
           )}
 
@@ -702,7 +1195,7 @@ export default function AdminPage() {
               {/* Admins List */}
               <div className="space-y-4">
                 <h3 className="font-medium text-black">
-                  System Admins ({admins.length})
+                  System Admins ({stats.totalAdmins})
                 </h3>
                 {admins.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
@@ -735,6 +1228,11 @@ export default function AdminPage() {
                     ))}
                   </div>
                 )}
+                <Pagination
+                  offset={adminOffset}
+                  total={stats.totalAdmins}
+                  onChange={(offset) => handlePageChange(loadAdmins, offset)}
+                />
               </div>
             </div>
           )}
@@ -788,6 +1286,78 @@ export default function AdminPage() {
                 </form>
               </div>
 
+              {/* Change Student Address Form */}
+              <div className="bg-gray-50 rounded-lg p-6 mb-6">
+                <h3 className="font-medium mb-4 text-black">
+                  Change Student Address
+                </h3>
+                <p className="text-sm text-black mb-4">
+                  Move a registered student to a new wallet address. The change
+                  takes effect once a university that issued the student a
+                  record approves it from its dashboard. Students without
+                  records can be approved by an admin.
+                </p>
+                <form
+                  onSubmit={handleRequestAddressChange}
+                  className="grid grid-cols-1 md:grid-cols-4 gap-4"
+                >
+                  <input
+                    type="text"
+                    placeholder="Student ID"
+                    value={changeStudentId}
+                    onChange={(e) => setChangeStudentId(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    placeholder="New Wallet Address (0x...)"
+                    value={changeStudentAddress}
+                    onChange={(e) => setChangeStudentAddress(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 text-black focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Button type="submit" variant="outline" disabled={loading}>
+                    <ArrowRightLeft className="w-4 h-4 mr-2" />
+                    Request Change
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={loading}
+                    onClick={handleApproveAddressChange}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Approve Change
+                  </Button>
+                </form>
+              </div>
+
+              {/* Student ID Claims */}
+              <div className="bg-gray-50 rounded-lg p-6 mb-6">
+                <h3 className="font-medium mb-2 text-black">
+                  Student ID Claims
+                </h3>
+                <p className="text-sm text-black mb-4">
+                  Students can claim their student ID at a university from their
+                  dashboard. Claims the university does not approve or reject
+                  expire after {claimExpiryDays} day
+                  {claimExpiryDays === 1 ? "" : "s"}. New expiry times apply to
+                  new claims.
+                </p>
+                <form onSubmit={handleChangeClaimExpiry} className="flex gap-4">
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="Claim expiry in days"
+                    value={newClaimExpiryDays}
+                    onChange={(e) => setNewClaimExpiryDays(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Button type="submit" variant="outline" disabled={loading}>
+                    Set Expiry
+                  </Button>
+                </form>
+              </div>
+
               <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6">
                 <div className="flex">
                   <div className="flex-shrink-0">
@@ -939,6 +1509,139 @@ export default function AdminPage() {
               </div>
             </div>
           )}
+
+          {activeTab === "approvals" && (
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold text-black">
+                  Pending Approvals
+                </h2>
+                <Button
+                  onClick={() => setActiveTab("overview")}
+                  className="bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Back to Overview
+                </Button>
+              </div>
+
+              {/* Approval Threshold */}
+              <div className="bg-gray-50 rounded-lg p-6 mb-6 text-black">
+                <h3 className="font-medium mb-2">Approval Threshold</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  {requiresApproval
+                    ? `Sensitive actions need ${approvalThreshold} admin approvals. Proposals expire after 7 days.`
+                    : "Sensitive actions run immediately. Set a threshold above 1 to require approval from multiple admins."}
+                </p>
+                {(requiresApproval || isSuperAdmin) && (
+                  <form onSubmit={handleChangeThreshold} className="flex gap-4">
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder="New threshold"
+                      value={newThreshold}
+                      onChange={(e) => setNewThreshold(e.target.value)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <Button type="submit" disabled={loading}>
+                      {requiresApproval ? "Propose Threshold" : "Set Threshold"}
+                    </Button>
+                  </form>
+                )}
+              </div>
+
+              {/* Super Admin Transfer */}
+              {!superAdminTransfer && (
+                <div className="bg-gray-50 rounded-lg p-6 mb-6 text-black">
+                  <h3 className="font-medium mb-2">
+                    {isSuperAdmin
+                      ? "Transfer Super Admin Role"
+                      : "Recover Super Admin Role"}
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {isSuperAdmin
+                      ? "The new super admin can accept the role after a 2 day timelock. You can cancel the transfer until then."
+                      : "If the super admin is unreachable, admins can nominate a replacement. It can be accepted after 30 days once a majority of the other admins approve, unless the super admin cancels it."}
+                  </p>
+                  <form
+                    onSubmit={handleProposeSuperAdminTransfer}
+                    className="flex gap-4"
+                  >
+                    <input
+                      type="text"
+                      placeholder="New super admin address (0x...)"
+                      value={newSuperAdminAddress}
+                      onChange={(e) => setNewSuperAdminAddress(e.target.value)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <Button type="submit" disabled={loading}>
+                      {isSuperAdmin ? "Propose Transfer" : "Start Recovery"}
+                    </Button>
+                  </form>
+                </div>
+              )}
+
+              {/* Proposals List */}
+              <div className="space-y-4">
+                <h3 className="font-medium text-black">
+                  Open Proposals ({proposals.length})
+                </h3>
+                {proposals.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <ClipboardCheck className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                    <p>No proposals awaiting approval</p>
+                  </div>
+                ) : (
+                  <div className="grid gap-4">
+                    {proposals.map((proposal) => (
+                      <div
+                        key={proposal.id}
+                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                      >
+                        <div>
+                          <h4 className="font-medium text-gray-900">
+                            #{proposal.id}{" "}
+                            {PROPOSAL_ACTION_NAMES[proposal.action]}{" "}
+                            <span className="font-normal text-gray-600">
+                              {describeProposal(proposal)}
+                            </span>
+                          </h4>
+                          <p className="text-sm text-gray-600">
+                            Proposed by {truncateAddress(proposal.proposer)} ·{" "}
+                            {proposal.approvals}/{approvalThreshold} approvals
+                            {proposal.rejections > 0 &&
+                              ` · ${proposal.rejections} rejections`}{" "}
+                            · {formatTimeRemaining(proposal.expiresAt)}
+                          </p>
+                        </div>
+                        {proposal.hasVoted ? (
+                          <span className="text-sm text-gray-500">
+                            You voted
+                          </span>
+                        ) : (
+                          <div className="flex space-x-2">
+                            <Button
+                              onClick={() => handleVote(proposal.id, true)}
+                              className="bg-green-100 text-green-700 hover:bg-green-200 px-3 py-1 text-sm"
+                            >
+                              <ThumbsUp className="w-4 h-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              onClick={() => handleVote(proposal.id, false)}
+                              className="bg-red-100 text-red-700 hover:bg-red-200 px-3 py-1 text-sm"
+                            >
+                              <ThumbsDown className="w-4 h-4 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </MainLayout>
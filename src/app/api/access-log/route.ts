@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import AccessLog from "../../../contracts/AccessLog.json";
+import {
+  RECORD_ACCESS_TYPES,
+  RecordAccessReceipt,
+  getAccessLogDomain,
+} from "@/lib/accessLog";
+
+const RPC_URL = process.env.RPC_URL;
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY;
+const ACCESS_LOG_ADDRESS = process.env.NEXT_PUBLIC_ACCESS_LOG_CONTRACT_ADDRESS;
+
+if (!RPC_URL || !RELAYER_PRIVATE_KEY || !ACCESS_LOG_ADDRESS) {
+  throw new Error(
+    "RPC URL, relayer key or AccessLog address is not set in environment variables."
+  );
+}
+
+const provider = new ethers.JsonRpcProvider(RPC_URL);
+const relayer = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
+const accessLog = new ethers.Contract(
+  ACCESS_LOG_ADDRESS,
+  AccessLog.abi,
+  relayer
+);
+
+// Submits an access receipt signed by the viewer of a shared record, so the
+// viewer does not pay for the transaction that logs the access
+export async function POST(req: NextRequest) {
+  let receipt: RecordAccessReceipt;
+  try {
+    receipt = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body." },
+      { status: 400 }
+    );
+  }
+
+  const { recordId, accessor, accessedAt, signature } = receipt;
+  if (
+    !Number.isSafeInteger(recordId) ||
+    !Number.isSafeInteger(accessedAt) ||
+    !ethers.isAddress(accessor) ||
+    !ethers.isHexString(signature)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid access receipt." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Checked here first so the relayer does not pay for receipts the
+    // contract would reject
+    const { chainId } = await provider.getNetwork();
+    const signer = ethers.verifyTypedData(
+      getAccessLogDomain(chainId, await accessLog.getAddress()),
+      RECORD_ACCESS_TYPES,
+      { recordId, accessor, accessedAt },
+      signature
+    );
+    if (signer.toLowerCase() !== accessor.toLowerCase()) {
+      return NextResponse.json(
+        { error: "Invalid signature." },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await accessLog.logAccess.staticCall(
+        recordId,
+        accessor,
+        accessedAt,
+        signature
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.reason || "Access receipt rejected." },
+        { status: 400 }
+      );
+    }
+
+    const tx = await accessLog.logAccess(
+      recordId,
+      accessor,
+      accessedAt,
+      signature
+    );
+    await tx.wait();
+
+    return NextResponse.json({ transactionHash: tx.hash });
+  } catch (error) {
+    console.error("Error logging record access:", error);
+    return NextResponse.json(
+      { error: "Failed to log record access." },
+      { status: 500 }
+    );
+  }
+}
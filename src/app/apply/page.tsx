@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import MainLayout from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { uploadToIpfs } from "@/lib/pinata";
+import { truncateAddress } from "@/lib/utils";
+import {
+  type UniversityApplication,
+  type UniversityProfile,
+  ApplicationStatus,
+  APPLICATION_STATUS_NAMES,
+  EMPTY_UNIVERSITY_PROFILE,
+  UNIVERSITY_PROFILE_FIELDS,
+  isWebsiteUrl,
+} from "@/types/universities";
+
+// Applicants describe themselves in the profile fields, the metadata document
+// is left to the admins
+const APPLICATION_FIELDS = UNIVERSITY_PROFILE_FIELDS.filter(
+  (field) => field.key !== "metadataHash"
+);
+
+/**
+ * Public page where institutions apply to be registered as a university.
+ *
+ * The applicant connects the wallet it wants registered and submits its name, accreditation documents, logo and contact details; the files are uploaded to IPFS through `/api/upload`. Connecting the same wallet later shows the status of the latest application, with the reason when admins rejected it. Rejected applicants can apply again, and wallets that are already universities are pointed to their dashboard.
+ */
+export default function ApplyPage() {
+  const router = useRouter();
+  const [connectedAddress, setConnectedAddress] = useState("");
+  const [isUniversity, setIsUniversity] = useState(false);
+  const [application, setApplication] = useState<UniversityApplication | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [name, setName] = useState("");
+  const [profile, setProfile] = useState<UniversityProfile>(
+    EMPTY_UNIVERSITY_PROFILE
+  );
+  const [documents, setDocuments] = useState<File | null>(null);
+  const [logo, setLogo] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        const success = await blockchainService.init();
+        if (!success) {
+          setError("Please install MetaMask and connect your wallet to apply.");
+          return;
+        }
+
+        const address = await blockchainService.getCurrentAddress();
+        setConnectedAddress(address);
+        setIsUniversity(
+          await blockchainService.hasRole("UNIVERSITY_ROLE", address)
+        );
+        setApplication(
+          await blockchainService.getUniversityApplication(address)
+        );
+      } catch (err) {
+        console.error("Error loading application:", err);
+        setError("Failed to load your application. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, []);
+
+  const updateField = (key: keyof UniversityProfile, value: string) =>
+    setProfile((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Please enter the name of your institution");
+      return;
+    }
+    if (!documents) {
+      setError("Please attach your accreditation documents");
+      return;
+    }
+    if (!profile.contactEmail.includes("@")) {
+      setError("Please enter a valid contact email");
+      return;
+    }
+    if (profile.website && !isWebsiteUrl(profile.website.trim())) {
+      setError("The website must start with http:// or https://");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      const documentsHash = await uploadToIpfs(documents);
+      const logoHash = logo ? await uploadToIpfs(logo) : "";
+
+      await blockchainService.applyAsUniversity(
+        name.trim(),
+        {
+          ...profile,
+          website: profile.website.trim(),
+          contactEmail: profile.contactEmail.trim(),
+          logoHash,
+        },
+        documentsHash
+      );
+      setApplication(
+        await blockchainService.getUniversityApplication(connectedAddress)
+      );
+    } catch (err: any) {
+      console.error("Error submitting application:", err);
+      setError(err.message || "Failed to submit your application.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canApply =
+    !isUniversity &&
+    (!application || application.status === ApplicationStatus.REJECTED);
+
+  const inputClassName =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <MainLayout>
+      <div className="max-w-2xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white mb-4">
+            Apply as an Institution
+          </h1>
+          <p className="text-white">
+            Register your university to issue tamper-proof academic records. Our
+            admins verify your accreditation before approving the application.
+          </p>
+        </div>
+
+        <div className="bg-white shadow-md rounded-lg p-8 space-y-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading your application...</p>
+          ) : (
+            <>
+              {connectedAddress && (
+                <p className="text-sm text-gray-600">
+                  Applying with wallet{" "}
+                  <span className="font-medium">
+                    {truncateAddress(connectedAddress)}
+                  </span>
+                  . This wallet will issue your records once approved.
+                </p>
+              )}
+
+              {isUniversity && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <p className="text-green-800 font-medium">
+                    This wallet is a registered university.
+                  </p>
+                  <Button
+                    variant="outline"
+                    className="mt-4"
+                    onClick={() => router.push("/dashboard")}
+                  >
+                    Go to dashboard
+                  </Button>
+                </div>
+              )}
+
+              {application && !isUniversity && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h2 className="font-medium text-gray-900 mb-2">
+                    Your application
+                  </h2>
+                  <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <dt className="text-gray-500">Institution</dt>
+                      <dd className="font-medium text-gray-900">
+                        {application.name}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Submitted</dt>
+                      <dd className="font-medium text-gray-900">
+                        {new Date(
+                          application.submittedAt * 1000
+                        ).toLocaleDateString()}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Status</dt>
+                      <dd className="font-medium text-gray-900">
+                        {APPLICATION_STATUS_NAMES[application.status]}
+                      </dd>
+                    </div>
+                  </dl>
+                  {application.status === ApplicationStatus.REJECTED && (
+                    <p className="mt-4 text-sm text-red-700">
+                      Rejected on{" "}
+                      {new Date(
+                        application.reviewedAt * 1000
+                      ).toLocaleDateString()}
+                      : {application.rejectionReason}. You can apply again
+                      below.
+                    </p>
+                  )}
+                  {application.status === ApplicationStatus.APPROVED && (
+                    <p className="mt-4 text-sm text-gray-600">
+                      Your application was approved, but this wallet is no
+                      longer a registered university. Please contact the
+                      platform admins.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {canApply && connectedAddress && (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <label className="block text-sm text-gray-700">
+                    Institution name
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className={`mt-1 ${inputClassName}`}
+                    />
+                  </label>
+
+                  {APPLICATION_FIELDS.map((field) => (
+                    <label
+                      key={field.key}
+                      className="block text-sm text-gray-700"
+                    >
+                      {field.label}
+                      <input
+                        type="text"
+                        placeholder={field.placeholder}
+                        value={profile[field.key]}
+                        onChange={(e) => updateField(field.key, e.target.value)}
+                        className={`mt-1 ${inputClassName}`}
+                      />
+                    </label>
+                  ))}
+
+                  <label className="block text-sm text-gray-700">
+                    Accreditation documents
+                    <input
+                      type="file"
+                      accept=".pdf,image/*"
+                      onChange={(e) =>
+                        setDocuments(e.target.files?.[0] || null)
+                      }
+                      className="mt-1 block text-sm text-gray-600"
+                    />
+                  </label>
+
+                  <label className="block text-sm text-gray-700">
+                    Logo (optional)
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => setLogo(e.target.files?.[0] || null)}
+                      className="mt-1 block text-sm text-gray-600"
+                    />
+                  </label>
+
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    className="w-full py-3"
+                    disabled={submitting}
+                  >
+                    {submitting ? "Submitting..." : "Submit application"}
+                  </Button>
+                </form>
+              )}
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
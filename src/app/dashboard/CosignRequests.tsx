@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { getGatewayUrl } from "@/lib/pinata";
+import { truncateAddress } from "@/lib/utils";
+import {
+  type Record,
+  formatValidityWindow,
+  getRecordTypeLabel,
+} from "@/types/records";
+import { type UniversityAccount } from "@/types/universities";
+import { Signature } from "lucide-react";
+
+interface CosignRequestsProps {
+  account: UniversityAccount;
+}
+
+interface CosignRequest {
+  recordId: number;
+  record: Record | null; // null while a scheduled record is not released yet
+  issuerName: string;
+}
+
+/**
+ * Joint records other universities issued with the university as a co-signer, shown on the dashboard of the university wallet and its registrars.
+ *
+ * Each record is listed with its document and details until someone co-signs it for the university. A joint record only verifies once every co-signing university signed it. Records scheduled for a later release are listed without their details until their release time.
+ */
+export default function CosignRequests({ account }: CosignRequestsProps) {
+  const [requests, setRequests] = useState<CosignRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState(0);
+  const [error, setError] = useState("");
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const recordIds = await blockchainService.getPendingCosignatures(
+        account.university
+      );
+      setRequests(
+        await Promise.all(
+          recordIds.map(async (recordId) => {
+            const record = await blockchainService
+              .getRecord(recordId)
+              .catch(() => null);
+            const issuerName = record
+              ? record.universityName ||
+                (await blockchainService.getUniversityName(record.university))
+              : "";
+            return { recordId, record, issuerName };
+          })
+        )
+      );
+    } catch (err) {
+      console.error("Error loading co-signing requests:", err);
+      setError("Failed to load co-signing requests. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [account.university]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleCosign = async (recordId: number) => {
+    setSigning(recordId);
+    setError("");
+    try {
+      await blockchainService.cosignRecord(recordId);
+      await loadRequests();
+    } catch (err) {
+      console.error("Error co-signing record:", err);
+      setError("Failed to co-sign the record. Please try again.");
+    } finally {
+      setSigning(0);
+    }
+  };
+
+  if (loading || (requests.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+      <div className="px-6 py-5 border-b border-gray-200">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Records Awaiting Your Signature ({requests.length})
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Other universities issued these joint records with yours as a
+          co-signer. They only verify once every co-signing university signed
+          them, so check the document and details before co-signing.
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {requests.map(({ recordId, record, issuerName }) => (
+          <div
+            key={recordId}
+            className="p-4 border border-gray-200 rounded-lg space-y-4"
+          >
+            {record ? (
+              <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Student</dt>
+                  <dd className="text-gray-900">
+                    {record.studentName} ({record.studentId})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Type</dt>
+                  <dd className="text-gray-900">
+                    {getRecordTypeLabel(record)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Issued by</dt>
+                  <dd className="text-gray-900">
+                    {issuerName || truncateAddress(record.university)},{" "}
+                    {new Date(record.timestamp * 1000).toLocaleString()}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Document</dt>
+                  <dd>
+                    <a
+                      href={getGatewayUrl(record.ipfsHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      View document
+                    </a>
+                  </dd>
+                </div>
+                {formatValidityWindow(record) && (
+                  <div>
+                    <dt className="text-gray-500">Validity</dt>
+                    <dd className="text-gray-900">
+                      {formatValidityWindow(record)}
+                    </dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-gray-500">Student wallet</dt>
+                  <dd className="text-gray-900">
+                    {truncateAddress(record.studentAddress)}
+                  </dd>
+                </div>
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Record #{recordId} is scheduled for a later release. Its details
+                are available once it is released.
+              </p>
+            )}
+
+            <Button
+              variant="outline"
+              disabled={signing !== 0 || !record}
+              onClick={() => handleCosign(recordId)}
+            >
+              {signing === recordId ? (
+                "Co-signing..."
+              ) : (
+                <>
+                  <Signature className="w-4 h-4 mr-2" />
+                  Co-sign
+                </>
+              )}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { getGatewayUrl } from "@/lib/pinata";
+import { truncateAddress } from "@/lib/utils";
+import {
+  type RecordDraft,
+  type CustomRecordType,
+  DraftStatus,
+  getRecordTypeLabel,
+  formatValidityWindow,
+} from "@/types/records";
+import { type UniversityAccount, canReviewRecords } from "@/types/universities";
+import { FileClock } from "lucide-react";
+
+interface RecordDraftsProps {
+  account: UniversityAccount;
+  connectedAddress: string;
+  onPublished: () => void;
+}
+
+/**
+ * Drafts of the university's records that wait for review, shown on the dashboard.
+ *
+ * Registrars and the university wallet review each pending draft's document and details, then publish it, which issues the record in the university's name and asks any co-signers named in the draft to sign it, or return it to its author with comments; `onPublished` is called after publishing so the records list can be refreshed. Nobody reviews their own drafts. Returned drafts are listed with the reviewer's comments, and their authors revise them on the add record page or discard them.
+ */
+export default function RecordDrafts({
+  account,
+  connectedAddress,
+  onPublished,
+}: RecordDraftsProps) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<RecordDraft[]>([]);
+  const [customTypes, setCustomTypes] = useState<CustomRecordType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState(0);
+  const [returning, setReturning] = useState(0);
+  const [comments, setComments] = useState("");
+  const [error, setError] = useState("");
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      setDrafts(
+        await blockchainService.getOpenRecordDrafts(account.university)
+      );
+      setCustomTypes(await blockchainService.getUniversityCustomTypes());
+    } catch (err) {
+      console.error("Error loading record drafts:", err);
+      setError("Failed to load drafts. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [account.university]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const isAuthor = (draft: RecordDraft) =>
+    draft.createdBy.toLowerCase() === connectedAddress.toLowerCase();
+  const canReview = (draft: RecordDraft) =>
+    canReviewRecords(account) && !isAuthor(draft);
+  const canDiscard = (draft: RecordDraft) =>
+    isAuthor(draft) || account.staffRole === null;
+
+  const typeLabel = (draft: RecordDraft) =>
+    getRecordTypeLabel({
+      recordType: draft.recordType,
+      customType: customTypes.find((type) => type.id === draft.customTypeId),
+    });
+
+  const handlePublish = async (draft: RecordDraft) => {
+    setReviewing(draft.id);
+    setError("");
+    try {
+      await blockchainService.publishRecordDraft(draft.id);
+      await loadDrafts();
+      onPublished();
+    } catch (err) {
+      console.error("Error publishing record draft:", err);
+      setError(
+        "Failed to publish the draft. Its custom record type may have been deactivated."
+      );
+    } finally {
+      setReviewing(0);
+    }
+  };
+
+  const handleReturn = async (e: React.FormEvent, draftId: number) => {
+    e.preventDefault();
+    if (!comments.trim()) {
+      setError("Please explain what needs to change");
+      return;
+    }
+
+    setReviewing(draftId);
+    setError("");
+    try {
+      await blockchainService.returnRecordDraft(draftId, comments.trim());
+      setReturning(0);
+      setComments("");
+      await loadDrafts();
+    } catch (err) {
+      console.error("Error returning record draft:", err);
+      setError("Failed to return the draft. Please try again.");
+    } finally {
+      setReviewing(0);
+    }
+  };
+
+  const handleDiscard = async (draft: RecordDraft) => {
+    setReviewing(draft.id);
+    setError("");
+    try {
+      await blockchainService.discardRecordDraft(draft.id);
+      await loadDrafts();
+    } catch (err) {
+      console.error("Error discarding record draft:", err);
+      setError("Failed to discard the draft. Please try again.");
+    } finally {
+      setReviewing(0);
+    }
+  };
+
+  const pending = drafts.filter(
+    (draft) => draft.status === DraftStatus.PENDING
+  );
+  const returned = drafts.filter(
+    (draft) => draft.status === DraftStatus.RETURNED
+  );
+
+  const renderDetails = (draft: RecordDraft) => (
+    <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+      <div>
+        <dt className="text-gray-500">Student</dt>
+        <dd className="text-gray-900">
+          {draft.studentName} ({draft.studentId})
+        </dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Student wallet</dt>
+        <dd className="text-gray-900">
+          {truncateAddress(draft.studentAddress)}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Type</dt>
+        <dd className="text-gray-900">{typeLabel(draft)}</dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Drafted by</dt>
+        <dd className="text-gray-900">
+          {isAuthor(draft) ? "You" : truncateAddress(draft.createdBy)},{" "}
+          {new Date(draft.updatedAt * 1000).toLocaleString()}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Document</dt>
+        <dd>
+          <a
+            href={getGatewayUrl(draft.ipfsHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800"
+          >
+            View document
+          </a>
+        </dd>
+      </div>
+      {formatValidityWindow(draft) && (
+        <div>
+          <dt className="text-gray-500">Validity</dt>
+          <dd className="text-gray-900">{formatValidityWindow(draft)}</dd>
+        </div>
+      )}
+      {draft.cosigners.length > 0 && (
+        <div>
+          <dt className="text-gray-500">Co-signers</dt>
+          <dd className="text-gray-900">
+            {draft.cosigners.map(truncateAddress).join(", ")}
+          </dd>
+        </div>
+      )}
+      {draft.visibleFrom > 0 && (
+        <div>
+          <dt className="text-gray-500">Release time</dt>
+          <dd className="text-gray-900">
+            {new Date(draft.visibleFrom * 1000).toLocaleString()}
+          </dd>
+        </div>
+      )}
+      <div>
+        <dt className="text-gray-500">Metadata hash</dt>
+        <dd className="text-gray-900 break-all">{draft.metadataHash}</dd>
+      </div>
+    </dl>
+  );
+
+  return (
+    <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+      <div className="px-6 py-5 border-b border-gray-200">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Drafts Awaiting Review ({pending.length})
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Records drafted by your staff are only issued once another registrar
+          or the university wallet publishes them. Check the document and
+          details before publishing, or return the draft with what needs to
+          change.
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading drafts...</div>
+        ) : pending.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <FileClock className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+            <p>No drafts awaiting review</p>
+          </div>
+        ) : (
+          pending.map((draft) => (
+            <div
+              key={draft.id}
+              className="p-4 border border-gray-200 rounded-lg space-y-4"
+            >
+              {renderDetails(draft)}
+
+              <div className="flex flex-wrap gap-3">
+                {canReview(draft) && (
+                  <>
+                    <Button
+                      variant="outline"
+                      disabled={reviewing !== 0}
+                      onClick={() => handlePublish(draft)}
+                    >
+                      {reviewing === draft.id ? "Publishing..." : "Publish"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={reviewing !== 0}
+                      onClick={() => {
+                        setReturning(draft.id);
+                        setComments("");
+                      }}
+                    >
+                      Return with Comments
+                    </Button>
+                  </>
+                )}
+                {canDiscard(draft) && (
+                  <Button
+                    variant="outline"
+                    disabled={reviewing !== 0}
+                    onClick={() => handleDiscard(draft)}
+                  >
+                    Discard
+                  </Button>
+                )}
+              </div>
+
+              {returning === draft.id && (
+                <form
+                  onSubmit={(e) => handleReturn(e, draft.id)}
+                  className="flex gap-4"
+                >
+                  <input
+                    type="text"
+                    placeholder="What needs to change"
+                    value={comments}
+                    onChange={(e) => setComments(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={reviewing !== 0}
+                    onClick={() => setReturning(0)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={reviewing !== 0 || !comments.trim()}
+                    className="bg-red-600 text-white hover:bg-red-700"
+                  >
+                    Return
+                  </Button>
+                </form>
+              )}
+            </div>
+          ))
+        )}
+
+        {returned.length > 0 && (
+          <>
+            <h4 className="font-medium text-gray-900 pt-4">
+              Returned for Changes ({returned.length})
+            </h4>
+            {returned.map((draft) => (
+              <div
+                key={draft.id}
+                className="p-4 border border-yellow-200 bg-yellow-50 rounded-lg space-y-4"
+              >
+                <p className="text-sm text-yellow-800">
+                  Returned by {truncateAddress(draft.reviewedBy)} on{" "}
+                  {new Date(draft.reviewedAt * 1000).toLocaleDateString()}:{" "}
+                  {draft.reviewComments}
+                </p>
+                {renderDetails(draft)}
+                <div className="flex flex-wrap gap-3">
+                  {isAuthor(draft) && (
+                    <Button
+                      variant="outline"
+                      onClick={() =>
+                        router.push(`/records/add?draft=${draft.id}`)
+                      }
+                    >
+                      Revise
+                    </Button>
+                  )}
+                  {canDiscard(draft) && (
+                    <Button
+                      variant="outline"
+                      disabled={reviewing !== 0}
+                      onClick={() => handleDiscard(draft)}
+                    >
+                      Discard
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { truncateAddress } from "@/lib/utils";
+import {
+  type StaffMember,
+  StaffRole,
+  STAFF_ROLE_NAMES,
+} from "@/types/universities";
+import { Users } from "lucide-react";
+
+interface StaffManagementProps {
+  university: string;
+}
+
+const ROLE_DESCRIPTIONS: { [role in StaffRole]?: string } = {
+  [StaffRole.REGISTRAR]:
+    "Reviews and publishes drafts and reads all university records",
+  [StaffRole.CLERK]:
+    "Drafts records for review and reads all university records",
+  [StaffRole.VIEWER]: "Reads university records only",
+};
+
+/**
+ * Lets a university wallet manage the staff accounts that work under it.
+ *
+ * Lists every staff member with its role and when it was granted. Granting a role to an account adds it to the staff, or changes its role when it already is a staff member; removing a member revokes every right it had. Records issued by staff are attributed to the university, with the staff account kept on the record. Registrars publish the drafts of other staff, and only issue records directly once the university lets them skip the review.
+ */
+export default function StaffManagement({ university }: StaffManagementProps) {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [account, setAccount] = useState("");
+  const [role, setRole] = useState<StaffRole>(StaffRole.CLERK);
+  const [saving, setSaving] = useState(false);
+  const [removing, setRemoving] = useState("");
+  const [directIssuance, setDirectIssuance] = useState(false);
+  const [updatingIssuance, setUpdatingIssuance] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadStaff = useCallback(async () => {
+    try {
+      setStaff(await blockchainService.getUniversityStaff(university));
+      setDirectIssuance(await blockchainService.getDirectIssuance(university));
+    } catch (err) {
+      console.error("Error loading staff:", err);
+      setError("Failed to load staff. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [university]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(account.trim())) {
+      setError("Please enter a valid wallet address");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      await blockchainService.grantStaffRole(account.trim(), role);
+      setAccount("");
+      await loadStaff();
+    } catch (err) {
+      console.error("Error granting staff role:", err);
+      setError(
+        "Failed to grant the role. The account may be a university or staff of another university."
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    setRemoving(member.account);
+    setError("");
+    try {
+      await blockchainService.revokeStaffRole(member.account);
+      await loadStaff();
+    } catch (err) {
+      console.error("Error revoking staff role:", err);
+      setError("Failed to remove the staff member. Please try again.");
+    } finally {
+      setRemoving("");
+    }
+  };
+
+  const handleDirectIssuance = async (allowed: boolean) => {
+    setUpdatingIssuance(true);
+    setError("");
+    try {
+      await blockchainService.setDirectIssuance(allowed);
+      setDirectIssuance(allowed);
+    } catch (err) {
+      console.error("Error updating direct issuance:", err);
+      setError("Failed to update the review setting. Please try again.");
+    } finally {
+      setUpdatingIssuance(false);
+    }
+  };
+
+  const inputClassName =
+    "px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="px-6 py-5 space-y-6">
+      <form onSubmit={handleGrant} className="flex flex-wrap gap-4">
+        <input
+          type="text"
+          placeholder="Staff wallet address (0x...)"
+          value={account}
+          onChange={(e) => setAccount(e.target.value)}
+          className={`flex-1 min-w-[16rem] ${inputClassName}`}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(Number(e.target.value))}
+          className={inputClassName}
+        >
+          {[StaffRole.REGISTRAR, StaffRole.CLERK, StaffRole.VIEWER].map(
+            (option) => (
+              <option key={option} value={option}>
+                {STAFF_ROLE_NAMES[option]}
+              </option>
+            )
+          )}
+        </select>
+        <Button type="submit" variant="outline" disabled={saving}>
+          {saving ? "Saving..." : "Grant Role"}
+        </Button>
+      </form>
+      <p className="text-sm text-gray-500">
+        {STAFF_ROLE_NAMES[role]}: {ROLE_DESCRIPTIONS[role]}. Granting a role to
+        an existing staff member replaces its current role.
+      </p>
+
+      <label className="flex items-start gap-3 text-sm">
+        <input
+          type="checkbox"
+          checked={directIssuance}
+          disabled={loading || updatingIssuance}
+          onChange={(e) => handleDirectIssuance(e.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          <span className="font-medium text-gray-900">
+            Let registrars issue records without review
+          </span>
+          <span className="block text-gray-500">
+            When off, records drafted by any staff member are only issued once
+            another registrar or the university wallet publishes them.
+          </span>
+        </span>
+      </label>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading staff...</div>
+      ) : staff.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Users className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>No staff accounts yet</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {staff.map((member) => (
+            <li
+              key={member.account}
+              className="py-4 flex items-center justify-between"
+            >
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">
+                  {truncateAddress(member.account)}
+                </p>
+                <p className="text-gray-500">
+                  {STAFF_ROLE_NAMES[member.role]} since{" "}
+                  {new Date(member.grantedAt * 1000).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                disabled={removing === member.account}
+                onClick={() => handleRemove(member)}
+              >
+                {removing === member.account ? "Removing..." : "Remove"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { RecordItem } from "@/types/records";
+
+interface WithdrawRecordDialogProps {
+  record: RecordItem;
+  onCancel: () => void;
+  onWithdrawn: (recordId: string) => void;
+}
+
+/**
+ * Confirmation dialog for withdrawing a single record issued by the connected university.
+ *
+ * The university has to give a reason, which is published with the withdrawal. Withdrawing deletes the record and its share grants, leaving only a tombstone that `/verify` reports; the student's other records are untouched. Calls `onWithdrawn` once the transaction is confirmed.
+ */
+export default function WithdrawRecordDialog({
+  record,
+  onCancel,
+  onWithdrawn,
+}: WithdrawRecordDialogProps) {
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError("Please give a reason for withdrawing this record");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      await blockchainService.withdrawRecord(
+        parseInt(record.id, 10),
+        reason.trim()
+      );
+      onWithdrawn(record.id);
+    } catch (err) {
+      console.error("Error withdrawing record:", err);
+      setError("Failed to withdraw the record. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg max-w-md w-full p-6 space-y-4"
+      >
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Withdraw record #{record.id}
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            This permanently deletes the {record.type} issued to{" "}
+            {record.studentName} and any access they shared to it. Verifiers
+            will see that your university withdrew it. This cannot be undone.
+          </p>
+        </div>
+
+        <textarea
+          placeholder="Reason for withdrawal"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={submitting}
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={submitting || !reason.trim()}
+            className="bg-red-600 text-white hover:bg-red-700"
+          >
+            {submitting ? "Withdrawing..." : "Withdraw record"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -4,19 +4,58 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
+import { Pagination, PAGE_SIZE } from "@/components/ui/Pagination";
+import { ValidityNote } from "@/components/ui/ValidityNote";
 import { truncateAddress } from "@/lib/utils";
 import { blockchainService } from "@/services/blockchain";
-import { RecordItem, getRecordTypeName } from "@/types/records";
+import {
+  RecordItem,
+  formatValidityWindow,
+  getRecordTypeLabel,
+} from "@/types/records";
+import {
+  StudentAddressChange,
+  WalletRecovery,
+  StudentClaim,
+} from "@/types/students";
+import {
+  type UniversityAccount,
+  STAFF_ROLE_NAMES,
+  canIssueRecords,
+  canReviewRecords,
+  canDraftRecords,
+} from "@/types/universities";
+import WithdrawRecordDialog from "./WithdrawRecordDialog";
+import StaffManagement from "./StaffManagement";
+import RecordDrafts from "./RecordDrafts";
+import CosignRequests from "./CosignRequests";
 
 /**
- * Displays the university dashboard for authenticated university users, showing summary statistics and a table of recent academic records.
+ * Displays the university dashboard for authenticated university users and their staff, showing summary statistics and a table of recent academic records.
  *
- * Redirects to the login page if the user is not authenticated or lacks the required university role. Fetches and displays the university name, total records, transcripts, certificates, and a list of recent records with options to view or add new records. Handles loading and error states during data retrieval.
+ * Redirects to the login page if the user is not authenticated, and to the records page if it is neither a university nor one of its staff. Fetches and displays the university name, total records, the transcripts and certificates on the current page, and the university's records one page at a time with options to view, add or withdraw records. Withdrawing a record asks for confirmation and a reason. Lists student ID claims made at the university, and pending wallet address changes and wallet recovery requests of the students on the current page, for approval or attestation. Lists the drafts awaiting review, which registrars and the university wallet publish or return to their author, and the joint records other universities asked them to co-sign. Staff see the university's records; registrars add them directly and clerks submit drafts. Withdrawing records, student requests and the Staff tab, where staff accounts are granted and revoked, are left to the university wallet. Handles loading and error states during data retrieval.
  */
 export default function DashboardPage() {
   const [connectedAddress, setConnectedAddress] = useState("");
+  const [account, setAccount] = useState<UniversityAccount | null>(null);
+  const [activeTab, setActiveTab] = useState<"records" | "staff">("records");
   const [universityName, setUniversityName] = useState("Your University");
   const [records, setRecords] = useState<RecordItem[]>([]);
+  const [totalRecords, setTotalRecords] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [recordsVersion, setRecordsVersion] = useState(0);
+  const [withdrawingRecord, setWithdrawingRecord] = useState<RecordItem | null>(
+    null
+  );
+  const [addressChanges, setAddressChanges] = useState<StudentAddressChange[]>(
+    []
+  );
+  const [approvingStudentId, setApprovingStudentId] = useState("");
+  const [walletRecoveries, setWalletRecoveries] = useState<WalletRecovery[]>(
+    []
+  );
+  const [studentClaims, setStudentClaims] = useState<StudentClaim[]>([]);
+  const [resolvingClaimant, setResolvingClaimant] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const router = useRouter();
@@ -33,17 +72,18 @@ export default function DashboardPage() {
         const address = await blockchainService.getCurrentAddress();
         setConnectedAddress(address);
 
-        const isUniversity = await blockchainService.hasRole(
-          "UNIVERSITY_ROLE",
+        const universityAccount = await blockchainService.getUniversityAccount(
           address
         );
-        if (!isUniversity) {
+        if (!universityAccount) {
           router.push("/records");
           return;
         }
+        setAccount(universityAccount);
 
         // Try to fetch first record for university name
-        const recordIds = await blockchainService.getUniversityRecords();
+        const { items: recordIds } =
+          await blockchainService.getUniversityRecordsPage(0, 1);
         if (recordIds.length > 0) {
           const record = await blockchainService.getRecord(recordIds[0]);
           if (record?.universityName) {
@@ -61,29 +101,50 @@ export default function DashboardPage() {
 
   useEffect(() => {
     const fetchRecords = async () => {
-      if (!connectedAddress) return;
+      if (!account) return;
 
       setLoading(true);
       setError("");
 
       try {
-        const recordIds = await blockchainService.getUniversityRecords();
+        const { items: recordIds, total } =
+          await blockchainService.getUniversityRecordsPage(offset, PAGE_SIZE);
+        setTotalRecords(total);
+        const fetchedRecords = await Promise.all(
+          recordIds.map((id: number) => blockchainService.getRecord(id))
+        );
 
         const recordsData = await Promise.all(
-          recordIds.map(async (id: number) => {
-            const record = await blockchainService.getRecord(id);
-            return {
-              id: id.toString(),
-              studentName: record.studentName,
-              type: getRecordTypeName(record.recordType),
-              dateIssued: new Date(
-                record.timestamp * 1000
-              ).toLocaleDateString(),
-            };
-          })
+          fetchedRecords.map(async (record) => ({
+            id: record.id.toString(),
+            studentName: record.studentName,
+            type: getRecordTypeLabel(record),
+            dateIssued: new Date(record.timestamp * 1000).toLocaleDateString(),
+            validity: formatValidityWindow(record),
+            status: await blockchainService.verifyRecord(record.id),
+          }))
         );
 
         setRecords(recordsData);
+
+        // Student requests are resolved by the university wallet only
+        if (account.staffRole !== null) return;
+
+        // Students of this university can only move to a new wallet with its
+        // approval. Only the students on the current page are checked so the
+        // dashboard does not load every record of the university
+        const studentIds = [
+          ...new Set(fetchedRecords.map((record) => record.studentId)),
+        ];
+        setAddressChanges(
+          await blockchainService.getPendingAddressChanges(studentIds)
+        );
+        setWalletRecoveries(
+          await blockchainService.getPendingWalletRecoveries(studentIds)
+        );
+        setStudentClaims(
+          await blockchainService.getPendingStudentClaims(account.university)
+        );
       } catch (err) {
         console.error("Error fetching records:", err);
         setError("Failed to fetch records. Please try again.");
@@ -93,7 +154,89 @@ export default function DashboardPage() {
     };
 
     fetchRecords();
-  }, [connectedAddress]);
+  }, [account, offset, recordsVersion]);
+
+  const handleRecordWithdrawn = (recordId: string) => {
+    setWithdrawingRecord(null);
+    setRecords((current) => current.filter((record) => record.id !== recordId));
+    setTotalRecords((total) => total - 1);
+  };
+
+  const handleApproveAddressChange = async (studentId: string) => {
+    setApprovingStudentId(studentId);
+    setError("");
+
+    try {
+      await blockchainService.approveStudentAddressChange(studentId);
+      setAddressChanges((changes) =>
+        changes.filter((change) => change.studentId !== studentId)
+      );
+    } catch (err) {
+      console.error("Error approving address change:", err);
+      setError("Failed to approve the address change. Please try again.");
+    } finally {
+      setApprovingStudentId("");
+    }
+  };
+
+  const handleStudentClaim = async (
+    claim: StudentClaim,
+    action: "approve" | "reject"
+  ) => {
+    setResolvingClaimant(claim.claimant);
+    setError("");
+
+    try {
+      if (action === "approve") {
+        await blockchainService.approveStudentClaim(claim.claimant);
+      } else {
+        await blockchainService.rejectStudentClaim(claim.claimant);
+      }
+      setStudentClaims(
+        await blockchainService.getPendingStudentClaims(connectedAddress)
+      );
+    } catch (err) {
+      console.error(`Error processing student claim (${action}):`, err);
+      setError(
+        action === "approve"
+          ? "Failed to approve the claim. The student ID or wallet may have been registered in the meantime."
+          : "Failed to reject the claim. Please try again."
+      );
+    } finally {
+      setResolvingClaimant("");
+    }
+  };
+
+  const handleWalletRecovery = async (
+    recovery: WalletRecovery,
+    action: "attest" | "reject"
+  ) => {
+    setApprovingStudentId(recovery.studentId);
+    setError("");
+
+    try {
+      if (action === "attest") {
+        await blockchainService.attestWalletRecovery(
+          recovery.studentId,
+          recovery.newAddress
+        );
+      } else {
+        await blockchainService.cancelWalletRecovery(recovery.studentId);
+      }
+      setWalletRecoveries(
+        await blockchainService.getPendingWalletRecoveries(
+          walletRecoveries.map((pending) => pending.studentId)
+        )
+      );
+    } catch (err) {
+      console.error(`Error processing wallet recovery (${action}):`, err);
+      setError("Failed to update the recovery request. Please try again.");
+    } finally {
+      setApprovingStudentId("");
+    }
+  };
+
+  const isUniversityWallet = account?.staffRole === null;
 
   return (
     <MainLayout>
@@ -107,16 +250,30 @@ export default function DashboardPage() {
                 </h3>
                 <p className="mt-1 text-sm text-gray-500">
                   {universityName} ({truncateAddress(connectedAddress)})
+                  {account?.staffRole &&
+                    `, signed in as ${STAFF_ROLE_NAMES[account.staffRole]}`}
                 </p>
               </div>
-              <div>
-                <Button
-                  variant="outline"
-                  onClick={() => router.push("/records/add")}
-                >
-                  Add New Record
-                </Button>
-              </div>
+              {account && canDraftRecords(account) && (
+                <div className="flex space-x-3">
+                  {canIssueRecords(account) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => router.push("/records/batch")}
+                    >
+                      Batch Issue
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push("/records/add")}
+                  >
+                    {canIssueRecords(account)
+                      ? "Add New Record"
+                      : "Draft New Record"}
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -127,7 +284,7 @@ export default function DashboardPage() {
                   Total Records
                 </dt>
                 <dd className="mt-1 text-3xl font-semibold text-gray-900">
-                  {records.length}
+                  {totalRecords}
                 </dd>
               </div>
             </div>
@@ -135,7 +292,7 @@ export default function DashboardPage() {
             <div className="bg-gray-50 overflow-hidden shadow rounded-lg">
               <div className="px-4 py-5 sm:p-6">
                 <dt className="text-sm font-medium text-gray-500 truncate">
-                  Transcripts
+                  Transcripts on This Page
                 </dt>
                 <dd className="mt-1 text-3xl font-semibold text-gray-900">
                   {records.filter((r) => r.type === "Transcript").length}
@@ -146,7 +303,7 @@ export default function DashboardPage() {
             <div className="bg-gray-50 overflow-hidden shadow rounded-lg">
               <div className="px-4 py-5 sm:p-6">
                 <dt className="text-sm font-medium text-gray-500 truncate">
-                  Certificates
+                  Certificates on This Page
                 </dt>
                 <dd className="mt-1 text-3xl font-semibold text-gray-900">
                   {records.filter((r) => r.type === "Certificate").length}
@@ -156,70 +313,297 @@ export default function DashboardPage() {
           </div>
         </div>
 
-        <div className="bg-white shadow overflow-hidden rounded-lg">
-          <div className="px-6 py-5 border-b border-gray-200">
-            <h3 className="text-lg leading-6 font-medium text-gray-900">
-              Recent Records
-            </h3>
+        {isUniversityWallet && (
+          <div className="flex space-x-2 mb-8">
+            {(["records", "staff"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  activeTab === tab
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+                }`}
+              >
+                {tab === "records" ? "Records" : "Staff"}
+              </button>
+            ))}
           </div>
+        )}
 
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    ID
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Student Name
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Type
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Date Issued
-                  </th>
-                  <th className="relative px-6 py-3">
-                    <span className="sr-only">Actions</span>
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {records.map((record) => (
-                  <tr key={record.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {record.id}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {record.studentName}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <span className="px-2 py-1 rounded-md text-xs font-medium bg-teal-100 text-teal-800">
-                        {record.type}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {record.dateIssued}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        className="text-blue-600 hover:text-blue-900 mr-4"
-                        onClick={() => router.push(`/records/${record.id}`)}
-                      >
-                        View
-                      </button>
-                      <button className="text-red-600 hover:text-red-900">
-                        Delete
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-            {error && <div className="p-4 text-sm text-red-600">{error}</div>}
+        {activeTab === "staff" && account ? (
+          <div className="bg-white shadow overflow-hidden rounded-lg">
+            <div className="px-6 py-5 border-b border-gray-200">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Staff
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Give your records office its own wallets instead of sharing this
+                one. Records issued by staff are issued in the name of your
+                university and keep the staff wallet that issued them.
+              </p>
+            </div>
+            <StaffManagement university={account.university} />
           </div>
-        </div>
+        ) : (
+          <>
+            {account && (
+              <RecordDrafts
+                account={account}
+                connectedAddress={connectedAddress}
+                onPublished={() => setRecordsVersion((version) => version + 1)}
+              />
+            )}
+
+            {account && canReviewRecords(account) && (
+              <CosignRequests account={account} />
+            )}
+
+            {addressChanges.length > 0 && (
+              <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+                <div className="px-6 py-5 border-b border-gray-200">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Pending Address Changes
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Students you issued records to have asked to move to a new
+                    wallet. Approve only after confirming the request with the
+                    student.
+                  </p>
+                </div>
+                <ul className="divide-y divide-gray-200">
+                  {addressChanges.map((change) => (
+                    <li
+                      key={change.studentId}
+                      className="px-6 py-4 flex items-center justify-between"
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {change.studentId}
+                        </p>
+                        <p className="text-gray-500">
+                          {truncateAddress(change.currentAddress)} →{" "}
+                          {truncateAddress(change.newAddress)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        disabled={approvingStudentId === change.studentId}
+                        onClick={() =>
+                          handleApproveAddressChange(change.studentId)
+                        }
+                      >
+                        {approvingStudentId === change.studentId
+                          ? "Approving..."
+                          : "Approve"}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {studentClaims.length > 0 && (
+              <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+                <div className="px-6 py-5 border-b border-gray-200">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Student ID Claims
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Wallets asking to be registered under a student ID at your
+                    university. Approving registers the wallet as that student.
+                  </p>
+                </div>
+                <ul className="divide-y divide-gray-200">
+                  {studentClaims.map((claim) => (
+                    <li
+                      key={claim.claimant}
+                      className="px-6 py-4 flex items-center justify-between"
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {claim.studentId}
+                        </p>
+                        <p className="text-gray-500">
+                          {truncateAddress(claim.claimant)}, expires{" "}
+                          {new Date(claim.expiresAt * 1000).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="flex space-x-3">
+                        <Button
+                          variant="outline"
+                          disabled={resolvingClaimant === claim.claimant}
+                          onClick={() => handleStudentClaim(claim, "approve")}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          variant="outline"
+                          disabled={resolvingClaimant === claim.claimant}
+                          onClick={() => handleStudentClaim(claim, "reject")}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {walletRecoveries.length > 0 && (
+              <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+                <div className="px-6 py-5 border-b border-gray-200">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Wallet Recovery Requests
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Students you issued records to are recovering their student
+                    ID with a new wallet. Attest only after confirming the
+                    student's identity; the move happens after a 7 day waiting
+                    period in which the old wallet can veto it.
+                  </p>
+                </div>
+                <ul className="divide-y divide-gray-200">
+                  {walletRecoveries.map((recovery) => (
+                    <li
+                      key={recovery.studentId}
+                      className="px-6 py-4 flex items-center justify-between"
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {recovery.studentId}
+                        </p>
+                        <p className="text-gray-500">
+                          New wallet {truncateAddress(recovery.newAddress)},{" "}
+                          {recovery.attestations} attestation
+                          {recovery.attestations === 1 ? "" : "s"}
+                          {recovery.executableAt > 0 &&
+                            `, completes after ${new Date(
+                              recovery.executableAt * 1000
+                            ).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="flex space-x-3">
+                        <Button
+                          variant="outline"
+                          disabled={
+                            recovery.hasAttested ||
+                            approvingStudentId === recovery.studentId
+                          }
+                          onClick={() =>
+                            handleWalletRecovery(recovery, "attest")
+                          }
+                        >
+                          {recovery.hasAttested ? "Attested" : "Attest"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          disabled={approvingStudentId === recovery.studentId}
+                          onClick={() =>
+                            handleWalletRecovery(recovery, "reject")
+                          }
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="bg-white shadow overflow-hidden rounded-lg">
+              <div className="px-6 py-5 border-b border-gray-200">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  Records
+                </h3>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        ID
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Student Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date Issued
+                      </th>
+                      <th className="relative px-6 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {records.map((record) => (
+                      <tr key={record.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {record.id}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {record.studentName}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <span className="px-2 py-1 rounded-md text-xs font-medium bg-teal-100 text-teal-800">
+                            {record.type}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {record.dateIssued}
+                          <ValidityNote
+                            validity={record.validity}
+                            status={record.status}
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <button
+                            className="text-blue-600 hover:text-blue-900 mr-4"
+                            onClick={() => router.push(`/records/${record.id}`)}
+                          >
+                            View
+                          </button>
+                          {isUniversityWallet && (
+                            <button
+                              className="text-red-600 hover:text-red-900"
+                              onClick={() => setWithdrawingRecord(record)}
+                            >
+                              Withdraw
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <Pagination
+                  offset={offset}
+                  total={totalRecords}
+                  disabled={loading}
+                  onChange={setOffset}
+                />
+                {error && (
+                  <div className="p-4 text-sm text-red-600">{error}</div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
       </div>
+
+      {withdrawingRecord && (
+        <WithdrawRecordDialog
+          record={withdrawingRecord}
+          onCancel={() => setWithdrawingRecord(null)}
+          onWithdrawn={handleRecordWithdrawn}
+        />
+      )}
     </MainLayout>
   );
 }
@@ -9,7 +9,7 @@ import { blockchainService } from "@/services/blockchain";
 /**
  * Renders the login page, allowing users to connect an Ethereum wallet for role-based access or verify a record by ID.
  *
- * Provides wallet connection with role detection (admin or university) and redirects users accordingly. Displays error messages for connection issues and offers an alternative verification method without a wallet.
+ * Provides wallet connection with role detection (admin, or university and its staff) and redirects users accordingly. Displays error messages for connection issues and offers an alternative verification method without a wallet and a link for institutions to apply for registration.
  *
  * @returns The login page React element.
  */
@@ -31,10 +31,9 @@ export default function LoginPage() {
       const address = await blockchainService.getCurrentAddress();
 
       const isAdmin = await blockchainService.hasRole("ADMIN_ROLE", address);
-      const isUniversity = await blockchainService.hasRole(
-        "UNIVERSITY_ROLE",
-        address
-      );
+      // Staff of a university sign in to their university's dashboard
+      const isUniversity =
+        (await blockchainService.getUniversityAccount(address)) !== null;
 
       if (isAdmin) {
         router.push("/admin");
@@ -138,6 +137,24 @@ export default function LoginPage() {
                 Verify Record
               </Button>
             </div>
+
+            <div className="pt-6 border-t border-gray-200">
+              <h2 className="text-xl font-medium text-gray-900 mb-4">
+                For Institutions
+              </h2>
+              <p className="text-sm text-gray-600 mb-6">
+                Universities can apply to issue records on CertiChain. Our
+                admins review each application.
+              </p>
+
+              <Button
+                variant="outline"
+                className="w-full py-3"
+                onClick={() => router.push("/apply")}
+              >
+                Apply as an Institution
+              </Button>
+            </div>
           </div>
         </div>
       </div>
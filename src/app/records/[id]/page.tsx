@@ -6,13 +6,51 @@ import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
 import { blockchainService } from "@/services/blockchain";
 import { getGatewayUrl } from "@/lib/pinata";
-import { truncateAddress } from "@/lib/utils";
-import { getRecordTypeName } from "@/types/records";
+import { truncateAddress, formatTimeRemaining } from "@/lib/utils";
+import { ethers } from "ethers";
+import {
+  type Record,
+  type ShareGrant,
+  type CustomRecordType,
+  RecordType,
+  getRecordTypeLabel,
+  getChangedFields,
+  toRecordTypeOption,
+  fromRecordTypeOption,
+  formatRevocation,
+  isScheduled,
+  formatValidityWindow,
+  VERIFICATION_STATUS_LABELS,
+  VerificationStatus,
+  RECORD_TYPE_NAMES,
+  REVOCATION_REASON_NAMES,
+} from "@/types/records";
+
+// Durations offered when sharing a record, 0 means the grant never expires
+const SHARE_DURATIONS = [
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "2 weeks", seconds: 14 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+  { label: "90 days", seconds: 90 * 24 * 60 * 60 },
+  { label: "No expiry", seconds: 0 },
+];
+
+// Views by the wallets a record is shared with end up in the student's access
+// log. Logging is best effort and never blocks the page
+async function logSharedRecordAccess(recordId: number, viewer: string) {
+  try {
+    if (await blockchainService.isRecordSharedWith(recordId, viewer)) {
+      await blockchainService.logRecordAccess(recordId);
+    }
+  } catch (err) {
+    console.error("Error logging record access:", err);
+  }
+}
 
 /**
  * Displays detailed information about an academic record and provides sharing controls for the record owner.
  *
- * Fetches and renders record details based on the route parameter. If the connected user owns the record, enables sharing the record with other Ethereum addresses and revoking access. Handles blockchain initialization, loading states, and error messages.
+ * Fetches and renders record details based on the route parameter. If the connected user owns the record, enables sharing the record with other Ethereum addresses for a chosen duration, showing the time left on each grant, and revoking access. If the connected user issued the record, enables revoking the record itself with a reason code or publishing a corrected version. Records scheduled for a later release show when they become visible to the student and verifiers, and time-bound documents show their validity window, flagged when expired or not valid yet. Shows the version history of corrected records with the fields each correction changed. Views by a wallet the record is shared with are logged to the student's access log. Handles blockchain initialization, loading states, and error messages.
  */
 export default function RecordDetailPage() {
   const params = useParams();
@@ -28,7 +66,26 @@ export default function RecordDetailPage() {
   const [isSharing, setIsSharing] = useState(false);
   const [shareSuccess, setShareSuccess] = useState("");
   const [shareError, setShareError] = useState("");
-  const [sharedWith, setSharedWith] = useState<string[]>([]);
+  const [shareDuration, setShareDuration] = useState(
+    SHARE_DURATIONS[1].seconds.toString()
+  );
+  const [sharedWith, setSharedWith] = useState<ShareGrant[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  // Revocation functionality
+  const [revokeReason, setRevokeReason] = useState("0");
+  const [revokeNote, setRevokeNote] = useState("");
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState("");
+
+  // Versioning functionality
+  const [history, setHistory] = useState<Record[]>([]);
+  const [correctionName, setCorrectionName] = useState("");
+  const [correctionType, setCorrectionType] = useState("0");
+  const [correctionHash, setCorrectionHash] = useState("");
+  const [customTypes, setCustomTypes] = useState<CustomRecordType[]>([]);
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correctionError, setCorrectionError] = useState("");
 
   useEffect(() => {
     const init = async () => {
@@ -51,6 +108,12 @@ export default function RecordDetailPage() {
     init();
   }, [router]);
 
+  // Refresh the remaining time shown for each grant once a minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     const fetchRecord = async () => {
       if (!initialized || !params.id) return;
@@ -75,6 +138,9 @@ export default function RecordDetailPage() {
           return;
         }
 
+        const validityStatus = await blockchainService.verifyRecord(
+          parsedRecordId
+        );
         const formattedRecord = {
           id: parsedRecordId,
           studentName: recordData.studentName,
@@ -83,20 +149,58 @@ export default function RecordDetailPage() {
           universityName:
             recordData.universityName ||
             (await blockchainService.getUniversityName(recordData.university)),
-          recordType: getRecordTypeName(recordData.recordType),
+          recordType: getRecordTypeLabel(recordData),
+          recordTypeDescription: recordData.customType?.description,
           issueDate: new Date(recordData.timestamp * 1000).toLocaleDateString(),
-          verified: recordData.isValid,
+          verified: validityStatus === VerificationStatus.VALID,
+          revocationStatus: recordData.revocation
+            ? formatRevocation(recordData.revocation)
+            : "",
           issuer: recordData.university,
           issuerTruncated: truncateAddress(recordData.university),
+          issuedBy:
+            recordData.issuedBy !== recordData.university
+              ? truncateAddress(recordData.issuedBy)
+              : "",
           documentUrl: getGatewayUrl(recordData.ipfsHash),
           ipfsHash: recordData.ipfsHash,
+          supersededBy: recordData.supersededBy,
+          releaseDate: isScheduled(recordData)
+            ? new Date(recordData.visibleFrom * 1000).toLocaleString()
+            : "",
+          validity: formatValidityWindow(recordData),
+          validityStatus,
         };
 
         setRecord(formattedRecord);
+        setCorrectionName(recordData.studentName);
+        setCorrectionType(
+          toRecordTypeOption(recordData.recordType, recordData.customTypeId)
+        );
+        setCorrectionHash(recordData.ipfsHash);
+
+        try {
+          setHistory(await blockchainService.getRecordHistory(parsedRecordId));
+        } catch (err) {
+          console.error("Error loading version history:", err);
+        }
 
-        if (recordData.studentId === connectedAddress) {
+        if (recordData.studentAddress === connectedAddress) {
           await loadSharedAddresses(parsedRecordId);
         }
+
+        if (
+          recordData.studentAddress !== connectedAddress &&
+          recordData.university !== connectedAddress
+        ) {
+          logSharedRecordAccess(parsedRecordId, connectedAddress);
+        }
+
+        if (recordData.university === connectedAddress) {
+          const universityTypes =
+            await blockchainService.getUniversityCustomTypes();
+          setCustomTypes(universityTypes.filter((type) => type.isActive));
+        }
       } catch (err) {
         console.error("Error fetching record:", err);
         setError("Failed to fetch record details. Please try again.");
@@ -110,11 +214,10 @@ export default function RecordDetailPage() {
 
   const loadSharedAddresses = async (recordId: number) => {
     try {
-      // TODO: Have a function to get all addresses this record is shared with
-      // const sharedAddresses = await blockchainService.getSharedAddresses(recordId);
-      // setSharedWith(sharedAddresses);
-
-      setSharedWith([]);
+      const sharedAddresses = await blockchainService.getSharedAddresses(
+        recordId
+      );
+      setSharedWith(sharedAddresses);
     } catch (err) {
       console.error("Error loading shared addresses:", err);
     }
@@ -133,14 +236,18 @@ export default function RecordDetailPage() {
         throw new Error("Invalid Ethereum address");
       }
 
-      await blockchainService.shareRecord(record.id, shareAddress);
+      await blockchainService.shareRecord(
+        record.id,
+        shareAddress,
+        parseInt(shareDuration, 10)
+      );
 
       setShareSuccess(
         `Record successfully shared with ${truncateAddress(shareAddress)}`
       );
       setShareAddress("");
 
-      setSharedWith([...sharedWith, shareAddress]);
+      await loadSharedAddresses(record.id);
     } catch (err: any) {
       console.error("Error sharing record:", err);
       setShareError(err.message || "Failed to share record. Please try again.");
@@ -161,7 +268,7 @@ export default function RecordDetailPage() {
 
       setShareSuccess(`Record access revoked from ${truncateAddress(address)}`);
 
-      setSharedWith(sharedWith.filter((a) => a !== address));
+      await loadSharedAddresses(record.id);
     } catch (err: any) {
       console.error("Error unsharing record:", err);
       setShareError(
@@ -172,6 +279,87 @@ export default function RecordDetailPage() {
     }
   };
 
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!record) return;
+    if (
+      !confirm(
+        "Revoking a record cannot be undone. Are you sure you want to continue?"
+      )
+    )
+      return;
+
+    setIsRevoking(true);
+    setRevokeError("");
+
+    try {
+      await blockchainService.revokeRecord(
+        record.id,
+        parseInt(revokeReason, 10),
+        revokeNote.trim()
+      );
+
+      const revocation = await blockchainService.getRevocation(record.id);
+      setRecord({
+        ...record,
+        verified: false,
+        revocationStatus: formatRevocation(revocation),
+      });
+      setRevokeNote("");
+    } catch (err: any) {
+      console.error("Error revoking record:", err);
+      setRevokeError(
+        err.message || "Failed to revoke record. Please try again."
+      );
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const handleCorrection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!record) return;
+
+    if (!correctionName.trim() || !correctionHash.trim()) {
+      setCorrectionError("Please fill in all required fields.");
+      return;
+    }
+
+    setIsCorrecting(true);
+    setCorrectionError("");
+
+    try {
+      const metadataHash = ethers.keccak256(
+        ethers.toUtf8Bytes(correctionHash.trim())
+      );
+
+      const { recordType, customTypeId } = fromRecordTypeOption(correctionType);
+
+      const newRecordId = await blockchainService.supersedeRecord(
+        record.id,
+        correctionName.trim(),
+        correctionHash.trim(),
+        metadataHash,
+        recordType,
+        customTypeId
+      );
+
+      router.push(`/records/${newRecordId}`);
+    } catch (err: any) {
+      console.error("Error publishing corrected record:", err);
+      setCorrectionError(
+        err.message || "Failed to publish corrected record. Please try again."
+      );
+    } finally {
+      setIsCorrecting(false);
+    }
+  };
+
+  const isIssuer = () => {
+    if (!record || !connectedAddress) return false;
+    return record.issuer === connectedAddress;
+  };
+
   const isOwnRecord = () => {
     if (!record || !connectedAddress) return false;
     return record.studentAddress === connectedAddress;
@@ -268,15 +456,55 @@ export default function RecordDetailPage() {
                       {record.recordType}
                     </span>
                   </p>
+                  {record.recordTypeDescription && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {record.recordTypeDescription}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Issue Date</p>
                   <p className="font-medium">{record.issueDate}</p>
                 </div>
+                {record.releaseDate && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Release Date</p>
+                    <p className="font-medium text-yellow-700">
+                      Hidden until {record.releaseDate}
+                    </p>
+                  </div>
+                )}
+                {record.validity && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Validity</p>
+                    <p className="font-medium">
+                      {record.validity}
+                      {record.validityStatus === VerificationStatus.EXPIRED && (
+                        <span className="ml-2 px-2 py-1 rounded-md text-xs font-medium bg-red-100 text-red-800">
+                          Expired
+                        </span>
+                      )}
+                      {record.validityStatus ===
+                        VerificationStatus.NOT_YET_VALID && (
+                        <span className="ml-2 px-2 py-1 rounded-md text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Not yet valid
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Issuer</p>
                   <p className="font-medium">{record.issuerTruncated}</p>
                 </div>
+                {record.issuedBy && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">
+                      Issued by Staff
+                    </p>
+                    <p className="font-medium">{record.issuedBy}</p>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Student Address</p>
                   <p className="font-medium">{record.studentAddress}</p>
@@ -329,7 +557,10 @@ export default function RecordDetailPage() {
                             d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
                           />
                         </svg>
-                        Not Verified
+                        <span className="text-red-700">
+                          {record.revocationStatus ||
+                            VERIFICATION_STATUS_LABELS[record.validityStatus]}
+                        </span>
                       </>
                     )}
                   </p>
@@ -337,6 +568,216 @@ export default function RecordDetailPage() {
               </div>
             </div>
 
+            {/* Outdated version notice */}
+            {record.supersededBy !== 0 && (
+              <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
+                <p className="text-sm text-yellow-700">
+                  This record has been superseded by a corrected version.{" "}
+                  <button
+                    onClick={() =>
+                      router.push(`/records/${record.supersededBy}`)
+                    }
+                    className="font-medium underline"
+                  >
+                    View record #{record.supersededBy}
+                  </button>
+                </p>
+              </div>
+            )}
+
+            {/* Version history section */}
+            {history.length > 1 && (
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                  Version History
+                </h2>
+                <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {history.map((version, index) => {
+                    const changes =
+                      index > 0
+                        ? getChangedFields(history[index - 1], version)
+                        : [];
+                    return (
+                      <li key={version.id} className="py-3 px-4">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900">
+                            Version {index + 1}{" "}
+                            <span className="text-gray-500">
+                              (record #{version.id})
+                            </span>
+                            {version.id === record.id && (
+                              <span className="ml-2 px-2 py-1 rounded-md text-xs font-medium bg-blue-100 text-blue-800">
+                                Viewing
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-sm text-gray-500">
+                            {new Date(
+                              version.timestamp * 1000
+                            ).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {index === 0 ? (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Original issue
+                          </p>
+                        ) : changes.length === 0 ? (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Reissued without field changes
+                          </p>
+                        ) : (
+                          <ul className="mt-2 space-y-1">
+                            {changes.map((change) => (
+                              <li
+                                key={change.field}
+                                className="text-sm text-gray-700 break-all"
+                              >
+                                <span className="font-medium">
+                                  {change.field}:
+                                </span>{" "}
+                                <span className="line-through text-red-600">
+                                  {change.previous}
+                                </span>{" "}
+                                &rarr;{" "}
+                                <span className="text-green-700">
+                                  {change.current}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            )}
+
+            {/* Correction section - only visible to the issuing university */}
+            {isIssuer() && record.verified && record.supersededBy === 0 && (
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                  Publish Corrected Version
+                </h2>
+                <p className="text-gray-600 mb-6">
+                  Issue a corrected version of this record. This version stays
+                  readable but is marked as superseded.
+                </p>
+
+                <form onSubmit={handleCorrection} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <input
+                      type="text"
+                      value={correctionName}
+                      onChange={(e) => setCorrectionName(e.target.value)}
+                      placeholder="Student name"
+                      disabled={isCorrecting}
+                      className="px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                      required
+                    />
+                    <select
+                      value={correctionType}
+                      onChange={(e) => setCorrectionType(e.target.value)}
+                      disabled={isCorrecting}
+                      className="px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                    >
+                      {RECORD_TYPE_NAMES.map((name, id) => (
+                        <option key={id} value={id.toString()}>
+                          {name}
+                        </option>
+                      ))}
+                      {customTypes.length > 0 && (
+                        <optgroup label="Custom Types">
+                          {customTypes.map((type) => (
+                            <option
+                              key={`custom-${type.id}`}
+                              value={toRecordTypeOption(
+                                RecordType.OTHER,
+                                type.id
+                              )}
+                            >
+                              {type.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    value={correctionHash}
+                    onChange={(e) => setCorrectionHash(e.target.value)}
+                    placeholder="IPFS hash of the corrected document"
+                    disabled={isCorrecting}
+                    className="w-full px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                    required
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={isCorrecting}
+                  >
+                    {isCorrecting ? "Publishing..." : "Publish Correction"}
+                  </Button>
+                </form>
+
+                {correctionError && (
+                  <p className="mt-4 text-sm text-red-600">{correctionError}</p>
+                )}
+              </div>
+            )}
+
+            {/* Revocation section - only visible to the issuing university */}
+            {isIssuer() && record.verified && (
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                  Revoke Record
+                </h2>
+                <p className="text-gray-600 mb-6">
+                  Revoke this record if it was issued in error. Verifiers will
+                  see the revocation date and reason instead of a valid result.
+                </p>
+
+                <form
+                  onSubmit={handleRevoke}
+                  className="flex flex-col sm:flex-row gap-4"
+                >
+                  <select
+                    value={revokeReason}
+                    onChange={(e) => setRevokeReason(e.target.value)}
+                    disabled={isRevoking}
+                    className="px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                  >
+                    {REVOCATION_REASON_NAMES.map((name, code) => (
+                      <option key={code} value={code.toString()}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={revokeNote}
+                    onChange={(e) => setRevokeNote(e.target.value)}
+                    placeholder="Note (optional)"
+                    disabled={isRevoking}
+                    className="flex-grow px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={isRevoking}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    {isRevoking ? "Revoking..." : "Revoke Record"}
+                  </Button>
+                </form>
+
+                {revokeError && (
+                  <p className="mt-4 text-sm text-red-600">{revokeError}</p>
+                )}
+              </div>
+            )}
+
             {/* Sharing section - only visible to the record owner */}
             {isOwnRecord() && (
               <div className="p-6">
@@ -345,7 +786,8 @@ export default function RecordDetailPage() {
                 </h2>
                 <p className="text-gray-600 mb-6">
                   Share this record with other Ethereum addresses to grant them
-                  access to view your record details.
+                  access to view your record details. Access ends automatically
+                  when the chosen duration runs out.
                 </p>
 
                 <form onSubmit={handleShare} className="mb-6">
@@ -358,6 +800,22 @@ export default function RecordDetailPage() {
                       className="flex-grow px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
                       required
                     />
+                    <select
+                      value={shareDuration}
+                      onChange={(e) => setShareDuration(e.target.value)}
+                      disabled={isSharing}
+                      aria-label="Share duration"
+                      className="px-4 py-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-navy-700 focus:border-navy-700 text-gray-900"
+                    >
+                      {SHARE_DURATIONS.map((duration) => (
+                        <option
+                          key={duration.seconds}
+                          value={duration.seconds.toString()}
+                        >
+                          {duration.label}
+                        </option>
+                      ))}
+                    </select>
                     <Button
                       type="submit"
                       variant="outline"
@@ -422,17 +880,34 @@ export default function RecordDetailPage() {
                     </p>
                   ) : (
                     <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
-                      {sharedWith.map((address, index) => (
+                      {sharedWith.map((grant) => (
                         <li
-                          key={index}
+                          key={grant.address}
                           className="flex items-center justify-between py-3 px-4"
                         >
-                          <span className="text-gray-800">
-                            {truncateAddress(address)}
-                          </span>
+                          <div>
+                            <span className="text-gray-800">
+                              {truncateAddress(grant.address)}
+                            </span>
+                            <p className="text-sm text-gray-500">
+                              Shared on{" "}
+                              {new Date(
+                                grant.grantedAt * 1000
+                              ).toLocaleDateString()}
+                            </p>
+                            <p
+                              className={`text-sm ${
+                                grant.expiresAt * 1000 <= now
+                                  ? "text-red-600"
+                                  : "text-gray-500"
+                              }`}
+                            >
+                              {formatTimeRemaining(grant.expiresAt, now)}
+                            </p>
+                          </div>
                           <Button
                             variant="outline"
-                            onClick={() => handleUnshare(address)}
+                            onClick={() => handleUnshare(grant.address)}
                             className="text-red-600 hover:text-red-800 text-sm"
                           >
                             Revoke Access
@@ -0,0 +1,572 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import MainLayout from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { uploadToIpfs } from "@/lib/pinata";
+import { ethers } from "ethers";
+import {
+  CustomRecordType,
+  DraftStatus,
+  RecordType,
+  RECORD_TYPE_NAMES,
+  fromRecordTypeOption,
+  toRecordTypeOption,
+  toTimestamp,
+  toDateTimeInput,
+} from "@/types/records";
+import {
+  type UniversityAccount,
+  canIssueRecords,
+  canDraftRecords,
+} from "@/types/universities";
+
+/**
+ * React page component for universities and their registrars and clerks to add new academic records to the blockchain.
+ *
+ * Initializes by connecting to the blockchain wallet, verifying the university role or staff role, and fetching university and record type information. Renders a form for entering student details, selecting a record type, and providing an IPFS hash for the document. Validates input and submits the record to the blockchain. Universities issue the record directly, as do registrars where the university opted out of reviewing staff records; other staff submit it as a draft that a registrar or the university reviews before it is published. An optional release time keeps the record hidden from everyone but the university until then, so results can be uploaded ahead of their announcement, and an optional validity window marks time-bound documents such as admit cards as not yet valid or expired outside of it. Records and drafts can name other universities as co-signers for joint records such as dual degrees; they only verify once every co-signer signed them. With a `draft` query parameter, the author of a returned draft revises it in the same form, seeing the reviewer's comments, and resubmits it. Handles loading, error, and submission states, and redirects on success or access failure.
+ *
+ * @returns The rendered page for adding a new academic record.
+ */
+export default function AddRecordPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const draftId = Number(searchParams.get("draft") || 0);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [isUniversity, setIsUniversity] = useState(false);
+  const [account, setAccount] = useState<UniversityAccount | null>(null);
+  const [reviewComments, setReviewComments] = useState("");
+  const [error, setError] = useState("");
+
+  // Form state
+  const [studentName, setStudentName] = useState("");
+  const [studentId, setStudentId] = useState("");
+  const [studentAddress, setStudentAddress] = useState("");
+  const [recordType, setRecordType] = useState("0");
+  const [ipfsHash, setIpfsHash] = useState("");
+  const [releaseTime, setReleaseTime] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [cosigners, setCosigners] = useState("");
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+  const [universityName, setUniversityName] = useState("");
+  const [customTypes, setCustomTypes] = useState<CustomRecordType[]>([]);
+
+  useEffect(() => {
+    const initWallet = async () => {
+      try {
+        const success = await blockchainService.init();
+        if (!success) return router.push("/login");
+
+        const address = await blockchainService.getCurrentAddress();
+        const universityAccount = await blockchainService.getUniversityAccount(
+          address
+        );
+        if (!universityAccount || !canDraftRecords(universityAccount)) {
+          return router.push("/records");
+        }
+        setAccount(universityAccount);
+
+        if (draftId) {
+          const draft = await blockchainService.getRecordDraft(draftId);
+          if (
+            draft.status !== DraftStatus.RETURNED ||
+            draft.createdBy.toLowerCase() !== address.toLowerCase()
+          ) {
+            return router.push("/dashboard");
+          }
+          setStudentName(draft.studentName);
+          setStudentId(draft.studentId);
+          setStudentAddress(draft.studentAddress);
+          setRecordType(
+            toRecordTypeOption(draft.recordType, draft.customTypeId)
+          );
+          setIpfsHash(draft.ipfsHash);
+          setReleaseTime(toDateTimeInput(draft.visibleFrom));
+          setValidFrom(toDateTimeInput(draft.validFrom));
+          setValidUntil(toDateTimeInput(draft.validUntil));
+          setCosigners(draft.cosigners.join("\n"));
+          setReviewComments(draft.reviewComments);
+        }
+
+        const uniName = await blockchainService.getUniversityName(
+          universityAccount.university
+        );
+        setUniversityName(uniName);
+        setIsUniversity(true);
+        console.log("IsUniversity: ", isUniversity);
+
+        const universityTypes =
+          await blockchainService.getUniversityCustomTypes();
+        setCustomTypes(universityTypes.filter((type) => type.isActive));
+      } catch (err: any) {
+        console.error("Initialization error:", err);
+        setError("Failed to connect wallet or fetch university info.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    initWallet();
+  }, [router, draftId]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const file = e.target.files[0];
+      if (file.size > 10 * 1024 * 1024) {
+        // Set File Size Limit to 10 MB
+        setUploadError("File size exceeds 10MB limit.");
+        setSelectedFile(null);
+      } else {
+        setSelectedFile(file);
+        setUploadError("");
+      }
+    }
+  };
+
+  const handleFileUpload = async () => {
+    if (!selectedFile) {
+      setUploadError("Please select a file to upload.");
+      return;
+    }
+
+    setUploading(true);
+    setUploadError("");
+
+    try {
+      setIpfsHash(await uploadToIpfs(selectedFile));
+    } catch (err: any) {
+      console.error("Upload error:", err);
+      setUploadError(err.message || "An error occurred during upload.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (
+      !studentName.trim() ||
+      !studentId.trim() ||
+      !studentAddress.trim() ||
+      !ipfsHash.trim()
+    ) {
+      setError("Please fill in all required fields.");
+      return;
+    }
+
+    if (!ethers.isAddress(studentAddress.trim())) {
+      setError("Invalid Ethereum address format for student.");
+      return;
+    }
+
+    const visibleFrom = toTimestamp(releaseTime);
+    if (visibleFrom && visibleFrom * 1000 <= Date.now()) {
+      setError("The release time must be in the future.");
+      return;
+    }
+
+    const validity = {
+      validFrom: toTimestamp(validFrom),
+      validUntil: toTimestamp(validUntil),
+    };
+    if (validity.validUntil && validity.validUntil < validity.validFrom) {
+      setError("The validity window must end after it starts.");
+      return;
+    }
+
+    // One co-signing university wallet per line
+    const cosignerAddresses = cosigners
+      .split(/[\s,]+/)
+      .filter((address) => address !== "");
+    if (!cosignerAddresses.every((address) => ethers.isAddress(address))) {
+      setError("Invalid Ethereum address format for a co-signer.");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError("");
+
+      const metadataHash = ethers.keccak256(
+        ethers.toUtf8Bytes(ipfsHash.trim())
+      );
+
+      const { recordType: baseType, customTypeId } =
+        fromRecordTypeOption(recordType);
+
+      if (submitsDraft) {
+        const content = {
+          studentId: studentId.trim(),
+          studentName: studentName.trim(),
+          studentAddress: studentAddress.trim(),
+          universityName,
+          ipfsHash: ipfsHash.trim(),
+          metadataHash,
+          recordType: baseType,
+          customTypeId,
+          visibleFrom,
+          ...validity,
+          cosigners: cosignerAddresses,
+        };
+        if (draftId) {
+          await blockchainService.reviseRecordDraft(draftId, content);
+        } else {
+          await blockchainService.submitRecordDraft(content);
+        }
+        router.push("/dashboard");
+        return;
+      }
+
+      await blockchainService.addRecord(
+        studentId.trim(),
+        studentName.trim(),
+        studentAddress.trim(),
+        universityName,
+        ipfsHash.trim(),
+        metadataHash,
+        baseType,
+        customTypeId,
+        visibleFrom,
+        validity.validFrom,
+        validity.validUntil,
+        cosignerAddresses
+      );
+
+      router.push("/dashboard?success=true");
+    } catch (err: any) {
+      console.error("Add record failed:", err);
+      setError(
+        submitsDraft
+          ? "Failed to submit the draft. Please try again or contact support."
+          : "Failed to add record. Please try again or contact support."
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Staff submit drafts unless the university lets its registrars issue
+  // directly, and returned drafts go back for review
+  const submitsDraft =
+    draftId !== 0 || (account !== null && !canIssueRecords(account));
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="max-w-4xl mx-auto py-12 px-4 sm:px-6 lg:px-8 text-center">
+          <p className="text-lg text-gray-600">Connecting to blockchain...</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-4xl text-black mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-10">
+          <h1 className="text-3xl font-bold text-teal-500 mb-4">
+            {draftId
+              ? "Revise Draft Record"
+              : submitsDraft
+              ? "Draft New Academic Record"
+              : "Add New Academic Record"}
+          </h1>
+          <p className="text-lg text-white max-w-2xl mx-auto">
+            You are submitting a record on behalf of:{" "}
+            <strong>{universityName}</strong>
+          </p>
+          {submitsDraft && (
+            <p className="mt-2 text-white max-w-2xl mx-auto">
+              The record is issued once a registrar or the university wallet
+              reviews and publishes your draft.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white shadow-md rounded-lg p-6 mb-10">
+          {error && (
+            <div
+              className="bg-red-50 border-l-4 border-red-400 p-4 mb-6"
+              role="alert"
+            >
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {reviewComments && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
+              <p className="text-sm text-yellow-800">
+                Returned for changes: {reviewComments}
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label
+                htmlFor="studentName"
+                className="block text-sm font-medium text-black"
+              >
+                Student Name *
+              </label>
+              <input
+                type="text"
+                id="studentName"
+                value={studentName}
+                onChange={(e) => setStudentName(e.target.value)}
+                disabled={submitting}
+                required
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="studentId"
+                className="block text-sm font-medium text-black"
+              >
+                Student ID *
+              </label>
+              <input
+                type="text"
+                id="studentId"
+                value={studentId}
+                onChange={(e) => setStudentId(e.target.value)}
+                disabled={submitting}
+                required
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="studentAddress"
+                className="block text-sm font-medium text-black"
+              >
+                Student Ethereum Address *
+              </label>
+              <input
+                type="text"
+                id="studentAddress"
+                value={studentAddress}
+                onChange={(e) => setStudentAddress(e.target.value)}
+                disabled={submitting}
+                required
+                placeholder="0x..."
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                The Ethereum address of the student who will own this record.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="recordType"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Record Type *
+              </label>
+              <select
+                id="recordType"
+                value={recordType}
+                onChange={(e) => setRecordType(e.target.value)}
+                disabled={submitting}
+                required
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 text-black px-3 focus:ring-navy-500 focus:border-navy-500"
+              >
+                {RECORD_TYPE_NAMES.map((name, id) => (
+                  <option key={id} value={id.toString()}>
+                    {name}
+                  </option>
+                ))}
+                {customTypes.length > 0 && (
+                  <optgroup label="Custom Types">
+                    {customTypes.map((type) => (
+                      <option
+                        key={`custom-${type.id}`}
+                        value={toRecordTypeOption(RecordType.OTHER, type.id)}
+                      >
+                        {type.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="file-upload"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Upload Document
+              </label>
+              <div className="mt-1 flex items-center">
+                <input
+                  id="file-upload"
+                  name="file-upload"
+                  type="file"
+                  className="sr-only"
+                  onChange={handleFileChange}
+                  disabled={submitting || uploading}
+                />
+                <label
+                  htmlFor="file-upload"
+                  className={`cursor-pointer bg-white py-2 px-3 border border-gray-300 rounded-md shadow-sm text-sm leading-4 font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 ${
+                    submitting || uploading
+                      ? "opacity-50 cursor-not-allowed"
+                      : ""
+                  }`}
+                >
+                  <span>
+                    {selectedFile ? selectedFile.name : "Select file"}
+                  </span>
+                </label>
+                <Button
+                  type="button"
+                  onClick={handleFileUpload}
+                  disabled={!selectedFile || uploading || submitting}
+                  className="ml-3"
+                  variant="outline"
+                >
+                  {uploading ? "Uploading..." : "Upload to IPFS"}
+                </Button>
+              </div>
+              {uploadError && (
+                <p className="mt-2 text-sm text-red-600">{uploadError}</p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="ipfsHash"
+                className="block text-sm font-medium text-gray-700"
+              >
+                IPFS Hash (Document) *
+              </label>
+              <input
+                type="text"
+                id="ipfsHash"
+                value={ipfsHash}
+                readOnly
+                required
+                placeholder="Upload a file to generate the hash"
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 bg-gray-100 focus:ring-navy-500 focus:border-navy-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="releaseTime"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Release Time
+              </label>
+              <input
+                type="datetime-local"
+                id="releaseTime"
+                value={releaseTime}
+                onChange={(e) => setReleaseTime(e.target.value)}
+                disabled={submitting}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Optional. Until then the record is hidden from the student and
+                verifiers; leave empty to release it on issue.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label
+                  htmlFor="validFrom"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Valid From
+                </label>
+                <input
+                  type="datetime-local"
+                  id="validFrom"
+                  value={validFrom}
+                  onChange={(e) => setValidFrom(e.target.value)}
+                  disabled={submitting}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="validUntil"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Valid Until
+                </label>
+                <input
+                  type="datetime-local"
+                  id="validUntil"
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  disabled={submitting}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+                />
+              </div>
+              <p className="md:col-span-2 -mt-4 text-sm text-gray-500">
+                Optional. For documents such as admit cards or scholarship
+                letters that are only valid for a period; verifiers see them as
+                not yet valid or expired outside of it.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="cosigners"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Co-signing Universities
+              </label>
+              <textarea
+                id="cosigners"
+                rows={2}
+                placeholder="0x..."
+                value={cosigners}
+                onChange={(e) => setCosigners(e.target.value)}
+                disabled={submitting}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Optional. Wallet addresses of the other universities that
+                endorse a joint record, one per line. The record only verifies
+                once each of them co-signed it from their dashboard.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.push("/dashboard")}
+                disabled={submitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="outline" disabled={submitting}>
+                {submitting
+                  ? "Submitting..."
+                  : submitsDraft
+                  ? "Submit for Review"
+                  : "Add Record"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,578 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import MainLayout from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { ethers } from "ethers";
+import {
+  type BatchRecordEntry,
+  type BatchIssueProgress,
+  type RecordProofFile,
+  RECORD_TYPE_NAMES,
+  getRecordTypeName,
+  toTimestamp,
+} from "@/types/records";
+import { canIssueRecords } from "@/types/universities";
+
+interface BatchRow {
+  line: number;
+  entry: BatchRecordEntry;
+  error: string;
+  recordId?: number;
+  proofFile?: RecordProofFile;
+}
+
+// Saves JSON data as a file download in the browser
+function downloadJson(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses CSV rows of `studentId,studentName,studentAddress,ipfsHash[,recordType]`.
+ *
+ * The record type may be a type number or name and falls back to `defaultType`. A header row starting with "studentId" is skipped. Rows that cannot be issued carry an error instead of being dropped.
+ */
+function parseBatchCsv(text: string, defaultType: number): BatchRow[] {
+  const rows: BatchRow[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line || line.toLowerCase().startsWith("studentid")) return;
+
+    const [
+      studentId = "",
+      studentName = "",
+      studentAddress = "",
+      ipfsHash = "",
+      type = "",
+    ] = line.split(",").map((cell) => cell.trim());
+
+    let recordType = defaultType;
+    let error = "";
+    if (type) {
+      const byName = RECORD_TYPE_NAMES.findIndex(
+        (name) => name.toLowerCase() === type.toLowerCase()
+      );
+      recordType = /^\d+$/.test(type) ? parseInt(type, 10) : byName;
+      if (recordType < 0 || recordType >= RECORD_TYPE_NAMES.length) {
+        error = `Unknown record type "${type}"`;
+      }
+    }
+
+    if (!studentId || !studentName || !ipfsHash) {
+      error = "Missing required field";
+    } else if (!ethers.isAddress(studentAddress)) {
+      error = "Invalid student address";
+    }
+
+    rows.push({
+      line: lineIndex + 1,
+      entry: {
+        studentId,
+        studentName,
+        studentAddress,
+        ipfsHash,
+        metadataHash: ethers.keccak256(ethers.toUtf8Bytes(ipfsHash)),
+        recordType: Math.max(recordType, 0),
+      },
+      error,
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * React page component for universities and their registrars to issue records for many students at once.
+ *
+ * Accepts CSV rows of student details and IPFS hashes, previews them with validation errors, and submits the valid rows through chunked batch transactions. Shows progress while chunks are confirmed and the issued record id or failure reason for each row afterwards. An optional release time applies to the whole batch, which stays hidden from students and verifiers until then, and so does an optional validity window for time-bound documents such as admit cards.
+ *
+ * In anchor mode the rows are not stored on chain. Only their Merkle root is anchored in a single transaction, and a proof file per student is offered for download instead.
+ *
+ * @returns The rendered page for batch issuing academic records.
+ */
+export default function BatchAddRecordsPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [universityName, setUniversityName] = useState("");
+  const [isUniversityWallet, setIsUniversityWallet] = useState(false);
+
+  const [csvText, setCsvText] = useState("");
+  const [defaultType, setDefaultType] = useState("2");
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [progress, setProgress] = useState<BatchIssueProgress | null>(null);
+  const [completed, setCompleted] = useState(false);
+  const [anchorMode, setAnchorMode] = useState(false);
+  const [releaseTime, setReleaseTime] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+
+  useEffect(() => {
+    const initWallet = async () => {
+      try {
+        const success = await blockchainService.init();
+        if (!success) return router.push("/login");
+
+        const address = await blockchainService.getCurrentAddress();
+        const account = await blockchainService.getUniversityAccount(address);
+        if (!account || !canIssueRecords(account)) {
+          return router.push("/records");
+        }
+
+        setIsUniversityWallet(account.staffRole === null);
+        setUniversityName(
+          await blockchainService.getUniversityName(account.university)
+        );
+      } catch (err: any) {
+        console.error("Initialization error:", err);
+        setError("Failed to connect wallet or fetch university info.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    initWallet();
+  }, [router]);
+
+  useEffect(() => {
+    setRows(parseBatchCsv(csvText, parseInt(defaultType, 10)));
+    setCompleted(false);
+    setProgress(null);
+  }, [csvText, defaultType]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsvText(await file.text());
+    }
+  };
+
+  const validRows = rows.filter((row) => !row.error);
+
+  const handleSubmit = async () => {
+    if (validRows.length === 0) {
+      setError("There are no valid rows to issue.");
+      return;
+    }
+    if (anchorMode) return handleAnchor();
+
+    const visibleFrom = toTimestamp(releaseTime);
+    if (visibleFrom && visibleFrom * 1000 <= Date.now()) {
+      setError("The release time must be in the future.");
+      return;
+    }
+
+    const validity = {
+      validFrom: toTimestamp(validFrom),
+      validUntil: toTimestamp(validUntil),
+    };
+    if (validity.validUntil && validity.validUntil < validity.validFrom) {
+      setError("The validity window must end after it starts.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    setProgress({ processed: 0, total: validRows.length });
+
+    try {
+      const result = await blockchainService.addRecordsBatch(
+        universityName,
+        validRows.map((row) => row.entry),
+        setProgress,
+        visibleFrom,
+        validity.validFrom,
+        validity.validUntil
+      );
+
+      const updated = rows.map((row) => ({ ...row }));
+      const submitted = updated.filter((row) => !row.error);
+      submitted.forEach((row, index) => {
+        row.recordId = result.recordIds[index];
+      });
+      result.failures.forEach((failure) => {
+        submitted[failure.index].error = failure.reason;
+      });
+
+      setRows(updated);
+      setCompleted(true);
+    } catch (err: any) {
+      console.error("Batch issuance failed:", err);
+      setError("Failed to issue records. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAnchor = async () => {
+    setSubmitting(true);
+    setError("");
+
+    try {
+      const proofFiles = await blockchainService.anchorRecords(
+        validRows.map(({ entry }) => ({
+          studentId: entry.studentId,
+          studentName: entry.studentName,
+          studentAddress: entry.studentAddress,
+          ipfsHash: entry.ipfsHash,
+          recordType: entry.recordType,
+        }))
+      );
+
+      const updated = rows.map((row) => ({ ...row }));
+      updated
+        .filter((row) => !row.error)
+        .forEach((row, index) => {
+          row.proofFile = proofFiles[index];
+        });
+
+      setRows(updated);
+      setCompleted(true);
+    } catch (err: any) {
+      console.error("Anchoring failed:", err);
+      setError("Failed to anchor records. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const issuedCount = rows.filter((row) => row.recordId).length;
+  const proofFiles = rows
+    .map((row) => row.proofFile)
+    .filter((proofFile): proofFile is RecordProofFile => !!proofFile);
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="max-w-4xl mx-auto py-12 px-4 sm:px-6 lg:px-8 text-center">
+          <p className="text-lg text-gray-600">Connecting to blockchain...</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-6xl text-black mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-10">
+          <h1 className="text-3xl font-bold text-teal-500 mb-4">
+            Batch Issue Records
+          </h1>
+          <p className="text-lg text-white max-w-2xl mx-auto">
+            You are submitting records on behalf of:{" "}
+            <strong>{universityName}</strong>
+          </p>
+        </div>
+
+        <div className="bg-white shadow-md rounded-lg p-6 mb-10 space-y-6">
+          {error && (
+            <div
+              className="bg-red-50 border-l-4 border-red-400 p-4"
+              role="alert"
+            >
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="csvText"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Records (CSV)
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              One record per line: studentId, studentName, studentAddress,
+              ipfsHash and an optional record type name or number.
+            </p>
+            <textarea
+              id="csvText"
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+              disabled={submitting}
+              rows={8}
+              placeholder="S12345,John Doe,0x...,Qm...,Marksheet"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 font-mono text-sm focus:ring-navy-500 focus:border-navy-500"
+            />
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={submitting}
+              className="mt-2 text-sm text-gray-700"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700">
+              Issuance Mode
+            </span>
+            <div className="mt-2 space-y-2 text-sm text-gray-700">
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="issuanceMode"
+                  checked={!anchorMode}
+                  onChange={() => setAnchorMode(false)}
+                  disabled={submitting || completed}
+                  className="mt-1"
+                />
+                <span>
+                  Full records: every record is stored on chain and can be
+                  verified by its record ID.
+                </span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="issuanceMode"
+                  checked={anchorMode}
+                  onChange={() => setAnchorMode(true)}
+                  disabled={submitting || completed || !isUniversityWallet}
+                  className="mt-1"
+                />
+                <span>
+                  Merkle anchor: only a root is stored on chain at a fraction of
+                  the cost. Each student receives a proof file to verify their
+                  record. Suited to admit cards, fee receipts and routines.
+                  {!isUniversityWallet &&
+                    " Only the university wallet can anchor batches."}
+                </span>
+              </label>
+            </div>
+          </div>
+
+          {!anchorMode && (
+            <div>
+              <label
+                htmlFor="releaseTime"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Release Time
+              </label>
+              <input
+                type="datetime-local"
+                id="releaseTime"
+                value={releaseTime}
+                onChange={(e) => setReleaseTime(e.target.value)}
+                disabled={submitting || completed}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 text-black px-3 focus:ring-navy-500 focus:border-navy-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Optional. Every record of the batch stays hidden from students
+                and verifiers until then, e.g. until results are announced.
+              </p>
+            </div>
+          )}
+
+          {!anchorMode && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label
+                  htmlFor="validFrom"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Valid From
+                </label>
+                <input
+                  type="datetime-local"
+                  id="validFrom"
+                  value={validFrom}
+                  onChange={(e) => setValidFrom(e.target.value)}
+                  disabled={submitting || completed}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 text-black px-3 focus:ring-navy-500 focus:border-navy-500"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="validUntil"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Valid Until
+                </label>
+                <input
+                  type="datetime-local"
+                  id="validUntil"
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  disabled={submitting || completed}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 text-black px-3 focus:ring-navy-500 focus:border-navy-500"
+                />
+              </div>
+              <p className="md:col-span-2 -mt-4 text-sm text-gray-500">
+                Optional. Every record of the batch is only valid within this
+                window, e.g. admit cards for one exam session.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="defaultType"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Default Record Type
+            </label>
+            <select
+              id="defaultType"
+              value={defaultType}
+              onChange={(e) => setDefaultType(e.target.value)}
+              disabled={submitting}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 text-black px-3 focus:ring-navy-500 focus:border-navy-500"
+            >
+              {RECORD_TYPE_NAMES.map((name, id) => (
+                <option key={id} value={id.toString()}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">
+                      Line
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">
+                      Student
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">
+                      Type
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map((row) => (
+                    <tr key={row.line}>
+                      <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2">
+                        {row.entry.studentName} ({row.entry.studentId})
+                      </td>
+                      <td className="px-3 py-2">
+                        {getRecordTypeName(row.entry.recordType)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.error ? (
+                          <span className="text-red-600">{row.error}</span>
+                        ) : row.proofFile ? (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              downloadJson(
+                                `proof-${row.entry.studentId}.json`,
+                                row.proofFile
+                              )
+                            }
+                            className="text-teal-600 hover:underline"
+                          >
+                            Download proof
+                          </button>
+                        ) : row.recordId ? (
+                          <a
+                            href={`/records/${row.recordId}`}
+                            className="text-teal-600 hover:underline"
+                          >
+                            Issued as #{row.recordId}
+                          </a>
+                        ) : (
+                          <span className="text-gray-500">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>
+                  {completed
+                    ? `${issuedCount} issued, ${
+                        progress.total - issuedCount
+                      } failed`
+                    : "Waiting for confirmations..."}
+                </span>
+                <span>
+                  {progress.processed} / {progress.total}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-teal-500 h-2 rounded-full"
+                  style={{
+                    width: `${(progress.processed / progress.total) * 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {proofFiles.length > 0 && (
+            <div className="bg-green-50 border-l-4 border-green-400 p-4 flex items-center justify-between">
+              <p className="text-sm text-green-700">
+                Anchored {proofFiles.length} records as batch #
+                {proofFiles[0].batchId}. Send each student their proof file.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  downloadJson(
+                    `proofs-batch-${proofFiles[0].batchId}.json`,
+                    proofFiles
+                  )
+                }
+              >
+                Download All Proofs
+              </Button>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => router.push("/dashboard")}
+              disabled={submitting}
+            >
+              {completed ? "Back to Dashboard" : "Cancel"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSubmit}
+              disabled={submitting || completed || validRows.length === 0}
+            >
+              {submitting
+                ? "Submitting..."
+                : `${anchorMode ? "Anchor" : "Issue"} ${
+                    validRows.length
+                  } Records`}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
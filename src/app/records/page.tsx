@@ -5,7 +5,7 @@ import { useRouter } from "next/navigation";
 import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
 import { blockchainService } from "@/services/blockchain";
-import { type RecordItem, getRecordTypeName } from "@/types/records";
+import { type RecordItem, getRecordTypeLabel } from "@/types/records";
 
 /**
  * Renders a table row displaying a student's record with actions to view or verify the record.
@@ -81,10 +81,8 @@ export default function RecordsPage() {
         const address = await blockchainService.getCurrentAddress();
         setConnectedAddress(address);
 
-        const isUniversity = await blockchainService.hasRole(
-          "UNIVERSITY_ROLE",
-          address
-        );
+        const isUniversity =
+          (await blockchainService.getUniversityAccount(address)) !== null;
         if (isUniversity) {
           router.push("/dashboard");
           return;
@@ -117,7 +115,7 @@ export default function RecordsPage() {
               return {
                 id: id.toString(),
                 studentName: record.studentName,
-                type: getRecordTypeName(record.recordType),
+                type: getRecordTypeLabel(record),
                 dateIssued: new Date(
                   record.timestamp * 1000
                 ).toLocaleDateString(),
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { blockchainService } from "@/services/blockchain";
+import { truncateAddress } from "@/lib/utils";
+import { RecordAccessEntry } from "@/types/records";
+
+interface AccessLogPanelProps {
+  studentId: string;
+}
+
+/**
+ * Lists who opened the student's shared records and when, most recent first.
+ *
+ * Covers every record of the student, not just the page shown in the records table. Entries come from the access receipts logged by the AccessLog contract when a wallet the record is shared with views it.
+ */
+export default function AccessLogPanel({ studentId }: AccessLogPanelProps) {
+  const router = useRouter();
+  const [entries, setEntries] = useState<RecordAccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const recordIds = await blockchainService.getStudentRecords(studentId);
+        setEntries(await blockchainService.getAccessLog(recordIds));
+      } catch (err) {
+        console.error("Error loading access log:", err);
+        setError("Failed to load the access log. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [studentId]);
+
+  return (
+    <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
+      <div className="px-6 py-5 border-b border-gray-200">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Access Log
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Wallets you shared a record with that opened it.
+        </p>
+      </div>
+
+      {error && <div className="px-6 py-4 text-sm text-red-600">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Record ID
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Opened By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Opened At
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td
+                  colSpan={3}
+                  className="px-6 py-4 text-center text-sm text-gray-500"
+                >
+                  Loading access log...
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={3}
+                  className="px-6 py-4 text-center text-sm text-gray-500"
+                >
+                  Nobody has opened your shared records yet.
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr
+                  key={`${entry.recordId}-${entry.accessor}-${entry.accessedAt}`}
+                  className="hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    <button
+                      className="text-blue-600 hover:text-blue-900"
+                      onClick={() => router.push(`/records/${entry.recordId}`)}
+                    >
+                      {entry.recordId}
+                    </button>
+                  </td>
+                  <td
+                    className="px-6 py-4 whitespace-nowrap text-sm text-gray-500"
+                    title={entry.accessor}
+                  >
+                    {truncateAddress(entry.accessor)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(entry.accessedAt * 1000).toLocaleString()}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/Button";
+import { blockchainService } from "@/services/blockchain";
+import { truncateAddress, formatTimeRemaining } from "@/lib/utils";
+import { WalletRecovery, RECOVERY_REQUEST_EXPIRY } from "@/types/students";
+
+type WizardStep = "student-id" | "confirm" | "status";
+
+interface RecoverRecordsWizardProps {
+  connectedAddress: string;
+  onRecovered: () => void;
+}
+
+/**
+ * Guides a student who lost their wallet through moving their student ID to the connected wallet.
+ *
+ * The student enters their student ID, submits a recovery request from the new wallet, and follows its progress: a university that issued them a record has to attest to the request, after which a waiting period runs during which the old wallet can veto it. Once the waiting period is over the student completes the recovery and `onRecovered` is called. Entering the student ID again resumes a request made earlier from the same wallet.
+ */
+export default function RecoverRecordsWizard({
+  connectedAddress,
+  onRecovered,
+}: RecoverRecordsWizardProps) {
+  const [step, setStep] = useState<WizardStep>("student-id");
+  const [studentId, setStudentId] = useState("");
+  const [recovery, setRecovery] = useState<WalletRecovery | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadRecovery = async (id: string) => {
+    const pending = await blockchainService.getWalletRecovery(id);
+    setRecovery(pending);
+    return pending;
+  };
+
+  const handleStudentIdSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentId) {
+      setError("Please enter your student ID");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      if (!(await blockchainService.isStudentRegistered(studentId))) {
+        setError(
+          "This student ID is not registered. Please contact your university."
+        );
+        return;
+      }
+
+      const pending = await loadRecovery(studentId);
+      if (!pending) {
+        setStep("confirm");
+      } else if (
+        pending.newAddress.toLowerCase() === connectedAddress.toLowerCase()
+      ) {
+        setStep("status");
+      } else {
+        setError(
+          "Another wallet already requested to recover this student ID. Please contact your university."
+        );
+      }
+    } catch (err) {
+      console.error("Error checking student ID:", err);
+      setError("Failed to check the student ID. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequest = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      await blockchainService.requestWalletRecovery(studentId);
+      await loadRecovery(studentId);
+      setStep("status");
+    } catch (err) {
+      console.error("Error requesting wallet recovery:", err);
+      setError("Failed to submit the recovery request. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const pending = await loadRecovery(studentId);
+      if (!pending) {
+        setError(
+          "The request was cancelled by your old wallet or your university, or it expired."
+        );
+        setStep("student-id");
+      }
+    } catch (err) {
+      console.error("Error loading wallet recovery:", err);
+      setError("Failed to load the request status. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      await blockchainService.completeWalletRecovery(studentId);
+      onRecovered();
+    } catch (err) {
+      console.error("Error completing wallet recovery:", err);
+      setError("Failed to complete the recovery. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isReady =
+    recovery !== null &&
+    recovery.executableAt > 0 &&
+    recovery.executableAt * 1000 <= now;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <h4 className="font-medium text-gray-900 mb-1">Recover my records</h4>
+      <p className="text-sm text-gray-500 mb-4">
+        Lost the wallet your university registered? Move your student ID to this
+        wallet ({truncateAddress(connectedAddress)}).
+      </p>
+
+      {step === "student-id" && (
+        <form onSubmit={handleStudentIdSubmit} className="flex gap-3">
+          <input
+            type="text"
+            placeholder="Student ID"
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading ? "Checking..." : "Continue"}
+          </Button>
+        </form>
+      )}
+
+      {step === "confirm" && (
+        <div className="space-y-4">
+          <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+            <li>
+              You submit a request to move student ID{" "}
+              <span className="font-medium">{studentId}</span> to this wallet.
+            </li>
+            <li>
+              Contact a university that issued you a record. It attests to the
+              request after confirming your identity.
+            </li>
+            <li>
+              A 7 day waiting period starts. Your old wallet can veto the
+              request during this time.
+            </li>
+            <li>After the waiting period you complete the recovery here.</li>
+          </ol>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => setStep("student-id")}
+            >
+              Back
+            </Button>
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={handleRequest}
+            >
+              {loading ? "Submitting..." : "Submit recovery request"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === "status" && recovery && (
+        <div className="space-y-4">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Student ID</dt>
+              <dd className="font-medium text-gray-900">{studentId}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">University attestations</dt>
+              <dd className="font-medium text-gray-900">
+                {recovery.attestations}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Status</dt>
+              <dd className="font-medium text-gray-900">
+                {recovery.executableAt === 0
+                  ? `Waiting for your university (${formatTimeRemaining(
+                      recovery.requestedAt + RECOVERY_REQUEST_EXPIRY,
+                      now
+                    )})`
+                  : isReady
+                  ? "Ready to complete"
+                  : `Waiting period, ${formatTimeRemaining(
+                      recovery.executableAt,
+                      now
+                    )}`}
+              </dd>
+            </div>
+          </dl>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={handleRefresh}
+            >
+              Refresh
+            </Button>
+            <Button
+              variant="outline"
+              disabled={loading || !isReady}
+              onClick={handleComplete}
+            >
+              {loading ? "Completing..." : "Complete recovery"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="mt-4 text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
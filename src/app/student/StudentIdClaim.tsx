@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/Button";
+import { blockchainService, University } from "@/services/blockchain";
+import { formatTimeRemaining } from "@/lib/utils";
+import {
+  StudentClaim,
+  ClaimStatus,
+  isClaimExpired,
+  getClaimStatusLabel,
+} from "@/types/students";
+
+interface StudentIdClaimProps {
+  connectedAddress: string;
+  onApproved: () => void;
+}
+
+/**
+ * Lets an unregistered wallet claim a student ID at a university and follows the claim until the university resolves it.
+ *
+ * Shows the wallet's latest claim with its status, updating live when the university approves or rejects it, and calls `onApproved` once the wallet is registered. Rejected and expired claims can be replaced by a new one.
+ */
+export default function StudentIdClaim({
+  connectedAddress,
+  onApproved,
+}: StudentIdClaimProps) {
+  const [claim, setClaim] = useState<StudentClaim | null>(null);
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [studentId, setStudentId] = useState("");
+  const [university, setUniversity] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [existingClaim, allUniversities] = await Promise.all([
+          blockchainService.getStudentClaim(connectedAddress),
+          blockchainService.getAllUniversities(),
+        ]);
+        setClaim(existingClaim);
+        setUniversities(allUniversities);
+      } catch (err) {
+        console.error("Error loading student claim:", err);
+        setError("Failed to load your claim. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [connectedAddress]);
+
+  useEffect(() => {
+    if (claim?.status !== ClaimStatus.PENDING) return;
+
+    return blockchainService.onStudentClaimResolved(
+      connectedAddress,
+      (status) => {
+        setClaim((current) => current && { ...current, status });
+        if (status === ClaimStatus.APPROVED) {
+          onApproved();
+        }
+      }
+    );
+  }, [claim?.status, connectedAddress, onApproved]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentId || !university) {
+      setError("Please enter your student ID and choose your university");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      await blockchainService.claimStudentId(studentId, university);
+      setClaim(await blockchainService.getStudentClaim(connectedAddress));
+      setStudentId("");
+    } catch (err) {
+      console.error("Error claiming student ID:", err);
+      setError(
+        "Failed to submit your claim. The student ID may already be registered."
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const universityName = (address: string) =>
+    universities.find(
+      (candidate) => candidate.address.toLowerCase() === address.toLowerCase()
+    )?.name || address;
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading your claim...</div>;
+  }
+
+  const canClaim =
+    !claim ||
+    claim.status === ClaimStatus.REJECTED ||
+    isClaimExpired(claim, now);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900 mb-1">Claim my student ID</h4>
+        <p className="text-sm text-gray-500">
+          Ask your university to register this wallet under your student ID. The
+          university reviews the claim from its dashboard.
+        </p>
+      </div>
+
+      {claim && (
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Student ID</dt>
+            <dd className="font-medium text-gray-900">{claim.studentId}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">University</dt>
+            <dd className="font-medium text-gray-900">
+              {universityName(claim.university)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Status</dt>
+            <dd className="font-medium text-gray-900">
+              {getClaimStatusLabel(claim, now)}
+              {claim.status === ClaimStatus.PENDING &&
+                !isClaimExpired(claim, now) &&
+                ` (${formatTimeRemaining(claim.expiresAt, now)})`}
+            </dd>
+          </div>
+        </dl>
+      )}
+
+      {canClaim && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 md:grid-cols-3 gap-4"
+        >
+          <input
+            type="text"
+            placeholder="Student ID"
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <select
+            value={university}
+            onChange={(e) => setUniversity(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Choose your university</option>
+            {universities.map((candidate) => (
+              <option key={candidate.address} value={candidate.address}>
+                {candidate.name}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" variant="outline" disabled={submitting}>
+            {submitting ? "Submitting..." : "Submit claim"}
+          </Button>
+        </form>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -4,23 +4,41 @@ import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
+import { Pagination, PAGE_SIZE } from "@/components/ui/Pagination";
+import { ValidityNote } from "@/components/ui/ValidityNote";
 import { blockchainService } from "@/services/blockchain";
 import { truncateAddress } from "@/lib/utils";
-import { type RecordItem, getRecordTypeName } from "@/types/records";
+import {
+  type RecordItem,
+  formatValidityWindow,
+  getRecordTypeLabel,
+} from "@/types/records";
+import { WalletRecovery } from "@/types/students";
+import AccessLogPanel from "./AccessLogPanel";
+import RecoverRecordsWizard from "./RecoverRecordsWizard";
+import StudentIdClaim from "./StudentIdClaim";
 
 /**
  * Displays the student dashboard, allowing students to view their academic records and records shared with them via a blockchain service.
  *
- * Connects to the blockchain wallet, determines registration status, and fetches student details, personal records, and shared records. Provides UI for viewing record summaries and navigating to detailed record pages. Handles wallet connection, registration checks, and error states, redirecting users as appropriate.
+ * Connects to the blockchain wallet, determines registration status, and fetches student details, personal records one page at a time, the access log of the student's shared records, and records shared with them. Provides UI for viewing record summaries and navigating to detailed record pages. Unregistered wallets can claim a student ID at a university or recover one through the recovery wizard, and registered wallets are warned about recovery requests for their student ID and can veto them. Handles wallet connection, registration checks, and error states, redirecting users as appropriate.
  */
 export default function StudentDashboardPage() {
   const [connectedAddress, setConnectedAddress] = useState("");
   const [studentId, setStudentId] = useState("");
   const [records, setRecords] = useState<RecordItem[]>([]);
+  const [totalRecords, setTotalRecords] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loadingRecords, setLoadingRecords] = useState(false);
   const [sharedRecords, setSharedRecords] = useState<RecordItem[]>([]);
   const [error, setError] = useState("");
   const [isRegistered, setIsRegistered] = useState(false);
   const [fetching, setFetching] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+  const [pendingRecovery, setPendingRecovery] = useState<WalletRecovery | null>(
+    null
+  );
+  const [vetoing, setVetoing] = useState(false);
   const router = useRouter();
 
   const fetchSharedRecords = useCallback(async (address: string) => {
@@ -34,8 +52,10 @@ export default function StudentDashboardPage() {
             id: id.toString(),
             studentName: record.studentName,
             universityName: record.universityName,
-            type: getRecordTypeName(record.recordType),
+            type: getRecordTypeLabel(record),
             dateIssued: new Date(record.timestamp * 1000).toLocaleDateString(),
+            validity: formatValidityWindow(record),
+            status: await blockchainService.verifyRecord(id),
           };
         })
       );
@@ -55,45 +75,9 @@ export default function StudentDashboardPage() {
         if (studentIdFromAddress && studentIdFromAddress.length > 0) {
           setStudentId(studentIdFromAddress);
           setIsRegistered(true);
-        }
-
-        try {
-          const recordIds = await blockchainService.getStudentRecordsByAddress(
-            address
+          setPendingRecovery(
+            await blockchainService.getWalletRecovery(studentIdFromAddress)
           );
-
-          if (recordIds && recordIds.length > 0) {
-            const recordsData = await Promise.all(
-              recordIds.map(async (id: number) => {
-                try {
-                  const record = await blockchainService.getRecord(id);
-                  return {
-                    id: id.toString(),
-                    studentName: record.studentName,
-                    universityName: record.universityName,
-                    type: getRecordTypeName(record.recordType),
-                    dateIssued: new Date(
-                      record.timestamp * 1000
-                    ).toLocaleDateString(),
-                  };
-                } catch (err) {
-                  console.error(`Error fetching record ${id}:`, err);
-                  return null;
-                }
-              })
-            );
-
-            const validRecordsData = recordsData.filter(
-              (record) => record !== null
-            ) as RecordItem[];
-
-            setRecords(validRecordsData);
-            if (validRecordsData.length > 0) {
-              setIsRegistered(true);
-            }
-          }
-        } catch (err) {
-          console.error("Error fetching records:", err);
         }
 
         try {
@@ -109,6 +93,55 @@ export default function StudentDashboardPage() {
     [fetchSharedRecords]
   );
 
+  useEffect(() => {
+    if (!studentId) return;
+
+    const fetchRecords = async () => {
+      setLoadingRecords(true);
+      try {
+        const { items: recordIds, total } =
+          await blockchainService.getStudentRecordsPage(
+            studentId,
+            offset,
+            PAGE_SIZE
+          );
+
+        const recordsData = await Promise.all(
+          recordIds.map(async (id: number) => {
+            try {
+              const record = await blockchainService.getRecord(id);
+              return {
+                id: id.toString(),
+                studentName: record.studentName,
+                universityName: record.universityName,
+                type: getRecordTypeLabel(record),
+                dateIssued: new Date(
+                  record.timestamp * 1000
+                ).toLocaleDateString(),
+                validity: formatValidityWindow(record),
+                status: await blockchainService.verifyRecord(id),
+              };
+            } catch (err) {
+              console.error(`Error fetching record ${id}:`, err);
+              return null;
+            }
+          })
+        );
+
+        setRecords(
+          recordsData.filter((record) => record !== null) as RecordItem[]
+        );
+        setTotalRecords(total);
+      } catch (err) {
+        console.error("Error fetching records:", err);
+      } finally {
+        setLoadingRecords(false);
+      }
+    };
+
+    fetchRecords();
+  }, [studentId, offset]);
+
   useEffect(() => {
     const initWallet = async () => {
       try {
@@ -121,10 +154,8 @@ export default function StudentDashboardPage() {
         const address = await blockchainService.getCurrentAddress();
         setConnectedAddress(address);
 
-        const isUniversity = await blockchainService.hasRole(
-          "UNIVERSITY_ROLE",
-          address
-        );
+        const isUniversity =
+          (await blockchainService.getUniversityAccount(address)) !== null;
         if (isUniversity) {
           router.push("/dashboard");
           return;
@@ -152,7 +183,7 @@ export default function StudentDashboardPage() {
 
       if (!isRegistered && records.length === 0) {
         setError(
-          "No student record found for this address. Please contact your university administrator."
+          "No student record found for this address. Claim your student ID below to ask your university to register you."
         );
       }
     } catch (err: any) {
@@ -165,6 +196,26 @@ export default function StudentDashboardPage() {
     }
   };
 
+  const handleClaimApproved = useCallback(
+    () => fetchStudentDetails(connectedAddress),
+    [fetchStudentDetails, connectedAddress]
+  );
+
+  const handleVetoRecovery = async () => {
+    setVetoing(true);
+    setError("");
+
+    try {
+      await blockchainService.cancelWalletRecovery(studentId);
+      setPendingRecovery(null);
+    } catch (err) {
+      console.error("Failed to veto recovery:", err);
+      setError("Failed to veto the recovery request. Please try again.");
+    } finally {
+      setVetoing(false);
+    }
+  };
+
   return (
     <MainLayout>
       <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
@@ -201,23 +252,45 @@ export default function StudentDashboardPage() {
                   </div>
                   <div className="ml-3">
                     <p className="text-sm text-yellow-700">
-                      No student record found for your address. Click the button
-                      below to check if your university has registered you.
+                      No student record found for your address. Claim your
+                      student ID at your university, or check if your university
+                      has registered you already.
                     </p>
                   </div>
                 </div>
               </div>
 
               <div className="space-y-4">
+                {connectedAddress && (
+                  <StudentIdClaim
+                    connectedAddress={connectedAddress}
+                    onApproved={handleClaimApproved}
+                  />
+                )}
                 {error && <div className="text-sm text-red-600">{error}</div>}
-                <Button
-                  type="button"
-                  variant="outline"
-                  disabled={fetching}
-                  onClick={handleGetDetails}
-                >
-                  {fetching ? "Checking..." : "Get My Details"}
-                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={fetching}
+                    onClick={handleGetDetails}
+                  >
+                    {fetching ? "Checking..." : "Get My Details"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowRecovery(!showRecovery)}
+                  >
+                    Recover my records
+                  </Button>
+                </div>
+                {showRecovery && (
+                  <RecoverRecordsWizard
+                    connectedAddress={connectedAddress}
+                    onRecovered={() => fetchStudentDetails(connectedAddress)}
+                  />
+                )}
               </div>
             </div>
           ) : (
@@ -239,7 +312,7 @@ export default function StudentDashboardPage() {
                     My Records
                   </dt>
                   <dd className="mt-1 text-3xl font-semibold text-gray-900">
-                    {records.length}
+                    {totalRecords}
                   </dd>
                 </div>
               </div>
@@ -258,6 +331,35 @@ export default function StudentDashboardPage() {
           )}
         </div>
 
+        {isRegistered && pendingRecovery && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-8">
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="text-sm text-red-700">
+                <p className="font-medium">
+                  A wallet recovery was requested for your student ID
+                </p>
+                <p>
+                  {truncateAddress(pendingRecovery.newAddress)} asked to take
+                  over student ID {studentId}
+                  {pendingRecovery.executableAt > 0 &&
+                    ` and can do so after ${new Date(
+                      pendingRecovery.executableAt * 1000
+                    ).toLocaleString()}`}
+                  . If this was not you, veto the request.
+                </p>
+                {error && <p className="mt-1">{error}</p>}
+              </div>
+              <Button
+                variant="outline"
+                disabled={vetoing}
+                onClick={handleVetoRecovery}
+              >
+                {vetoing ? "Vetoing..." : "Veto request"}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {isRegistered && (
           <>
             <div className="bg-white shadow overflow-hidden rounded-lg mb-8">
@@ -315,6 +417,10 @@ export default function StudentDashboardPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {record.dateIssued}
+                            <ValidityNote
+                              validity={record.validity}
+                              status={record.status}
+                            />
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <button
@@ -332,8 +438,16 @@ export default function StudentDashboardPage() {
                   </tbody>
                 </table>
               </div>
+              <Pagination
+                offset={offset}
+                total={totalRecords}
+                disabled={loadingRecords}
+                onChange={setOffset}
+              />
             </div>
 
+            <AccessLogPanel studentId={studentId} />
+
             <div className="bg-white shadow overflow-hidden rounded-lg">
               <div className="px-6 py-5 border-b border-gray-200">
                 <h3 className="text-lg leading-6 font-medium text-gray-900">
@@ -395,6 +509,10 @@ export default function StudentDashboardPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {record.dateIssued}
+                            <ValidityNote
+                              validity={record.validity}
+                              status={record.status}
+                            />
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <button
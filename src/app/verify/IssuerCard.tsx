@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { blockchainService } from "@/services/blockchain";
+import { getGatewayUrl } from "@/lib/pinata";
+import {
+  UniversityProfile,
+  hasUniversityProfile,
+  isWebsiteUrl,
+} from "@/types/universities";
+
+interface IssuerCardProps {
+  address: string;
+  name: string;
+}
+
+/**
+ * Shows the profile of the university that issued a record, so verifiers can check the institution behind it.
+ *
+ * Loads the profile admins keep in the UniversityProfiles contract: logo, accreditation, country, website, contact email and a link to the university's metadata document. Universities without a profile are shown with their name and address only.
+ */
+export default function IssuerCard({ address, name }: IssuerCardProps) {
+  const [profile, setProfile] = useState<UniversityProfile | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setProfile(await blockchainService.getUniversityProfile(address));
+      } catch (err) {
+        console.error("Error loading university profile:", err);
+      }
+    };
+
+    load();
+  }, [address]);
+
+  return (
+    <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-4">
+        {profile?.logoHash && (
+          <Image
+            src={getGatewayUrl(profile.logoHash)}
+            alt={`${name} logo`}
+            width={56}
+            height={56}
+            unoptimized
+            className="h-14 w-14 rounded object-contain border border-gray-200"
+          />
+        )}
+        <div className="min-w-0">
+          <p className="text-sm text-gray-500">Issued by</p>
+          <p className="font-medium text-black">{name}</p>
+          <p className="text-xs text-gray-500 break-all">{address}</p>
+        </div>
+      </div>
+
+      {profile && hasUniversityProfile(profile) ? (
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 text-sm">
+          {profile.accreditationBody && (
+            <div>
+              <dt className="text-gray-500">Accreditation</dt>
+              <dd className="font-medium text-black">
+                {profile.accreditationBody}
+                {profile.accreditationId && ` (${profile.accreditationId})`}
+              </dd>
+            </div>
+          )}
+          {profile.country && (
+            <div>
+              <dt className="text-gray-500">Country</dt>
+              <dd className="font-medium text-black">{profile.country}</dd>
+            </div>
+          )}
+          {isWebsiteUrl(profile.website) && (
+            <div>
+              <dt className="text-gray-500">Website</dt>
+              <dd>
+                <a
+                  href={profile.website}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:text-blue-800 break-all"
+                >
+                  {profile.website}
+                </a>
+              </dd>
+            </div>
+          )}
+          {profile.contactEmail && (
+            <div>
+              <dt className="text-gray-500">Contact</dt>
+              <dd>
+                <a
+                  href={`mailto:${profile.contactEmail}`}
+                  className="font-medium text-blue-600 hover:text-blue-800 break-all"
+                >
+                  {profile.contactEmail}
+                </a>
+              </dd>
+            </div>
+          )}
+          {profile.metadataHash && (
+            <div>
+              <dt className="text-gray-500">Institution details</dt>
+              <dd>
+                <a
+                  href={getGatewayUrl(profile.metadataHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:text-blue-800"
+                >
+                  View document
+                </a>
+              </dd>
+            </div>
+          )}
+        </dl>
+      ) : (
+        profile && (
+          <p className="mt-4 text-sm text-gray-500">
+            No profile has been published for this university yet.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
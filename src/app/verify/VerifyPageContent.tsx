@@ -6,12 +6,21 @@ import MainLayout from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/Button";
 import { blockchainService } from "@/services/blockchain";
 import { truncateAddress } from "@/lib/utils";
-import { getRecordTypeName } from "@/types/records";
+import { parseProofFile } from "@/lib/merkle";
+import IssuerCard from "./IssuerCard";
+import {
+  getRecordTypeLabel,
+  getRecordTypeName,
+  formatRevocation,
+  formatWithdrawal,
+  formatValidityWindow,
+  VerificationStatus,
+} from "@/types/records";
 
 /**
  * React component for verifying academic records on the blockchain.
  *
- * Displays a form for entering a record ID, verifies the record using the blockchain service, and shows verification results with detailed record information or error messages.
+ * Displays a form for entering a record ID or uploading a proof file, verifies the record using the blockchain service, and shows verification results with detailed record information or error messages.
  *
  * Automatically initializes the blockchain service and supports pre-filling the record ID from the URL query parameters.
  *
@@ -21,9 +30,10 @@ export default function VerifyPageContent() {
   const searchParams = useSearchParams();
   const [recordId, setRecordId] = useState("");
   const [verificationStatus, setVerificationStatus] = useState<
-    "idle" | "loading" | "success" | "error"
+    "idle" | "loading" | "success" | "revoked" | "withdrawn" | "error"
   >("idle");
   const [recordDetails, setRecordDetails] = useState<any>(null);
+  const [proofFileName, setProofFileName] = useState("");
   const [initialized, setInitialized] = useState(false);
 
   useEffect(() => {
@@ -49,29 +59,104 @@ export default function VerifyPageContent() {
     if (!id || !initialized) return;
 
     setVerificationStatus("loading");
+    setProofFileName("");
 
     try {
       const recordIdNumber = parseInt(id, 10);
       if (isNaN(recordIdNumber)) throw new Error("Invalid record ID");
 
-      const record = await blockchainService.getRecord(recordIdNumber);
+      // Records scheduled for a later release fail to load like unknown ones
+      // until then
+      let record;
+      try {
+        record = await blockchainService.getRecord(recordIdNumber);
+      } catch (err) {
+        // Deleted records leave a tombstone behind
+        const tombstone = await blockchainService.getDeletedRecord(
+          recordIdNumber
+        );
+        if (!tombstone) throw err;
 
-      if (record.isValid) {
         const universityName =
-          record.universityName ||
-          (await blockchainService.getUniversityName(record.university));
+          (await blockchainService.getUniversityName(tombstone.issuer)) ||
+          truncateAddress(tombstone.issuer);
+        setRecordDetails({
+          id,
+          universityName,
+          issuer: truncateAddress(tombstone.issuer),
+          issuerAddress: tombstone.issuer,
+          withdrawalStatus: formatWithdrawal(universityName, tombstone),
+        });
+        setVerificationStatus("withdrawn");
+        return;
+      }
+
+      const universityName =
+        record.universityName ||
+        (await blockchainService.getUniversityName(record.university));
+
+      if (record.isValid) {
+        // Outdated versions of a corrected record link to the current one
+        const latestVersionId =
+          record.supersededBy !== 0
+            ? (await blockchainService.getLatestVersion(recordIdNumber)).id
+            : null;
+        // Expired, not yet valid and not fully co-signed records are shown
+        // as not verified
+        const validityStatus = await blockchainService.verifyRecord(
+          recordIdNumber
+        );
+        const cosignatures = await blockchainService.getCosignatures(
+          recordIdNumber
+        );
+        // Joint records list every endorsing university with when it signed;
+        // the issuer signs the record when issuing it
+        const endorsements =
+          cosignatures.length > 0
+            ? [
+                { name: universityName, signedAt: record.timestamp },
+                ...(await Promise.all(
+                  cosignatures.map(async (cosignature) => ({
+                    name:
+                      (await blockchainService.getUniversityName(
+                        cosignature.university
+                      )) || truncateAddress(cosignature.university),
+                    signedAt: cosignature.signedAt,
+                  }))
+                )),
+              ]
+            : [];
 
         setRecordDetails({
           id,
           studentName: record.studentName,
           universityName,
-          recordType: getRecordTypeName(record.recordType),
+          recordType: getRecordTypeLabel(record),
+          recordTypeDescription: record.customType?.description,
           issueDate: new Date(record.timestamp * 1000).toLocaleDateString(),
           verified: true,
           issuer: truncateAddress(record.university),
+          issuerAddress: record.university,
+          latestVersionId,
+          validity: formatValidityWindow(record),
+          validityStatus,
+          endorsements,
         });
 
         setVerificationStatus("success");
+      } else if (record.revocation) {
+        // Reported with the revocation date and reason instead of a result
+        setRecordDetails({
+          id,
+          studentName: record.studentName,
+          recordType: getRecordTypeLabel(record),
+          universityName,
+          issuer: truncateAddress(record.university),
+          issuerAddress: record.university,
+          revocationStatus: formatRevocation(record.revocation),
+        });
+
+        setVerificationStatus("revoked");
       } else {
         setVerificationStatus("error");
         setRecordDetails(null);
@@ -83,6 +168,57 @@ export default function VerifyPageContent() {
     }
   };
 
+  // A proof file verifies when its record is part of a Merkle root anchored
+  // by a current university
+  const verifyProofFile = async (file: File) => {
+    if (!initialized) return;
+
+    setVerificationStatus("loading");
+    setProofFileName(file.name);
+
+    try {
+      const proofFile = parseProofFile(await file.text());
+      const isValid = await blockchainService.verifyAnchoredRecord(
+        proofFile.batchId,
+        proofFile.record,
+        proofFile.proof
+      );
+      if (!isValid) throw new Error("Proof does not match an anchored batch");
+
+      const batch = await blockchainService.getAnchoredBatch(proofFile.batchId);
+
+      setRecordDetails({
+        batchId: batch.id,
+        studentName: proofFile.record.studentName,
+        universityName: await blockchainService.getUniversityName(batch.issuer),
+        recordType: getRecordTypeName(proofFile.record.recordType),
+        issueDate: new Date(batch.timestamp * 1000).toLocaleDateString(),
+        verified: true,
+        issuer: truncateAddress(batch.issuer),
+        issuerAddress: batch.issuer,
+      });
+
+      setVerificationStatus("success");
+    } catch (err) {
+      console.error("Error verifying proof file:", err);
+      setVerificationStatus("error");
+      setRecordDetails(null);
+    }
+  };
+
+  // Proof files have no verification status; they verify once anchored
+  const isVerified =
+    recordDetails?.validityStatus === undefined ||
+    recordDetails.validityStatus === VerificationStatus.VALID;
+
+  const handleProofFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      verifyProofFile(file);
+    }
+    e.target.value = "";
+  };
+
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
     if (recordId) {
@@ -98,8 +234,8 @@ export default function VerifyPageContent() {
             Verify Academic Records
           </h1>
           <p className="text-lg text-white max-w-2xl mx-auto">
-            Enter the record ID to verify the authenticity of an academic record
-            on the blockchain.
+            Enter the record ID or upload a proof file to verify the
+            authenticity of an academic record on the blockchain.
           </p>
         </div>
 
@@ -125,13 +261,216 @@ export default function VerifyPageContent() {
               {verificationStatus === "loading" ? "Verifying..." : "Verify"}
             </Button>
           </form>
+          <div className="mt-4 flex items-center gap-3 text-sm text-gray-600">
+            <span>Or verify an anchored record with its proof file:</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleProofFileChange}
+              disabled={verificationStatus === "loading"}
+              className="text-gray-700"
+            />
+          </div>
         </div>
 
         {verificationStatus === "success" && recordDetails && (
-          <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <div
+            className={`${
+              isVerified
+                ? "bg-green-50 border-green-200"
+                : "bg-yellow-50 border-yellow-200"
+            } border rounded-lg p-6`}
+          >
+            <div className="flex items-center mb-4">
+              {isVerified ? (
+                <svg
+                  className="h-8 w-8 text-green-500 mr-3"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              ) : (
+                <svg
+                  className="h-8 w-8 text-yellow-500 mr-3"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                  />
+                </svg>
+              )}
+              <h2 className="text-xl font-semibold text-gray-900">
+                {recordDetails.validityStatus === VerificationStatus.EXPIRED
+                  ? "Record Not Verified: Expired"
+                  : recordDetails.validityStatus ===
+                    VerificationStatus.NOT_YET_VALID
+                  ? "Record Not Verified: Not Yet Valid"
+                  : recordDetails.validityStatus ===
+                    VerificationStatus.AWAITING_COSIGNATURES
+                  ? "Record Not Verified: Awaiting Co-signatures"
+                  : "Record Verified Successfully"}
+              </h2>
+            </div>
+
+            {recordDetails.validityStatus === VerificationStatus.EXPIRED && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4">
+                <p className="text-sm text-red-700">
+                  This document was issued by the university but is no longer
+                  valid. {recordDetails.validity}.
+                </p>
+              </div>
+            )}
+            {recordDetails.validityStatus ===
+              VerificationStatus.NOT_YET_VALID && (
+              <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
+                <p className="text-sm text-yellow-700">
+                  This document was issued by the university but is not valid
+                  yet. {recordDetails.validity}.
+                </p>
+              </div>
+            )}
+            {recordDetails.validityStatus ===
+              VerificationStatus.AWAITING_COSIGNATURES && (
+              <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
+                <p className="text-sm text-yellow-700">
+                  This joint record was issued by the university but not every
+                  co-signing university has endorsed it yet.
+                </p>
+              </div>
+            )}
+
+            {recordDetails.latestVersionId && (
+              <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
+                <p className="text-sm text-yellow-700">
+                  This is an outdated version of the record. It has been
+                  superseded by a corrected version,{" "}
+                  <a
+                    href={`/verify?id=${recordDetails.latestVersionId}`}
+                    className="font-medium underline"
+                  >
+                    record #{recordDetails.latestVersionId}
+                  </a>
+                  .
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+              <div>
+                <p className="text-sm text-gray-500 mb-1">
+                  {recordDetails.batchId ? "Anchored Batch" : "Record ID"}
+                </p>
+                <p className="font-medium text-black">
+                  {recordDetails.batchId
+                    ? `#${recordDetails.batchId}`
+                    : recordDetails.id}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Student Name</p>
+                <p className="font-medium text-black">
+                  {recordDetails.studentName}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500 mb-1">University</p>
+                <p className="font-medium text-black">
+                  {recordDetails.universityName}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Record Type</p>
+                <p className="font-medium text-black">
+                  {recordDetails.recordType}
+                </p>
+                {recordDetails.recordTypeDescription && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {recordDetails.recordTypeDescription}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Issue Date</p>
+                <p className="font-medium text-black">
+                  {recordDetails.issueDate}
+                </p>
+              </div>
+              {recordDetails.validity && (
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Validity</p>
+                  <p className="font-medium text-black">
+                    {recordDetails.validity}
+                  </p>
+                </div>
+              )}
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Issuer</p>
+                <p className="font-medium text-black">{recordDetails.issuer}</p>
+              </div>
+            </div>
+
+            {recordDetails.endorsements?.length > 0 && (
+              <div className="mt-6">
+                <p className="text-sm text-gray-500 mb-1">Endorsed By</p>
+                <ul className="space-y-1">
+                  {recordDetails.endorsements.map(
+                    (
+                      endorsement: { name: string; signedAt: number },
+                      index: number
+                    ) => (
+                      <li key={index} className="text-sm text-black">
+                        <span className="font-medium">{endorsement.name}</span>
+                        {", "}
+                        {endorsement.signedAt
+                          ? `signed ${new Date(
+                              endorsement.signedAt * 1000
+                            ).toLocaleDateString()}`
+                          : "signature pending"}
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            )}
+
+            <IssuerCard
+              address={recordDetails.issuerAddress}
+              name={recordDetails.universityName}
+            />
+
+            <div
+              className={`mt-6 pt-6 border-t ${
+                isVerified ? "border-green-200" : "border-yellow-200"
+              }`}
+            >
+              <p className="text-sm text-gray-600">
+                {recordDetails.batchId
+                  ? "This record is included in a Merkle root anchored on the blockchain by the issuing institution, which is still a registered university."
+                  : isVerified
+                  ? "This record has been cryptographically verified on the blockchain. The digital signature matches the issuing institution."
+                  : "This record was issued on the blockchain by the institution above, but it does not verify at this time."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {verificationStatus === "revoked" && recordDetails && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
             <div className="flex items-center mb-4">
               <svg
-                className="h-8 w-8 text-green-500 mr-3"
+                className="h-8 w-8 text-red-500 mr-3"
                 fill="none"
                 viewBox="0 0 24 24"
                 stroke="currentColor"
@@ -140,13 +479,16 @@ export default function VerifyPageContent() {
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                  d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
                 />
               </svg>
               <h2 className="text-xl font-semibold text-gray-900">
-                Record Verified Successfully
+                Record Revoked
               </h2>
             </div>
+            <p className="text-red-700 font-medium">
+              {recordDetails.revocationStatus}
+            </p>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
               <div>
@@ -159,12 +501,6 @@ export default function VerifyPageContent() {
                   {recordDetails.studentName}
                 </p>
               </div>
-              <div>
-                <p className="text-sm text-gray-500 mb-1">University</p>
-                <p className="font-medium text-black">
-                  {recordDetails.universityName}
-                </p>
-              </div>
               <div>
                 <p className="text-sm text-gray-500 mb-1">Record Type</p>
                 <p className="font-medium text-black">
@@ -172,10 +508,53 @@ export default function VerifyPageContent() {
                 </p>
               </div>
               <div>
-                <p className="text-sm text-gray-500 mb-1">Issue Date</p>
-                <p className="font-medium text-black">
-                  {recordDetails.issueDate}
-                </p>
+                <p className="text-sm text-gray-500 mb-1">Issuer</p>
+                <p className="font-medium text-black">{recordDetails.issuer}</p>
+              </div>
+            </div>
+
+            <IssuerCard
+              address={recordDetails.issuerAddress}
+              name={recordDetails.universityName}
+            />
+
+            <div className="mt-6 pt-6 border-t border-red-200">
+              <p className="text-sm text-gray-600">
+                The issuing institution has revoked this record. It should not
+                be accepted as a valid credential.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {verificationStatus === "withdrawn" && recordDetails && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <div className="flex items-center mb-4">
+              <svg
+                className="h-8 w-8 text-red-500 mr-3"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+                />
+              </svg>
+              <h2 className="text-xl font-semibold text-gray-900">
+                Record Withdrawn
+              </h2>
+            </div>
+            <p className="text-red-700 font-medium">
+              {recordDetails.withdrawalStatus}
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Record ID</p>
+                <p className="font-medium text-black">{recordDetails.id}</p>
               </div>
               <div>
                 <p className="text-sm text-gray-500 mb-1">Issuer</p>
@@ -183,11 +562,15 @@ export default function VerifyPageContent() {
               </div>
             </div>
 
-            <div className="mt-6 pt-6 border-t border-green-200">
+            <IssuerCard
+              address={recordDetails.issuerAddress}
+              name={recordDetails.universityName}
+            />
+
+            <div className="mt-6 pt-6 border-t border-red-200">
               <p className="text-sm text-gray-600">
-                This record has been cryptographically verified on the
-                blockchain. The digital signature matches the issuing
-                institution.
+                The issuing institution has deleted this record. It should not
+                be accepted as a valid credential.
               </p>
             </div>
           </div>
@@ -213,12 +596,21 @@ export default function VerifyPageContent() {
                 Verification Failed
               </h2>
             </div>
-            <p className="text-gray-600">
-              We couldn't verify the record with ID{" "}
-              <span className="font-medium">{recordId}</span>. Please check the
-              ID and try again, or contact support if you believe this is an
-              error.
-            </p>
+            {proofFileName ? (
+              <p className="text-gray-600">
+                We couldn't verify the proof file{" "}
+                <span className="font-medium">{proofFileName}</span>. The file
+                may have been altered, or its issuer is no longer a registered
+                university.
+              </p>
+            ) : (
+              <p className="text-gray-600">
+                We couldn't verify the record with ID{" "}
+                <span className="font-medium">{recordId}</span>. Please check
+                the ID and try again, or contact support if you believe this is
+                an error.
+              </p>
+            )}
           </div>
         )}
       </div>
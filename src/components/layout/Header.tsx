@@ -33,8 +33,8 @@ export default function Header() {
         setIsConnected(true);
         setAddress(userAddress);
 
-        const hasUniversityRole = await blockchainService.hasRole(
-          "UNIVERSITY_ROLE",
+        // University staff use the university dashboard too
+        const universityAccount = await blockchainService.getUniversityAccount(
           userAddress
         );
         const hasAdminRole = await blockchainService.hasRole(
@@ -46,7 +46,7 @@ export default function Header() {
           userAddress
         );
 
-        setIsUniversity(hasUniversityRole);
+        setIsUniversity(universityAccount !== null);
         setIsAdmin(hasAdminRole);
         setIsSuperAdmin(hasSuperAdminRole);
       } catch (error) {
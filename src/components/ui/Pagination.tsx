@@ -0,0 +1,55 @@
+import { Button } from "@/components/ui/Button";
+
+// Rows loaded per page by the paginated tables
+export const PAGE_SIZE = 10;
+
+interface PaginationProps {
+  offset: number;
+  total: number;
+  pageSize?: number;
+  disabled?: boolean;
+  onChange: (offset: number) => void;
+}
+
+/**
+ * Previous and next controls for a table that loads one page of a contract list at a time.
+ *
+ * Shows which rows of the list are on screen and calls `onChange` with the offset of the page to load. Renders nothing while the list fits on a single page.
+ */
+export function Pagination({
+  offset,
+  total,
+  pageSize = PAGE_SIZE,
+  disabled = false,
+  onChange,
+}: PaginationProps) {
+  if (total <= pageSize) return null;
+
+  const last = Math.min(offset + pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+      <p className="text-sm text-gray-500">
+        Showing {offset + 1} to {last} of {total}
+      </p>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || offset === 0}
+          onClick={() => onChange(Math.max(offset - pageSize, 0))}
+        >
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || last >= total}
+          onClick={() => onChange(offset + pageSize)}
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
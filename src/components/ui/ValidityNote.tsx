@@ -0,0 +1,38 @@
+import {
+  type RecordItem,
+  VerificationStatus,
+  VERIFICATION_STATUS_LABELS,
+} from "@/types/records";
+
+/**
+ * The validity window of a time-bound document in a records table, flagged when the record does not verify, such as expired documents and joint records awaiting co-signatures.
+ *
+ * Renders nothing for records that are valid indefinitely and verify.
+ */
+export function ValidityNote({
+  validity,
+  status,
+}: Pick<RecordItem, "validity" | "status">) {
+  const isFlagged = status !== undefined && status !== VerificationStatus.VALID;
+  if (!validity && !isFlagged) return null;
+
+  return (
+    <div className="mt-1 text-xs">
+      {validity}
+      {isFlagged && (
+        <span
+          className={`${
+            validity ? "ml-2 " : ""
+          }px-2 py-0.5 rounded-md font-medium ${
+            status === VerificationStatus.EXPIRED ||
+            status === VerificationStatus.REVOKED
+              ? "bg-red-100 text-red-800"
+              : "bg-yellow-100 text-yellow-800"
+          }`}
+        >
+          {VERIFICATION_STATUS_LABELS[status]}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { ethers } from "ethers";
+
+// EIP-712 domain and types of the access receipts checked by `AccessLog.logAccess`
+export const ACCESS_LOG_DOMAIN_NAME = "AcademicRecordsAccessLog";
+export const ACCESS_LOG_DOMAIN_VERSION = "1";
+
+export const RECORD_ACCESS_TYPES = {
+  RecordAccess: [
+    { name: "recordId", type: "uint256" },
+    { name: "accessor", type: "address" },
+    { name: "accessedAt", type: "uint256" },
+  ],
+};
+
+// An access receipt signed by the viewer, submitted to the relayer route
+export interface RecordAccessReceipt {
+  recordId: number;
+  accessor: string;
+  accessedAt: number; // Unix timestamp in seconds
+  signature: string;
+}
+
+export function getAccessLogDomain(
+  chainId: bigint,
+  accessLogAddress: string
+): ethers.TypedDataDomain {
+  return {
+    name: ACCESS_LOG_DOMAIN_NAME,
+    version: ACCESS_LOG_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: accessLogAddress,
+  };
+}
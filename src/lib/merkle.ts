@@ -0,0 +1,87 @@
+import { ethers } from "ethers";
+import type { AnchoredRecord, RecordProofFile } from "@/types/records";
+
+export interface MerkleTree {
+  root: string;
+  leaves: string[];
+  proofs: string[][];
+}
+
+/**
+ * Hashes an anchored record the way `RecordStorage.isAnchored` does: a double keccak256 of the ABI encoded fields, matching the OpenZeppelin StandardMerkleTree leaf encoding.
+ */
+export function hashAnchoredRecord(record: AnchoredRecord): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    ["string", "string", "address", "string", "uint8"],
+    [
+      record.studentId,
+      record.studentName,
+      record.studentAddress,
+      record.ipfsHash,
+      record.recordType,
+    ]
+  );
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+// Sorted pair hashing, as expected by OpenZeppelin MerkleProof
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Builds a Merkle tree over the records and returns the root with one proof per record, in input order.
+ *
+ * An unpaired node at the end of a level is carried up unchanged, so its proof simply has no sibling for that level.
+ */
+export function buildMerkleTree(records: AnchoredRecord[]): MerkleTree {
+  if (records.length === 0) {
+    throw new Error("Cannot build a Merkle tree without records");
+  }
+
+  const leaves = records.map(hashAnchoredRecord);
+  const proofs: string[][] = leaves.map(() => []);
+  // Position of every leaf in the current level
+  const positions = leaves.map((_, index) => index);
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]
+      );
+    }
+
+    positions.forEach((position, leafIndex) => {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proofs[leafIndex].push(level[sibling]);
+      }
+      positions[leafIndex] = Math.floor(position / 2);
+    });
+
+    level = next;
+  }
+
+  return { root: level[0], leaves, proofs };
+}
+
+/**
+ * Parses the contents of a proof file, throwing if required fields are missing.
+ */
+export function parseProofFile(text: string): RecordProofFile {
+  const data = JSON.parse(text);
+  if (
+    data?.version !== 1 ||
+    typeof data.batchId !== "number" ||
+    !Array.isArray(data.proof) ||
+    typeof data.record?.studentId !== "string" ||
+    !ethers.isAddress(data.record?.studentAddress)
+  ) {
+    throw new Error("Invalid proof file");
+  }
+  return data as RecordProofFile;
+}
@@ -18,3 +18,22 @@ export const getGatewayUrl = (ipfsHash: string) => {
 
   return `${gateway}/ipfs/${ipfsHash}`;
 };
+
+// Uploads a file to IPFS through the `/api/upload` route and returns its hash
+export const uploadToIpfs = async (file: File): Promise<string> => {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch("/api/upload", {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Upload failed");
+  }
+
+  const data = await response.json();
+  return data.IpfsHash;
+};
@@ -48,4 +48,28 @@ export function truncateString(str: string, length: number): string {
 export function truncateAddress(address: string): string {
   if (!address) return '';
   return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Describes how long a time-limited grant has left, e.g. "3 days 4 hours left".
+ *
+ * Returns "No expiry" for grants stored without a time limit and "Expired" once the expiry has passed.
+ *
+ * @param expiresAt - The expiry as a Unix timestamp in seconds, or `Infinity` for grants without a time limit
+ * @param now - The current time in milliseconds, defaults to `Date.now()`
+ * @returns A human-readable description of the remaining time
+ */
+export function formatTimeRemaining(expiresAt: number, now: number = Date.now()): string {
+  if (expiresAt === Infinity) return 'No expiry';
+
+  const seconds = Math.floor(expiresAt - now / 1000);
+  if (seconds <= 0) return 'Expired';
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'} ${hours} hour${hours === 1 ? '' : 's'} left`;
+  if (hours > 0) return `${hours} hour${hours === 1 ? '' : 's'} ${minutes} min left`;
+  return `${Math.max(minutes, 1)} min left`;
+}
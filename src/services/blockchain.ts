@@ -3,22 +3,91 @@ import AcademicRecords from "../contracts/AcademicRecords.json";
 import IAcademicRecords from "../contracts/IAcademicRecords.json";
 import RoleManager from "../contracts/RoleManager.json";
 import StudentManagement from "../contracts/StudentManagement.json";
-import { Record, CustomRecordType } from "../types/records";
+import AccessLog from "../contracts/AccessLog.json";
+import UniversityProfiles from "../contracts/UniversityProfiles.json";
+import UniversityStaff from "../contracts/UniversityStaff.json";
+import RecordDrafts from "../contracts/RecordDrafts.json";
+import RecordCosigning from "../contracts/RecordCosigning.json";
+import {
+  Record,
+  CustomRecordType,
+  RecordRevocation,
+  RecordTombstone,
+  ShareGrant,
+  RecordAccessEntry,
+  BatchRecordEntry,
+  BatchIssueProgress,
+  BatchIssueResult,
+  AnchoredRecord,
+  AnchoredBatch,
+  RecordProofFile,
+  RecordDraft,
+  RecordDraftContent,
+  VerificationStatus,
+  Cosignature,
+} from "../types/records";
+import {
+  Proposal,
+  ProposalAction,
+  SuperAdminTransfer,
+  SUPER_ADMIN_RECOVERY_EXPIRY,
+} from "../types/governance";
+import {
+  StudentAddressChange,
+  WalletRecovery,
+  StudentClaim,
+  ClaimStatus,
+} from "../types/students";
+import {
+  UniversityProfile,
+  UniversityApplication,
+  ApplicationStatus,
+  StaffMember,
+  StaffRole,
+  UniversityAccount,
+} from "../types/universities";
+import { buildMerkleTree } from "../lib/merkle";
+import {
+  RECORD_ACCESS_TYPES,
+  RecordAccessReceipt,
+  getAccessLogDomain,
+} from "../lib/accessLog";
 
 export interface University {
   address: string;
   name: string;
 }
 
+// One page of a paginated contract list, with the length of the whole list
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
 class BlockchainService {
   private provider: ethers.BrowserProvider | null = null;
   private signer: ethers.Signer | null = null;
   private contract: ethers.Contract | null = null;
   private studentManagementContract: ethers.Contract | null = null;
+  private accessLogContract: ethers.Contract | null = null;
+  private universityProfilesContract: ethers.Contract | null = null;
+  private universityStaffContract: ethers.Contract | null = null;
+  private recordDraftsContract: ethers.Contract | null = null;
+  private recordCosigningContract: ethers.Contract | null = null;
   private contractAddress: string =
     process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "";
   private studentManagementAddress: string =
     process.env.NEXT_PUBLIC_STUDENT_MANAGEMENT_CONTRACT_ADDRESS || "";
+  private accessLogAddress: string =
+    process.env.NEXT_PUBLIC_ACCESS_LOG_CONTRACT_ADDRESS || "";
+  private universityProfilesAddress: string =
+    process.env.NEXT_PUBLIC_UNIVERSITY_PROFILES_CONTRACT_ADDRESS || "";
+  private universityStaffAddress: string =
+    process.env.NEXT_PUBLIC_UNIVERSITY_STAFF_CONTRACT_ADDRESS || "";
+  private recordDraftsAddress: string =
+    process.env.NEXT_PUBLIC_RECORD_DRAFTS_CONTRACT_ADDRESS || "";
+  private recordCosigningAddress: string =
+    process.env.NEXT_PUBLIC_RECORD_COSIGNING_CONTRACT_ADDRESS || "";
 
   private ADMIN_ROLE = ethers.keccak256(ethers.toUtf8Bytes("ADMIN_ROLE"));
   private UNIVERSITY_ROLE = ethers.keccak256(
@@ -27,6 +96,8 @@ class BlockchainService {
   private SUPER_ADMIN_ROLE = ethers.keccak256(
     ethers.toUtf8Bytes("SUPER_ADMIN_ROLE")
   );
+  // Entries per addRecordsBatch transaction, at most MAX_BATCH_SIZE on-chain
+  private BATCH_CHUNK_SIZE = 20;
 
   async init(): Promise<boolean> {
     try {
@@ -56,6 +127,36 @@ class BlockchainService {
         this.signer
       );
 
+      this.accessLogContract = new ethers.Contract(
+        this.accessLogAddress,
+        AccessLog.abi,
+        this.signer
+      );
+
+      this.universityProfilesContract = new ethers.Contract(
+        this.universityProfilesAddress,
+        UniversityProfiles.abi,
+        this.signer
+      );
+
+      this.universityStaffContract = new ethers.Contract(
+        this.universityStaffAddress,
+        UniversityStaff.abi,
+        this.signer
+      );
+
+      this.recordDraftsContract = new ethers.Contract(
+        this.recordDraftsAddress,
+        RecordDrafts.abi,
+        this.signer
+      );
+
+      this.recordCosigningContract = new ethers.Contract(
+        this.recordCosigningAddress,
+        RecordCosigning.abi,
+        this.signer
+      );
+
       return true;
     } catch (error) {
       console.error("Blockchain initialization failed:", error);
@@ -67,6 +168,42 @@ class BlockchainService {
     if (!this.contract) throw new Error("Contract not initialized");
   }
 
+  private ensureStudentManagementContract() {
+    if (!this.studentManagementContract) {
+      throw new Error("StudentManagement contract not initialized");
+    }
+  }
+
+  private ensureAccessLogContract() {
+    if (!this.accessLogContract) {
+      throw new Error("AccessLog contract not initialized");
+    }
+  }
+
+  private ensureUniversityProfilesContract() {
+    if (!this.universityProfilesContract) {
+      throw new Error("UniversityProfiles contract not initialized");
+    }
+  }
+
+  private ensureUniversityStaffContract() {
+    if (!this.universityStaffContract) {
+      throw new Error("UniversityStaff contract not initialized");
+    }
+  }
+
+  private ensureRecordDraftsContract() {
+    if (!this.recordDraftsContract) {
+      throw new Error("RecordDrafts contract not initialized");
+    }
+  }
+
+  private ensureRecordCosigningContract() {
+    if (!this.recordCosigningContract) {
+      throw new Error("RecordCosigning contract not initialized");
+    }
+  }
+
   async getCurrentAddress(): Promise<string> {
     if (!this.signer) throw new Error("Signer not available");
     return await this.signer.getAddress();
@@ -110,11 +247,220 @@ class BlockchainService {
     return await this.contract!.getUniversityName(address);
   }
 
+  async getUniversityProfile(address: string): Promise<UniversityProfile> {
+    this.ensureUniversityProfilesContract();
+    return this.toUniversityProfile(
+      await this.universityProfilesContract!.getProfile(address)
+    );
+  }
+
+  private toUniversityProfile(profile: any): UniversityProfile {
+    return {
+      accreditationBody: profile.accreditationBody,
+      accreditationId: profile.accreditationId,
+      country: profile.country,
+      website: profile.website,
+      contactEmail: profile.contactEmail,
+      logoHash: profile.logoHash,
+      metadataHash: profile.metadataHash,
+    };
+  }
+
+  async setUniversityProfile(
+    address: string,
+    profile: UniversityProfile
+  ): Promise<void> {
+    this.ensureUniversityProfilesContract();
+    const tx = await this.universityProfilesContract!.setProfile(
+      address,
+      profile
+    );
+    await tx.wait();
+  }
+
+  // University staff
+
+  // Resolves the university a wallet issues and reads records for: its own
+  // for university wallets, its employer's for staff. Returns null for other
+  // wallets, and for staff of a university that has since been removed
+  async getUniversityAccount(
+    address: string
+  ): Promise<UniversityAccount | null> {
+    if (await this.hasRole("UNIVERSITY_ROLE", address)) {
+      return { university: address, staffRole: null, directIssuance: true };
+    }
+    if (!this.universityStaffAddress) return null;
+
+    const member = await this.getStaffMember(address);
+    if (
+      member.role === StaffRole.NONE ||
+      !(await this.hasRole("UNIVERSITY_ROLE", member.university))
+    ) {
+      return null;
+    }
+    return {
+      university: member.university,
+      staffRole: member.role,
+      directIssuance: await this.getDirectIssuance(member.university),
+    };
+  }
+
+  // Whether the university's registrars issue records without a review
+  async getDirectIssuance(university: string): Promise<boolean> {
+    this.ensureUniversityStaffContract();
+    return this.universityStaffContract!.directIssuance(university);
+  }
+
+  async setDirectIssuance(allowed: boolean): Promise<void> {
+    this.ensureUniversityStaffContract();
+    const tx = await this.universityStaffContract!.setDirectIssuance(allowed);
+    await tx.wait();
+  }
+
+  async getStaffMember(address: string): Promise<StaffMember> {
+    this.ensureUniversityStaffContract();
+    return this.toStaffMember(
+      await this.universityStaffContract!.getStaffMember(address)
+    );
+  }
+
+  async getUniversityStaff(university: string): Promise<StaffMember[]> {
+    this.ensureUniversityStaffContract();
+    const members = await this.universityStaffContract!.getUniversityStaff(
+      university
+    );
+    return members.map((member: any) => this.toStaffMember(member));
+  }
+
+  private toStaffMember(member: any): StaffMember {
+    return {
+      account: member.account,
+      university: member.university,
+      role: Number(member.role),
+      grantedAt: Number(member.grantedAt),
+    };
+  }
+
+  // Adds an account to the connected university's staff, or changes the
+  // role of one of its staff members
+  async grantStaffRole(account: string, role: StaffRole): Promise<void> {
+    this.ensureUniversityStaffContract();
+    const tx = await this.universityStaffContract!.grantStaffRole(
+      account,
+      role
+    );
+    await tx.wait();
+  }
+
+  async revokeStaffRole(account: string): Promise<void> {
+    this.ensureUniversityStaffContract();
+    const tx = await this.universityStaffContract!.revokeStaffRole(account);
+    await tx.wait();
+  }
+
+  // University applications
+  async applyAsUniversity(
+    name: string,
+    profile: UniversityProfile,
+    documentsHash: string
+  ): Promise<void> {
+    this.ensureUniversityProfilesContract();
+    const tx = await this.universityProfilesContract!.applyAsUniversity(
+      name,
+      profile,
+      documentsHash
+    );
+    await tx.wait();
+  }
+
+  // Returns the latest application of a wallet, or null when it never applied
+  async getUniversityApplication(
+    applicant: string
+  ): Promise<UniversityApplication | null> {
+    this.ensureUniversityProfilesContract();
+    const application = await this.universityProfilesContract!.getApplication(
+      applicant
+    );
+    if (Number(application.status) === ApplicationStatus.NONE) return null;
+
+    return {
+      applicant,
+      name: application.name,
+      profile: this.toUniversityProfile(application.profile),
+      documentsHash: application.documentsHash,
+      status: Number(application.status),
+      rejectionReason: application.rejectionReason,
+      submittedAt: Number(application.submittedAt),
+      reviewedAt: Number(application.reviewedAt),
+    };
+  }
+
+  async getPendingUniversityApplications(): Promise<UniversityApplication[]> {
+    this.ensureUniversityProfilesContract();
+    const applicants: string[] =
+      await this.universityProfilesContract!.getPendingApplicants();
+    const applications = await Promise.all(
+      applicants.map((applicant) => this.getUniversityApplication(applicant))
+    );
+    return applications.filter(
+      (application): application is UniversityApplication =>
+        application !== null
+    );
+  }
+
+  // Registers the applicant with the name it applied under, then marks the
+  // application approved, which publishes its profile. Applicants registered
+  // by an earlier attempt are not registered again
+  async approveUniversityApplication(
+    application: UniversityApplication
+  ): Promise<void> {
+    this.ensureUniversityProfilesContract();
+    if (!(await this.hasRole("UNIVERSITY_ROLE", application.applicant))) {
+      await this.addUniversity(application.applicant, application.name);
+    }
+    const tx = await this.universityProfilesContract!.approveApplication(
+      application.applicant
+    );
+    await tx.wait();
+  }
+
+  async rejectUniversityApplication(
+    applicant: string,
+    reason: string
+  ): Promise<void> {
+    this.ensureUniversityProfilesContract();
+    const tx = await this.universityProfilesContract!.rejectApplication(
+      applicant,
+      reason
+    );
+    await tx.wait();
+  }
+
   async getAllUniversities(): Promise<University[]> {
     this.ensureContract();
     const addresses: string[] = await this.contract!.getAllUniversities();
+    return this.withUniversityNames(addresses);
+  }
+
+  async getUniversitiesPage(
+    offset: number,
+    limit: number
+  ): Promise<Page<University>> {
+    this.ensureContract();
+    const [addresses, total] = await this.contract!.getUniversitiesPage(
+      offset,
+      limit
+    );
+    return {
+      items: await this.withUniversityNames(addresses),
+      total: Number(total),
+    };
+  }
 
-    const universities: University[] = await Promise.all(
+  private async withUniversityNames(
+    addresses: string[]
+  ): Promise<University[]> {
+    return Promise.all(
       addresses.map(async (address: string) => {
         let name = "Unnamed University";
         try {
@@ -125,11 +471,10 @@ class BlockchainService {
         return { address, name };
       })
     );
-
-    return universities;
   }
 
-  // Record operations
+  // Record operations. Joint records name the other universities that have
+  // to co-sign them before they verify
   async addRecord(
     studentId: string,
     studentName: string,
@@ -137,7 +482,12 @@ class BlockchainService {
     universityName: string,
     ipfsHash: string,
     metadataHash: string,
-    recordType: number
+    recordType: number,
+    customTypeId: number = 0,
+    visibleFrom: number = 0,
+    validFrom: number = 0,
+    validUntil: number = 0,
+    cosigners: string[] = []
   ): Promise<number> {
     this.ensureContract();
     const tx = await this.contract!.addRecord(
@@ -147,7 +497,12 @@ class BlockchainService {
       universityName,
       ipfsHash,
       metadataHash,
-      recordType
+      recordType,
+      customTypeId,
+      visibleFrom,
+      validFrom,
+      validUntil,
+      cosigners
     );
     const receipt = await tx.wait();
     const event = receipt.logs?.find((log: any) => {
@@ -163,9 +518,263 @@ class BlockchainService {
     return Number(parsedEvent?.args.recordId);
   }
 
+  // Record drafts
+
+  // Submits a record for review instead of issuing it, returning the draft id
+  async submitRecordDraft(content: RecordDraftContent): Promise<number> {
+    this.ensureRecordDraftsContract();
+    const tx = await this.recordDraftsContract!.submitDraft(
+      ...this.toDraftArgs(content)
+    );
+    const receipt = await tx.wait();
+    const event = receipt.logs?.find((log: any) => {
+      try {
+        const parsed = this.recordDraftsContract!.interface.parseLog(log);
+        return parsed?.name === "DraftSubmitted";
+      } catch {
+        return false;
+      }
+    });
+    if (!event) throw new Error("DraftSubmitted event not found");
+    const parsedEvent = this.recordDraftsContract!.interface.parseLog(event);
+    return Number(parsedEvent?.args.draftId);
+  }
+
+  // Replaces the content of a returned draft and submits it for review again
+  async reviseRecordDraft(
+    draftId: number,
+    content: RecordDraftContent
+  ): Promise<void> {
+    this.ensureRecordDraftsContract();
+    const tx = await this.recordDraftsContract!.reviseDraft(
+      draftId,
+      ...this.toDraftArgs(content)
+    );
+    await tx.wait();
+  }
+
+  private toDraftArgs(content: RecordDraftContent) {
+    return [
+      content.studentId,
+      content.studentName,
+      content.studentAddress,
+      content.universityName,
+      content.ipfsHash,
+      content.metadataHash,
+      content.recordType,
+      content.customTypeId,
+      content.visibleFrom,
+      content.validFrom,
+      content.validUntil,
+      content.cosigners,
+    ] as const;
+  }
+
+  async returnRecordDraft(draftId: number, comments: string): Promise<void> {
+    this.ensureRecordDraftsContract();
+    const tx = await this.recordDraftsContract!.returnDraft(draftId, comments);
+    await tx.wait();
+  }
+
+  async discardRecordDraft(draftId: number): Promise<void> {
+    this.ensureRecordDraftsContract();
+    const tx = await this.recordDraftsContract!.discardDraft(draftId);
+    await tx.wait();
+  }
+
+  // Issues a pending draft as a record, returning the new record id
+  async publishRecordDraft(draftId: number): Promise<number> {
+    this.ensureContract();
+    const tx = await this.contract!.publishDraft(draftId);
+    const receipt = await tx.wait();
+    const event = receipt.logs?.find((log: any) => {
+      try {
+        const parsed = this.contract!.interface.parseLog(log);
+        return parsed?.name === "RecordAdded";
+      } catch {
+        return false;
+      }
+    });
+    if (!event) throw new Error("RecordAdded event not found");
+    const parsedEvent = this.contract!.interface.parseLog(event);
+    return Number(parsedEvent?.args.recordId);
+  }
+
+  async getRecordDraft(draftId: number): Promise<RecordDraft> {
+    this.ensureRecordDraftsContract();
+    return this.toRecordDraft(
+      await this.recordDraftsContract!.getDraft(draftId)
+    );
+  }
+
+  // Pending and returned drafts of a university, oldest first
+  async getOpenRecordDrafts(university: string): Promise<RecordDraft[]> {
+    this.ensureRecordDraftsContract();
+    const drafts = await this.recordDraftsContract!.getOpenDrafts(university);
+    return drafts
+      .map((draft: any) => this.toRecordDraft(draft))
+      .sort((a: RecordDraft, b: RecordDraft) => a.id - b.id);
+  }
+
+  private toRecordDraft(draft: any): RecordDraft {
+    return {
+      id: Number(draft.id),
+      university: draft.university,
+      createdBy: draft.createdBy,
+      studentId: draft.studentId,
+      studentName: draft.studentName,
+      studentAddress: draft.studentAddress,
+      universityName: draft.universityName,
+      ipfsHash: draft.ipfsHash,
+      metadataHash: draft.metadataHash,
+      recordType: Number(draft.recordType),
+      customTypeId: Number(draft.customTypeId),
+      status: Number(draft.status),
+      reviewComments: draft.reviewComments,
+      reviewedBy: draft.reviewedBy,
+      updatedAt: Number(draft.updatedAt),
+      reviewedAt: Number(draft.reviewedAt),
+      recordId: Number(draft.recordId),
+      visibleFrom: Number(draft.visibleFrom),
+      validFrom: Number(draft.validFrom),
+      validUntil: Number(draft.validUntil),
+      cosigners: [...draft.cosigners],
+    };
+  }
+
+  // Co-signers of a joint record in the order the issuer named them, empty
+  // for records issued by a single university
+  async getCosignatures(recordId: number): Promise<Cosignature[]> {
+    this.ensureRecordCosigningContract();
+    const cosignatures = await this.recordCosigningContract!.getCosignatures(
+      recordId
+    );
+    return cosignatures.map((cosignature: any) => ({
+      university: cosignature.university,
+      signedBy: cosignature.signedBy,
+      signedAt: Number(cosignature.signedAt),
+    }));
+  }
+
+  // Records a university was asked to co-sign and has not signed yet, oldest
+  // first
+  async getPendingCosignatures(university: string): Promise<number[]> {
+    this.ensureRecordCosigningContract();
+    const recordIds = await this.recordCosigningContract!.getPendingRecords(
+      university
+    );
+    return recordIds
+      .map((id: bigint) => Number(id))
+      .sort((a: number, b: number) => a - b);
+  }
+
+  async cosignRecord(recordId: number): Promise<void> {
+    this.ensureRecordCosigningContract();
+    const tx = await this.recordCosigningContract!.cosign(recordId);
+    await tx.wait();
+  }
+
+  // Issues records in chunks, one transaction per chunk. Entries rejected by
+  // the contract are reported as failures; if a chunk transaction fails, it and
+  // every later entry are reported as failed and no more chunks are sent. The
+  // release time and validity window apply to every entry.
+  async addRecordsBatch(
+    universityName: string,
+    entries: BatchRecordEntry[],
+    onProgress?: (progress: BatchIssueProgress) => void,
+    visibleFrom: number = 0,
+    validFrom: number = 0,
+    validUntil: number = 0
+  ): Promise<BatchIssueResult> {
+    this.ensureContract();
+    const result: BatchIssueResult = {
+      recordIds: entries.map(() => 0),
+      failures: [],
+    };
+
+    for (
+      let start = 0;
+      start < entries.length;
+      start += this.BATCH_CHUNK_SIZE
+    ) {
+      const chunk = entries.slice(start, start + this.BATCH_CHUNK_SIZE);
+
+      let logs: any[];
+      try {
+        const tx = await this.contract!.addRecordsBatch(
+          chunk.map((entry) => entry.studentId),
+          chunk.map((entry) => entry.studentName),
+          chunk.map((entry) => entry.studentAddress),
+          universityName,
+          chunk.map((entry) => entry.ipfsHash),
+          chunk.map((entry) => entry.metadataHash),
+          chunk.map((entry) => entry.recordType),
+          visibleFrom,
+          validFrom,
+          validUntil
+        );
+        const receipt = await tx.wait();
+        logs = receipt.logs || [];
+      } catch (err: any) {
+        const reason = err.reason || err.message || "Transaction failed";
+        entries.slice(start).forEach((entry, offset) => {
+          result.failures.push({
+            index: start + offset,
+            studentId: entry.studentId,
+            reason,
+          });
+        });
+        break;
+      }
+
+      const failedInChunk = new Set<number>();
+      const addedIds: number[] = [];
+      for (const log of logs) {
+        try {
+          const parsed = this.contract!.interface.parseLog(log);
+          if (parsed?.name === "RecordBatchEntryFailed") {
+            const index = Number(parsed.args.index);
+            failedInChunk.add(index);
+            result.failures.push({
+              index: start + index,
+              studentId: parsed.args.studentId,
+              reason: parsed.args.reason,
+            });
+          } else if (parsed?.name === "RecordAdded") {
+            addedIds.push(Number(parsed.args.recordId));
+          }
+        } catch {
+          // Logs from other contracts, e.g. student registration
+        }
+      }
+
+      // RecordAdded events follow the order of the issued entries
+      chunk.forEach((_, index) => {
+        if (!failedInChunk.has(index)) {
+          result.recordIds[start + index] = addedIds.shift() || 0;
+        }
+      });
+
+      onProgress?.({
+        processed: Math.min(start + chunk.length, entries.length),
+        total: entries.length,
+      });
+    }
+
+    return result;
+  }
+
   async getRecord(recordId: number): Promise<Record> {
     this.ensureContract();
     const record = await this.contract!.getRecord(recordId);
+    const revocation = record.isVerified
+      ? undefined
+      : await this.getRevocation(recordId);
+    const customTypeId = Number(record.customTypeId);
+    const customType =
+      customTypeId !== 0
+        ? await this.getCustomRecordType(customTypeId)
+        : undefined;
     return {
       id: recordId,
       studentName: record.studentName,
@@ -176,10 +785,87 @@ class BlockchainService {
       ipfsHash: record.ipfsHash,
       timestamp: Number(record.timestamp),
       university: record.issuer,
+      // Records issued before staff accounts existed keep no issuing account
+      issuedBy:
+        record.issuedBy === ethers.ZeroAddress
+          ? record.issuer
+          : record.issuedBy,
       isValid: record.isVerified,
+      revocation,
+      previousRecordId: Number(record.previousRecordId),
+      supersededBy: Number(record.supersededBy),
+      customTypeId,
+      customType,
+      visibleFrom: Number(record.visibleFrom),
+      validFrom: Number(record.validFrom),
+      validUntil: Number(record.validUntil),
     };
   }
 
+  // Publishes a corrected version of a record and returns the new record ID
+  async supersedeRecord(
+    previousRecordId: number,
+    studentName: string,
+    ipfsHash: string,
+    metadataHash: string,
+    recordType: number,
+    customTypeId: number = 0
+  ): Promise<number> {
+    this.ensureContract();
+    const tx = await this.contract!.supersedeRecord(
+      previousRecordId,
+      studentName,
+      ipfsHash,
+      metadataHash,
+      recordType,
+      customTypeId
+    );
+    const receipt = await tx.wait();
+    const event = receipt.logs?.find((log: any) => {
+      try {
+        const parsed = this.contract!.interface.parseLog(log);
+        return parsed?.name === "RecordSuperseded";
+      } catch {
+        return false;
+      }
+    });
+    if (!event) throw new Error("RecordSuperseded event not found");
+    const parsedEvent = this.contract!.interface.parseLog(event);
+    return Number(parsedEvent?.args.newRecordId);
+  }
+
+  // Returns every version of a record, oldest first, by following the
+  // previousRecordId and supersededBy links in both directions
+  async getRecordHistory(recordId: number): Promise<Record[]> {
+    const record = await this.getRecord(recordId);
+    const history: Record[] = [record];
+
+    let previousId = record.previousRecordId;
+    while (previousId !== 0) {
+      const previous = await this.getRecord(previousId);
+      history.unshift(previous);
+      previousId = previous.previousRecordId;
+    }
+
+    let nextId = record.supersededBy;
+    while (nextId !== 0) {
+      const next = await this.getRecord(nextId);
+      history.push(next);
+      nextId = next.supersededBy;
+    }
+
+    return history;
+  }
+
+  // Follows the supersededBy links and returns the current version of a record
+  async getLatestVersion(recordId: number): Promise<Record> {
+    let record = await this.getRecord(recordId);
+    while (record.supersededBy !== 0) {
+      record = await this.getRecord(record.supersededBy);
+    }
+    return record;
+  }
+
   async getStudentRecords(studentId: string): Promise<number[]> {
     this.ensureContract();
     if (ethers.isAddress(studentId)) {
@@ -189,6 +875,23 @@ class BlockchainService {
     return recordIds.map((id: bigint) => Number(id));
   }
 
+  async getStudentRecordsPage(
+    studentId: string,
+    offset: number,
+    limit: number
+  ): Promise<Page<number>> {
+    this.ensureContract();
+    const [recordIds, total] = await this.contract!.getStudentRecordsPage(
+      studentId,
+      offset,
+      limit
+    );
+    return {
+      items: recordIds.map((id: bigint) => Number(id)),
+      total: Number(total),
+    };
+  }
+
   async getStudentRecordsByAddress(address: string): Promise<number[]> {
     this.ensureContract();
     const recordIds = await this.contract!.getStudentRecordsByAddress(address);
@@ -201,9 +904,68 @@ class BlockchainService {
     return recordIds.map((id: bigint) => Number(id));
   }
 
-  async verifyRecord(recordId: number): Promise<boolean> {
+  // Records issued by the connected university, oldest first
+  async getUniversityRecordsPage(
+    offset: number,
+    limit: number
+  ): Promise<Page<number>> {
     this.ensureContract();
-    return await this.contract!.verifyRecord(recordId);
+    const [recordIds, total] = await this.contract!.getUniversityRecordsPage(
+      offset,
+      limit
+    );
+    return {
+      items: recordIds.map((id: bigint) => Number(id)),
+      total: Number(total),
+    };
+  }
+
+  async verifyRecord(recordId: number): Promise<VerificationStatus> {
+    this.ensureContract();
+    return Number(await this.contract!.verifyRecord(recordId));
+  }
+
+  async revokeRecord(
+    recordId: number,
+    reasonCode: number,
+    note: string
+  ): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.revokeRecord(recordId, reasonCode, note);
+    await tx.wait();
+  }
+
+  // Deletes one record issued by the connected university
+  async withdrawRecord(recordId: number, reason: string): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.withdrawRecord(recordId, reason);
+    await tx.wait();
+  }
+
+  async getRevocation(recordId: number): Promise<RecordRevocation> {
+    this.ensureContract();
+    const revocation = await this.contract!.getRevocation(recordId);
+    return {
+      reasonCode: Number(revocation.reasonCode),
+      note: revocation.note,
+      timestamp: Number(revocation.timestamp),
+      revokedBy: revocation.revokedBy,
+    };
+  }
+
+  // Returns the tombstone of a deleted record, or null when the record was
+  // never deleted
+  async getDeletedRecord(recordId: number): Promise<RecordTombstone | null> {
+    this.ensureContract();
+    try {
+      const tombstone = await this.contract!.getDeletedRecord(recordId);
+      return {
+        issuer: tombstone.issuer,
+        deletedAt: Number(tombstone.deletedAt),
+      };
+    } catch {
+      return null;
+    }
   }
 
   async recordAccess(recordId: number): Promise<void> {
@@ -212,13 +974,70 @@ class BlockchainService {
     await tx.wait();
   }
 
+  // Logs a view of a shared record by the connected wallet. The wallet signs
+  // an access receipt and the relayer route submits it, so the view costs the
+  // viewer no gas
+  async logRecordAccess(recordId: number): Promise<void> {
+    if (!this.signer || !this.provider) throw new Error("Signer not available");
+    const accessor = await this.signer.getAddress();
+    const accessedAt = Math.floor(Date.now() / 1000);
+    const { chainId } = await this.provider.getNetwork();
+    const signature = await this.signer.signTypedData(
+      getAccessLogDomain(chainId, this.accessLogAddress),
+      RECORD_ACCESS_TYPES,
+      { recordId, accessor, accessedAt }
+    );
+
+    const receipt: RecordAccessReceipt = {
+      recordId,
+      accessor,
+      accessedAt,
+      signature,
+    };
+    const response = await fetch("/api/access-log", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(receipt),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to log record access");
+    }
+  }
+
+  // Returns the logged views of the given records, most recent first
+  async getAccessLog(recordIds: number[]): Promise<RecordAccessEntry[]> {
+    this.ensureAccessLogContract();
+    if (recordIds.length === 0) return [];
+
+    const events = await this.accessLogContract!.queryFilter(
+      this.accessLogContract!.filters.RecordAccessed(recordIds)
+    );
+    return events
+      .map((event) => {
+        const { args } = event as ethers.EventLog;
+        return {
+          recordId: Number(args.recordId),
+          accessor: args.accessor,
+          accessedAt: Number(args.accessedAt),
+        };
+      })
+      .sort((a, b) => b.accessedAt - a.accessedAt);
+  }
+
   // Record sharing functions
+  // Shares a record for `durationSeconds`, or without a time limit when 0
   async shareRecord(
     recordId: number,
-    sharedWithAddress: string
+    sharedWithAddress: string,
+    durationSeconds: number = 0
   ): Promise<void> {
     this.ensureContract();
-    const tx = await this.contract!.shareRecord(recordId, sharedWithAddress);
+    const tx = await this.contract!.shareRecord(
+      recordId,
+      sharedWithAddress,
+      durationSeconds
+    );
     await tx.wait();
   }
 
@@ -245,29 +1064,257 @@ class BlockchainService {
     return await this.contract!.isRecordSharedWith(recordId, userAddress);
   }
 
+  // Returns every address the record is shared with, including expired grants
+  async getSharedAddresses(recordId: number): Promise<ShareGrant[]> {
+    this.ensureContract();
+    const grants = await this.contract!.getRecordGrantees(recordId);
+    return grants.map((grant: any) => ({
+      address: grant.grantee,
+      grantedAt: Number(grant.grantedAt),
+      expiresAt:
+        grant.expiresAt === ethers.MaxUint256
+          ? Infinity
+          : Number(grant.expiresAt),
+    }));
+  }
+
+  // Returns the grant expiry as a Unix timestamp in seconds, Infinity for
+  // grants without a time limit and 0 when the record is not shared
+  async getShareExpiry(recordId: number, userAddress: string): Promise<number> {
+    this.ensureContract();
+    const expiry: bigint = await this.contract!.getShareExpiry(
+      recordId,
+      userAddress
+    );
+    return expiry === ethers.MaxUint256 ? Infinity : Number(expiry);
+  }
+
   // Student registration
   async registerStudent(
     studentId: string,
-    studentAddress?: string
+    studentAddress: string
   ): Promise<void> {
-    if (!this.studentManagementContract) {
-      throw new Error("StudentManagement contract not initialized");
-    }
-    // If studentAddress is provided, use it (admin registering a student)
-    // Otherwise, use the current user's address (student self-registration)
-    const address = studentAddress || (await this.getCurrentAddress());
-    const tx = await this.studentManagementContract.registerStudent(
+    this.ensureContract();
+    const tx = await this.contract!.registerStudent(studentId, studentAddress);
+    await tx.wait();
+  }
+
+  async requestStudentAddressChange(
+    studentId: string,
+    newAddress: string
+  ): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.requestStudentAddressChange(
       studentId,
-      address
+      newAddress
     );
     await tx.wait();
   }
 
+  async approveStudentAddressChange(studentId: string): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.approveStudentAddressChange(studentId);
+    await tx.wait();
+  }
+
+  // Returns the pending address changes among the given student IDs
+  async getPendingAddressChanges(
+    studentIds: string[]
+  ): Promise<StudentAddressChange[]> {
+    this.ensureStudentManagementContract();
+    const changes = await Promise.all(
+      studentIds.map(async (studentId) => ({
+        studentId,
+        currentAddress: await this.studentManagementContract!.getStudentAddress(
+          studentId
+        ),
+        newAddress: await this.studentManagementContract!.pendingAddressChanges(
+          studentId
+        ),
+      }))
+    );
+    return changes.filter((change) => change.newAddress !== ethers.ZeroAddress);
+  }
+
   async getStudentId(address: string): Promise<string> {
-    if (!this.studentManagementContract) {
-      throw new Error("StudentManagement contract not initialized");
-    }
-    return await this.studentManagementContract.getStudentId(address);
+    this.ensureStudentManagementContract();
+    return await this.studentManagementContract!.getStudentId(address);
+  }
+
+  async isStudentRegistered(studentId: string): Promise<boolean> {
+    this.ensureStudentManagementContract();
+    return await this.studentManagementContract!.isStudentRegistered(studentId);
+  }
+
+  // Self-registration claims, called on StudentManagement directly
+  async claimStudentId(studentId: string, university: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.claimStudentId(
+      studentId,
+      university
+    );
+    await tx.wait();
+  }
+
+  async approveStudentClaim(claimant: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.approveStudentClaim(
+      claimant
+    );
+    await tx.wait();
+  }
+
+  async rejectStudentClaim(claimant: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.rejectStudentClaim(
+      claimant
+    );
+    await tx.wait();
+  }
+
+  // Returns the latest claim of a wallet, or null when it never claimed
+  async getStudentClaim(claimant: string): Promise<StudentClaim | null> {
+    this.ensureStudentManagementContract();
+    const claim = await this.studentManagementContract!.getStudentClaim(
+      claimant
+    );
+    if (Number(claim.status) === ClaimStatus.NONE) return null;
+
+    return {
+      claimant,
+      studentId: claim.studentId,
+      university: claim.university,
+      requestedAt: Number(claim.requestedAt),
+      expiresAt: Number(claim.expiresAt),
+      status: Number(claim.status),
+    };
+  }
+
+  // Returns the unexpired pending claims made at a university
+  async getPendingStudentClaims(university: string): Promise<StudentClaim[]> {
+    this.ensureStudentManagementContract();
+    const claimants: string[] =
+      await this.studentManagementContract!.getUniversityClaimants(university);
+
+    const claims = await Promise.all(
+      [...new Set(claimants)].map((claimant) => this.getStudentClaim(claimant))
+    );
+    const now = Date.now() / 1000;
+    return claims.filter(
+      (claim): claim is StudentClaim =>
+        claim !== null &&
+        claim.status === ClaimStatus.PENDING &&
+        claim.university.toLowerCase() === university.toLowerCase() &&
+        claim.expiresAt > now
+    );
+  }
+
+  // Calls the listener when a university approves or rejects the claimant's
+  // claim. Returns a function that removes the listener
+  onStudentClaimResolved(
+    claimant: string,
+    listener: (status: ClaimStatus) => void
+  ): () => void {
+    this.ensureStudentManagementContract();
+    const filter =
+      this.studentManagementContract!.filters.StudentClaimResolved(claimant);
+    const handler = (
+      _claimant: string,
+      _studentId: string,
+      _university: string,
+      status: bigint
+    ) => listener(Number(status));
+
+    this.studentManagementContract!.on(filter, handler);
+    return () => {
+      this.studentManagementContract?.off(filter, handler);
+    };
+  }
+
+  // Claim lifetime in seconds
+  async getClaimExpiry(): Promise<number> {
+    this.ensureStudentManagementContract();
+    return Number(await this.studentManagementContract!.getClaimExpiry());
+  }
+
+  async setClaimExpiry(seconds: number): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.setClaimExpiry(seconds);
+    await tx.wait();
+  }
+
+  // Wallet recovery, called on StudentManagement directly. Requested from
+  // the new wallet of the student
+  async requestWalletRecovery(studentId: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.requestWalletRecovery(
+      studentId
+    );
+    await tx.wait();
+  }
+
+  async attestWalletRecovery(
+    studentId: string,
+    newAddress: string
+  ): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.attestWalletRecovery(
+      studentId,
+      newAddress
+    );
+    await tx.wait();
+  }
+
+  // Vetoes the recovery from the student's current wallet, or rejects it as
+  // an issuing university
+  async cancelWalletRecovery(studentId: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.cancelWalletRecovery(
+      studentId
+    );
+    await tx.wait();
+  }
+
+  async completeWalletRecovery(studentId: string): Promise<void> {
+    this.ensureStudentManagementContract();
+    const tx = await this.studentManagementContract!.completeWalletRecovery(
+      studentId
+    );
+    await tx.wait();
+  }
+
+  // Returns the pending recovery of a student, or null when there is none
+  async getWalletRecovery(studentId: string): Promise<WalletRecovery | null> {
+    this.ensureStudentManagementContract();
+    const recovery = await this.studentManagementContract!.getWalletRecovery(
+      studentId
+    );
+    if (recovery.newAddress === ethers.ZeroAddress) return null;
+
+    return {
+      studentId,
+      newAddress: recovery.newAddress,
+      requestedAt: Number(recovery.requestedAt),
+      executableAt: Number(recovery.executableAt),
+      attestations: Number(recovery.attestations),
+      hasAttested:
+        await this.studentManagementContract!.hasAttestedWalletRecovery(
+          studentId,
+          await this.getCurrentAddress()
+        ),
+    };
+  }
+
+  // Returns the pending recoveries among the given student IDs
+  async getPendingWalletRecoveries(
+    studentIds: string[]
+  ): Promise<WalletRecovery[]> {
+    const recoveries = await Promise.all(
+      studentIds.map((studentId) => this.getWalletRecovery(studentId))
+    );
+    return recoveries.filter(
+      (recovery): recovery is WalletRecovery => recovery !== null
+    );
   }
 
   // Pause control
@@ -308,6 +1355,12 @@ class BlockchainService {
     return await this.contract!.getAllAdmins();
   }
 
+  async getAdminsPage(offset: number, limit: number): Promise<Page<string>> {
+    this.ensureContract();
+    const [admins, total] = await this.contract!.getAdminsPage(offset, limit);
+    return { items: [...admins], total: Number(total) };
+  }
+
   // Adds a new admin to the system
   async addAdmin(adminAddress: string): Promise<void> {
     this.ensureContract();
@@ -329,6 +1382,144 @@ class BlockchainService {
     await tx.wait();
   }
 
+  // Multi-admin approval
+
+  // Number of admin approvals a proposal needs; 1 means actions are direct
+  async getApprovalThreshold(): Promise<number> {
+    this.ensureContract();
+    return Number(await this.contract!.approvalThreshold());
+  }
+
+  // Enables multi-admin approval, only while the threshold is still 1
+  async setApprovalThreshold(threshold: number): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.setApprovalThreshold(threshold);
+    await tx.wait();
+  }
+
+  // Proposes a sensitive action and returns the proposal ID; the proposer's
+  // approval is counted immediately
+  async proposeAction(
+    action: ProposalAction,
+    target: string = ethers.ZeroAddress,
+    value: number = 0
+  ): Promise<number> {
+    this.ensureContract();
+    const tx = await this.contract!.proposeAction(action, target, value);
+    const receipt = await tx.wait();
+    const event = receipt.logs?.find((log: any) => {
+      try {
+        const parsed = this.contract!.interface.parseLog(log);
+        return parsed?.name === "ProposalCreated";
+      } catch {
+        return false;
+      }
+    });
+    if (!event) throw new Error("ProposalCreated event not found");
+    const parsedEvent = this.contract!.interface.parseLog(event);
+    return Number(parsedEvent?.args.proposalId);
+  }
+
+  async approveProposal(proposalId: number): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.approveProposal(proposalId);
+    await tx.wait();
+  }
+
+  async rejectProposal(proposalId: number): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.rejectProposal(proposalId);
+    await tx.wait();
+  }
+
+  // Returns open proposals, flagging those the connected admin voted on
+  async getPendingProposals(): Promise<Proposal[]> {
+    this.ensureContract();
+    const address = await this.getCurrentAddress();
+    const proposalIds: bigint[] = await this.contract!.getPendingProposals();
+
+    return await Promise.all(
+      proposalIds.map(async (id: bigint) => {
+        const proposal = await this.contract!.getProposal(id);
+        return {
+          id: Number(proposal.id),
+          action: Number(proposal.action),
+          target: proposal.target,
+          value: Number(proposal.value),
+          proposer: proposal.proposer,
+          approvals: Number(proposal.approvals),
+          rejections: Number(proposal.rejections),
+          createdAt: Number(proposal.createdAt),
+          expiresAt: Number(proposal.expiresAt),
+          status: Number(proposal.status),
+          hasVoted: await this.contract!.hasVotedOnProposal(id, address),
+        };
+      })
+    );
+  }
+
+  // Super admin transfer
+
+  // From the super admin this starts a timelocked handover; from another
+  // admin it starts a recovery that also needs a quorum of admin approvals
+  async proposeSuperAdminTransfer(newSuperAdmin: string): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.proposeSuperAdminTransfer(newSuperAdmin);
+    await tx.wait();
+  }
+
+  async approveSuperAdminRecovery(): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.approveSuperAdminRecovery();
+    await tx.wait();
+  }
+
+  // The super admin cancels any pending transfer. From another admin this
+  // casts a vote against the recovery, which is cancelled once a quorum voted
+  async cancelSuperAdminTransfer(): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.cancelSuperAdminTransfer();
+    await tx.wait();
+  }
+
+  // Must be sent by the nominee once the timelock has passed
+  async acceptSuperAdminTransfer(): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.acceptSuperAdminTransfer();
+    await tx.wait();
+  }
+
+  async getSuperAdmin(): Promise<string> {
+    this.ensureContract();
+    return await this.contract!.SUPER_ADMIN();
+  }
+
+  // Returns the pending super admin transfer, or null when there is none.
+  // A lapsed recovery counts as none, since a new transfer replaces it
+  async getPendingSuperAdminTransfer(): Promise<SuperAdminTransfer | null> {
+    this.ensureContract();
+    const transfer = await this.contract!.getPendingSuperAdminTransfer();
+    if (transfer.newSuperAdmin === ethers.ZeroAddress) return null;
+    const expiresAt = transfer.isRecovery
+      ? Number(transfer.executableAt) + SUPER_ADMIN_RECOVERY_EXPIRY
+      : 0;
+    if (expiresAt && expiresAt * 1000 <= Date.now()) return null;
+
+    const address = await this.getCurrentAddress();
+    return {
+      newSuperAdmin: transfer.newSuperAdmin,
+      executableAt: Number(transfer.executableAt),
+      expiresAt,
+      isRecovery: transfer.isRecovery,
+      approvals: Number(transfer.approvals),
+      quorum: Number(await this.contract!.getSuperAdminRecoveryQuorum()),
+      hasApproved: await this.contract!.hasApprovedSuperAdminRecovery(address),
+      hasVotedToCancel: await this.contract!.hasVotedToCancelSuperAdminRecovery(
+        address
+      ),
+    };
+  }
+
   // Adds a new custom record type and returns its type ID
   async addCustomRecordType(
     name: string,
@@ -352,6 +1543,99 @@ class BlockchainService {
     const parsedEvent = this.contract!.interface.parseLog(event);
     return Number(parsedEvent?.args.typeId);
   }
+
+  // Enables or disables a custom record type created by the current university
+  async updateCustomRecordType(
+    typeId: number,
+    isActive: boolean
+  ): Promise<void> {
+    this.ensureContract();
+    const tx = await this.contract!.updateCustomRecordType(typeId, isActive);
+    await tx.wait();
+  }
+
+  async getCustomRecordType(typeId: number): Promise<CustomRecordType> {
+    this.ensureContract();
+    const customType = await this.contract!.getCustomRecordType(typeId);
+    return {
+      id: Number(customType.id),
+      name: customType.name,
+      description: customType.description,
+      creator: customType.creator,
+      timestamp: Number(customType.timestamp),
+      isActive: customType.isActive,
+    };
+  }
+
+  // Returns the custom record types created by the current university
+  async getUniversityCustomTypes(): Promise<CustomRecordType[]> {
+    this.ensureContract();
+    const typeIds: bigint[] = await this.contract!.getUniversityCustomTypes();
+    return await Promise.all(
+      typeIds.map((id: bigint) => this.getCustomRecordType(Number(id)))
+    );
+  }
+
+  // Merkle anchoring
+
+  // Anchors the Merkle root of the records and returns one proof file per
+  // record, in input order, for the university to hand to each student
+  async anchorRecords(records: AnchoredRecord[]): Promise<RecordProofFile[]> {
+    this.ensureContract();
+    const tree = buildMerkleTree(records);
+    const tx = await this.contract!.anchorRecordBatch(
+      tree.root,
+      records.length
+    );
+    const receipt = await tx.wait();
+    const event = receipt.logs?.find((log: any) => {
+      try {
+        const parsed = this.contract!.interface.parseLog(log);
+        return parsed?.name === "BatchAnchored";
+      } catch {
+        return false;
+      }
+    });
+    if (!event) throw new Error("BatchAnchored event not found");
+    const parsedEvent = this.contract!.interface.parseLog(event);
+    const batchId = Number(parsedEvent?.args.batchId);
+
+    return records.map((record, index) => ({
+      version: 1,
+      contractAddress: this.contractAddress,
+      batchId,
+      merkleRoot: tree.root,
+      record,
+      proof: tree.proofs[index],
+    }));
+  }
+
+  async getAnchoredBatch(batchId: number): Promise<AnchoredBatch> {
+    this.ensureContract();
+    const batch = await this.contract!.getAnchoredBatch(batchId);
+    return {
+      id: Number(batch.id),
+      merkleRoot: batch.merkleRoot,
+      issuer: batch.issuer,
+      recordCount: Number(batch.recordCount),
+      timestamp: Number(batch.timestamp),
+    };
+  }
+
+  async getUniversityAnchoredBatches(): Promise<number[]> {
+    this.ensureContract();
+    const batchIds = await this.contract!.getUniversityAnchoredBatches();
+    return batchIds.map((id: bigint) => Number(id));
+  }
+
+  async verifyAnchoredRecord(
+    batchId: number,
+    record: AnchoredRecord,
+    proof: string[]
+  ): Promise<boolean> {
+    this.ensureContract();
+    return await this.contract!.verifyAnchoredRecord(batchId, record, proof);
+  }
 }
 
 export const blockchainService = new BlockchainService();
@@ -0,0 +1,57 @@
+// Sensitive admin actions that need multi-admin approval, mirrors
+// GovernanceStorage.ProposalAction
+export enum ProposalAction {
+  ADD_ADMIN = 0,
+  REMOVE_ADMIN = 1,
+  REMOVE_UNIVERSITY = 2,
+  PAUSE = 3,
+  UNPAUSE = 4,
+  SET_THRESHOLD = 5,
+}
+
+export enum ProposalStatus {
+  PENDING = 0,
+  EXECUTED = 1,
+  REJECTED = 2,
+}
+
+export const PROPOSAL_ACTION_NAMES: Record<ProposalAction, string> = {
+  [ProposalAction.ADD_ADMIN]: "Add admin",
+  [ProposalAction.REMOVE_ADMIN]: "Remove admin",
+  [ProposalAction.REMOVE_UNIVERSITY]: "Remove university",
+  [ProposalAction.PAUSE]: "Pause contract",
+  [ProposalAction.UNPAUSE]: "Unpause contract",
+  [ProposalAction.SET_THRESHOLD]: "Change approval threshold",
+};
+
+export interface Proposal {
+  id: number;
+  action: ProposalAction;
+  target: string;
+  value: number;
+  proposer: string;
+  approvals: number;
+  rejections: number;
+  createdAt: number;
+  expiresAt: number; // Unix timestamp in seconds
+  status: ProposalStatus;
+  hasVoted: boolean; // Whether the connected admin already voted
+}
+
+// Seconds after its timelock a recovery lapses if not accepted, mirrors
+// GovernanceStorage.RECOVERY_EXPIRY
+export const SUPER_ADMIN_RECOVERY_EXPIRY = 30 * 24 * 60 * 60;
+
+// Pending handover of the super admin role. A recovery is started by the
+// other admins and also needs `quorum` approvals; the same quorum of votes
+// cancels it
+export interface SuperAdminTransfer {
+  newSuperAdmin: string;
+  executableAt: number; // Unix timestamp in seconds
+  expiresAt: number; // Unix timestamp in seconds a recovery lapses, 0 otherwise
+  isRecovery: boolean;
+  approvals: number;
+  quorum: number;
+  hasApproved: boolean; // Whether the connected admin approved the recovery
+  hasVotedToCancel: boolean; // Whether the connected admin voted to cancel
+}
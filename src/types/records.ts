@@ -103,6 +103,67 @@ export function getRecordTypeName(typeId: number): string {
   return "Unknown";
 }
 
+// Enum values matching the RevocationReason enum in the blockchain contract
+export enum RevocationReason {
+  ISSUED_IN_ERROR = 0,
+  INCORRECT_DETAILS = 1,
+  ACADEMIC_MISCONDUCT = 2,
+  FRAUDULENT_DOCUMENT = 3,
+  ADMINISTRATIVE_CORRECTION = 4,
+  OTHER = 5,
+}
+
+// Map from RevocationReason enum values to human-readable strings
+export const REVOCATION_REASON_NAMES: string[] = [
+  "Issued in error",
+  "Incorrect details",
+  "Academic misconduct",
+  "Fraudulent document",
+  "Administrative correction",
+  "Other",
+];
+
+// Helper function to get a revocation reason name from its code
+export function getRevocationReasonName(reasonCode: number): string {
+  if (reasonCode >= 0 && reasonCode < REVOCATION_REASON_NAMES.length) {
+    return REVOCATION_REASON_NAMES[reasonCode];
+  }
+  return "Unknown";
+}
+
+// Revocation details stored on-chain for a revoked record
+export interface RecordRevocation {
+  reasonCode: number;
+  note: string;
+  timestamp: number;
+  revokedBy: string;
+}
+
+// Builds the "Revoked on <date>: <reason>" status line shown for revoked records
+export function formatRevocation(revocation: RecordRevocation): string {
+  const date = new Date(revocation.timestamp * 1000).toLocaleDateString();
+  const reason = getRevocationReasonName(revocation.reasonCode);
+  return revocation.note
+    ? `Revoked on ${date}: ${reason} (${revocation.note})`
+    : `Revoked on ${date}: ${reason}`;
+}
+
+// Left on-chain in place of a record deleted by its university
+export interface RecordTombstone {
+  issuer: string;
+  deletedAt: number; // Unix timestamp in seconds
+}
+
+// Builds the "This record was withdrawn by <university> on <date>" status
+// line shown for deleted records
+export function formatWithdrawal(
+  universityName: string,
+  tombstone: RecordTombstone
+): string {
+  const date = new Date(tombstone.deletedAt * 1000).toLocaleDateString();
+  return `This record was withdrawn by ${universityName} on ${date}`;
+}
+
 // Record interface matching the blockchain contract
 export interface Record {
   id: number;
@@ -114,7 +175,167 @@ export interface Record {
   ipfsHash: string;
   timestamp: number;
   university: string;
+  issuedBy: string; // University wallet or staff account that issued it
   isValid: boolean;
+  revocation?: RecordRevocation;
+  previousRecordId: number;
+  supersededBy: number;
+  customTypeId: number;
+  customType?: CustomRecordType;
+  visibleFrom: number; // Unix timestamp in seconds, 0 when visible on issue
+  validFrom: number; // Unix timestamp in seconds, 0 when valid on issue
+  validUntil: number; // Last second the record is valid, 0 when it never expires
+}
+
+// Result of verifyRecord, matching the contract's VerificationStatus enum
+export enum VerificationStatus {
+  REVOKED = 0,
+  VALID = 1,
+  NOT_YET_VALID = 2,
+  EXPIRED = 3,
+  AWAITING_COSIGNATURES = 4,
+}
+
+// Countersignature of a joint record by one of its co-signing universities
+export interface Cosignature {
+  university: string;
+  signedBy: string; // University wallet or staff account that signed
+  signedAt: number; // Unix timestamp in seconds, 0 while pending
+}
+
+// Badge text for each VerificationStatus, indexed by its value
+export const VERIFICATION_STATUS_LABELS: string[] = [
+  "Revoked",
+  "Verified",
+  "Not yet valid",
+  "Expired",
+  "Awaiting co-signatures",
+];
+
+// Builds the "Valid from <date> until <date>" line of time-bound documents,
+// empty for records that are valid indefinitely
+export function formatValidityWindow(
+  record: Pick<Record, "validFrom" | "validUntil">
+): string {
+  const from = new Date(record.validFrom * 1000).toLocaleDateString();
+  const until = new Date(record.validUntil * 1000).toLocaleDateString();
+  if (record.validFrom && record.validUntil) {
+    return `Valid from ${from} until ${until}`;
+  }
+  if (record.validUntil) return `Valid until ${until}`;
+  if (record.validFrom) return `Valid from ${from}`;
+  return "";
+}
+
+// Records released at a later time stay hidden from everyone but their issuer
+export function isScheduled(
+  record: Pick<Record, "visibleFrom">,
+  now: number = Date.now()
+): boolean {
+  return record.visibleFrom * 1000 > now;
+}
+
+// Converts a datetime-local input value to a Unix timestamp in seconds, 0 when
+// empty
+export function toTimestamp(value: string): number {
+  return value ? Math.floor(new Date(value).getTime() / 1000) : 0;
+}
+
+// The datetime-local input value for a Unix timestamp in seconds, empty when 0
+export function toDateTimeInput(timestamp: number): string {
+  if (!timestamp) return "";
+  const date = new Date(timestamp * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+// Display name of a record's type, preferring the university's custom type when set
+export function getRecordTypeLabel(
+  record: Pick<Record, "recordType" | "customType">
+): string {
+  return record.customType
+    ? record.customType.name
+    : getRecordTypeName(record.recordType);
+}
+
+// Record type select values: built-in types use their enum value and
+// custom types use "custom:<typeId>" (stored on-chain as OTHER + typeId)
+export function toRecordTypeOption(
+  recordType: number,
+  customTypeId: number = 0
+): string {
+  return customTypeId !== 0 ? `custom:${customTypeId}` : recordType.toString();
+}
+
+// Parses a record type select value back into the contract arguments
+export function fromRecordTypeOption(value: string): {
+  recordType: number;
+  customTypeId: number;
+} {
+  if (value.startsWith("custom:")) {
+    return {
+      recordType: RecordType.OTHER,
+      customTypeId: parseInt(value.slice("custom:".length), 10),
+    };
+  }
+  return { recordType: parseInt(value, 10), customTypeId: 0 };
+}
+
+// An address a record has been shared with, and the lifetime of that grant.
+// expiresAt is a Unix timestamp in seconds, or Infinity for grants without a time limit
+export interface ShareGrant {
+  address: string;
+  grantedAt: number;
+  expiresAt: number;
+}
+
+// A logged view of a shared record by one of its grantees
+export interface RecordAccessEntry {
+  recordId: number;
+  accessor: string;
+  accessedAt: number; // Unix timestamp in seconds
+}
+
+// A field that changed between two versions of the same record
+export interface RecordFieldChange {
+  field: string;
+  previous: string;
+  current: string;
+}
+
+// Compares two consecutive record versions and lists the fields a correction changed
+export function getChangedFields(
+  previous: Record,
+  current: Record
+): RecordFieldChange[] {
+  const changes: RecordFieldChange[] = [];
+
+  if (previous.studentName !== current.studentName) {
+    changes.push({
+      field: "Student Name",
+      previous: previous.studentName,
+      current: current.studentName,
+    });
+  }
+  if (
+    previous.recordType !== current.recordType ||
+    previous.customTypeId !== current.customTypeId
+  ) {
+    changes.push({
+      field: "Record Type",
+      previous: getRecordTypeLabel(previous),
+      current: getRecordTypeLabel(current),
+    });
+  }
+  if (previous.ipfsHash !== current.ipfsHash) {
+    changes.push({
+      field: "IPFS Hash",
+      previous: previous.ipfsHash,
+      current: current.ipfsHash,
+    });
+  }
+
+  return changes;
 }
 
 // Type used in UI components for displaying record items
@@ -124,6 +345,8 @@ export interface RecordItem {
   type: string;
   dateIssued: string;
   universityName?: string;
+  validity?: string; // Validity window of time-bound documents
+  status?: VerificationStatus; // As reported by verifyRecord
 }
 
 // Custom record type interface
@@ -135,3 +358,96 @@ export interface CustomRecordType {
   timestamp: number;
   isActive: boolean;
 }
+
+// One row of a batch issuance
+export interface BatchRecordEntry {
+  studentId: string;
+  studentName: string;
+  studentAddress: string;
+  ipfsHash: string;
+  metadataHash: string;
+  recordType: number;
+}
+
+// A batch entry that was not issued, index refers to the submitted entries
+export interface BatchRecordFailure {
+  index: number;
+  studentId: string;
+  reason: string;
+}
+
+export interface BatchIssueProgress {
+  processed: number;
+  total: number;
+}
+
+export interface BatchIssueResult {
+  recordIds: number[]; // 0 for entries that failed
+  failures: BatchRecordFailure[];
+}
+
+// Record kept off chain and proven against an anchored Merkle root
+export interface AnchoredRecord {
+  studentId: string;
+  studentName: string;
+  studentAddress: string;
+  ipfsHash: string;
+  recordType: number;
+}
+
+export interface AnchoredBatch {
+  id: number;
+  merkleRoot: string;
+  issuer: string;
+  recordCount: number;
+  timestamp: number;
+}
+
+// Proof file handed to a student for a record in an anchored batch
+export interface RecordProofFile {
+  version: 1;
+  contractAddress: string;
+  batchId: number;
+  merkleRoot: string;
+  record: AnchoredRecord;
+  proof: string[];
+}
+
+// Mirrors RecordDrafts.DraftStatus
+export enum DraftStatus {
+  NONE = 0,
+  PENDING = 1,
+  RETURNED = 2,
+  PUBLISHED = 3,
+  DISCARDED = 4,
+}
+
+// The content of a record before it is issued, as submitted for review
+export interface RecordDraftContent {
+  studentId: string;
+  studentName: string;
+  studentAddress: string;
+  universityName: string;
+  ipfsHash: string;
+  metadataHash: string;
+  recordType: number;
+  customTypeId: number;
+  visibleFrom: number; // Unix timestamp in seconds, 0 when visible on issue
+  validFrom: number;
+  validUntil: number;
+  cosigners: string[]; // Universities asked to co-sign once it is published
+}
+
+// A record prepared by a university's staff, issued only once another
+// account with approval rights publishes it
+export interface RecordDraft extends RecordDraftContent {
+  id: number;
+  university: string;
+  createdBy: string;
+  status: DraftStatus;
+  reviewComments: string; // Left by the last reviewer that returned it
+  reviewedBy: string;
+  updatedAt: number; // Unix timestamp in seconds of the last submission
+  reviewedAt: number; // Unix timestamp in seconds, 0 until reviewed
+  recordId: number; // 0 until published
+}
@@ -0,0 +1,62 @@
+// A request to move a student ID to a new wallet, waiting for approval by a
+// university that issued the student a record
+export interface StudentAddressChange {
+  studentId: string;
+  currentAddress: string;
+  newAddress: string;
+}
+
+// A recovery of a student ID by a new wallet after the old one was lost,
+// mirrors StudentManagement.WalletRecovery
+export interface WalletRecovery {
+  studentId: string;
+  newAddress: string;
+  requestedAt: number; // Unix timestamp in seconds
+  executableAt: number; // 0 until the first university attests
+  attestations: number;
+  hasAttested: boolean; // Whether the connected university already attested
+}
+
+// Unattested requests lapse after this period, mirrors
+// StudentManagement.RECOVERY_REQUEST_EXPIRY
+export const RECOVERY_REQUEST_EXPIRY = 30 * 24 * 60 * 60;
+
+// Mirrors StudentManagement.ClaimStatus
+export enum ClaimStatus {
+  NONE = 0,
+  PENDING = 1,
+  APPROVED = 2,
+  REJECTED = 3,
+}
+
+// A wallet's request to be registered under a student ID at a university
+export interface StudentClaim {
+  claimant: string;
+  studentId: string;
+  university: string;
+  requestedAt: number; // Unix timestamp in seconds
+  expiresAt: number; // Unix timestamp in seconds
+  status: ClaimStatus;
+}
+
+// Pending claims past their expiry can no longer be approved
+export function isClaimExpired(claim: StudentClaim, now: number = Date.now()) {
+  return claim.status === ClaimStatus.PENDING && claim.expiresAt * 1000 <= now;
+}
+
+export function getClaimStatusLabel(
+  claim: StudentClaim,
+  now: number = Date.now()
+): string {
+  if (isClaimExpired(claim, now)) return "Expired";
+  switch (claim.status) {
+    case ClaimStatus.PENDING:
+      return "Pending";
+    case ClaimStatus.APPROVED:
+      return "Approved";
+    case ClaimStatus.REJECTED:
+      return "Rejected";
+    default:
+      return "None";
+  }
+}
@@ -0,0 +1,142 @@
+// Details of a registered university kept by the UniversityProfiles contract.
+// Every field is empty until an admin fills in the profile or approves the
+// university's application
+export interface UniversityProfile {
+  accreditationBody: string;
+  accreditationId: string;
+  country: string;
+  website: string;
+  contactEmail: string;
+  logoHash: string; // IPFS hash of the logo image
+  metadataHash: string; // IPFS hash of a document with further details
+}
+
+export const EMPTY_UNIVERSITY_PROFILE: UniversityProfile = {
+  accreditationBody: "",
+  accreditationId: "",
+  country: "",
+  website: "",
+  contactEmail: "",
+  logoHash: "",
+  metadataHash: "",
+};
+
+// Text fields of a profile as labelled in the profile forms
+export const UNIVERSITY_PROFILE_FIELDS: {
+  key: keyof UniversityProfile;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    key: "accreditationBody",
+    label: "Accreditation body",
+    placeholder: "e.g. Higher Learning Commission",
+  },
+  {
+    key: "accreditationId",
+    label: "Accreditation ID",
+    placeholder: "ID issued by the accreditation body",
+  },
+  { key: "country", label: "Country", placeholder: "e.g. United States" },
+  { key: "website", label: "Website", placeholder: "https://" },
+  {
+    key: "contactEmail",
+    label: "Contact email",
+    placeholder: "registrar@university.edu",
+  },
+  {
+    key: "metadataHash",
+    label: "Metadata document (IPFS hash)",
+    placeholder: "Qm...",
+  },
+];
+
+export function hasUniversityProfile(profile: UniversityProfile): boolean {
+  return Object.values(profile).some((value) => value !== "");
+}
+
+// Profiles are reviewed by admins, but websites are still checked before
+// they are rendered as links
+export function isWebsiteUrl(url: string): boolean {
+  return /^https?:\/\//.test(url);
+}
+
+// Mirrors UniversityProfiles.ApplicationStatus
+export enum ApplicationStatus {
+  NONE = 0,
+  PENDING = 1,
+  APPROVED = 2,
+  REJECTED = 3,
+}
+
+export const APPLICATION_STATUS_NAMES: string[] = [
+  "None",
+  "Pending review",
+  "Approved",
+  "Rejected",
+];
+
+// An institution's application to be registered as a university
+export interface UniversityApplication {
+  applicant: string;
+  name: string;
+  profile: UniversityProfile;
+  documentsHash: string; // IPFS hash of the accreditation documents
+  status: ApplicationStatus;
+  rejectionReason: string;
+  submittedAt: number; // Unix timestamp in seconds
+  reviewedAt: number; // Unix timestamp in seconds, 0 until reviewed
+}
+
+// Mirrors UniversityStaff.StaffRole; each role has the rights of the roles
+// before it
+export enum StaffRole {
+  NONE = 0,
+  VIEWER = 1,
+  CLERK = 2,
+  REGISTRAR = 3,
+}
+
+export const STAFF_ROLE_NAMES: string[] = [
+  "None",
+  "Viewer",
+  "Clerk",
+  "Registrar",
+];
+
+// An account working for a university under the university's wallet
+export interface StaffMember {
+  account: string;
+  university: string;
+  role: StaffRole;
+  grantedAt: number; // Unix timestamp in seconds of the last role change
+}
+
+// The university a wallet issues and reads records for. staffRole is null
+// when the wallet is the university's own
+export interface UniversityAccount {
+  university: string;
+  staffRole: StaffRole | null;
+  directIssuance: boolean; // Whether registrars issue without a review
+}
+
+// Universities issue records directly, and so do registrars of universities
+// that opted out of reviewing staff records
+export function canIssueRecords(account: UniversityAccount): boolean {
+  return (
+    account.staffRole === null ||
+    (account.staffRole >= StaffRole.REGISTRAR && account.directIssuance)
+  );
+}
+
+// Universities and registrars publish drafts written by others and co-sign
+// joint records
+export function canReviewRecords(account: UniversityAccount): boolean {
+  return account.staffRole === null || account.staffRole >= StaffRole.REGISTRAR;
+}
+
+// Clerks submit drafts for review, as can universities and registrars;
+// viewers only read records
+export function canDraftRecords(account: UniversityAccount): boolean {
+  return account.staffRole === null || account.staffRole >= StaffRole.CLERK;
+}